@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import type { IArtifactStore, ArtifactRecord } from './types.js';
+
+function artifact(content: string, filename = 'spec.yaml'): { record: ArtifactRecord; data: Buffer } {
+  const data = Buffer.from(content);
+  const sha256 = createHash('sha256').update(data).digest('hex');
+  return {
+    record: { sha256, size: data.length, contentType: 'text/yaml', filename, uploadedBy: 'alice', createdAt: 1 },
+    data,
+  };
+}
+
+/**
+ * Shared contract tests — every IArtifactStore implementation must pass these.
+ * Call this from each backend's test file, passing a factory that returns
+ * a fresh, empty store before each test.
+ */
+export function runArtifactStoreContractTests(
+  label: string,
+  factory: () => Promise<IArtifactStore>,
+): void {
+  describe(label, () => {
+    let store: IArtifactStore;
+    beforeEach(async () => { store = await factory(); });
+
+    it('returns null for an unknown artifact', async () => {
+      expect(await store.getArtifact('team-1', 'a'.repeat(64))).toBeNull();
+      expect(await store.readArtifact('team-1', 'a'.repeat(64))).toBeNull();
+      expect(await store.listArtifacts('team-1')).toEqual([]);
+    });
+
+    it('stores and reads back an artifact', async () => {
+      const { record, data } = artifact('openapi: 3.1.0');
+      await store.putArtifact('team-1', record, data);
+      expect(await store.getArtifact('team-1', record.sha256)).toEqual(record);
+      expect((await store.readArtifact('team-1', record.sha256))?.toString()).toBe('openapi: 3.1.0');
+    });
+
+    it('keeps the first record when the same content is uploaded again', async () => {
+      const first = artifact('same bytes', 'a.txt');
+      const second = { ...artifact('same bytes', 'b.txt') };
+      second.record = { ...second.record, uploadedBy: 'bob' };
+      expect(await store.putArtifact('team-1', first.record, first.data)).toEqual({ ok: true, created: true, record: first.record });
+      expect(await store.putArtifact('team-1', second.record, second.data)).toEqual({ ok: true, created: false, record: first.record });
+      expect(await store.listArtifacts('team-1')).toEqual([first.record]);
+    });
+
+    it('refuses an artifact that would exceed the quota', async () => {
+      const a = artifact('aaaa');
+      const b = artifact('bbbb');
+      await store.putArtifact('team-1', a.record, a.data, 6);
+      expect(await store.putArtifact('team-1', b.record, b.data, 6)).toEqual({ ok: false, usedBytes: 4 });
+      expect(await store.getArtifact('team-1', b.record.sha256)).toBeNull();
+      // Content already stored costs nothing more
+      expect((await store.putArtifact('team-1', a.record, a.data, 6)).ok).toBe(true);
+    });
+
+    it('counts concurrent uploads against the quota', async () => {
+      const uploads = ['aaaa', 'bbbb', 'cccc'].map((c) => artifact(c));
+      const results = await Promise.all(uploads.map(({ record, data }) => store.putArtifact('team-1', record, data, 10)));
+      expect(results.filter((r) => r.ok)).toHaveLength(2);
+      expect(await store.listArtifacts('team-1')).toHaveLength(2);
+    });
+
+    it('keeps artifacts separate per team', async () => {
+      const { record, data } = artifact('team one only');
+      await store.putArtifact('team-1', record, data);
+      expect(await store.getArtifact('team-2', record.sha256)).toBeNull();
+      expect(await store.listArtifacts('team-2')).toEqual([]);
+    });
+
+    it('lists every artifact of a team', async () => {
+      const a = artifact('a');
+      const b = artifact('b');
+      await store.putArtifact('team-1', a.record, a.data);
+      await store.putArtifact('team-1', b.record, b.data);
+      const shas = (await store.listArtifacts('team-1')).map((r) => r.sha256).sort();
+      expect(shas).toEqual([a.record.sha256, b.record.sha256].sort());
+    });
+
+    it('deletes a single artifact', async () => {
+      const a = artifact('a');
+      const b = artifact('b');
+      await store.putArtifact('team-1', a.record, a.data);
+      await store.putArtifact('team-1', b.record, b.data);
+      await store.deleteArtifact('team-1', a.record.sha256);
+      expect(await store.getArtifact('team-1', a.record.sha256)).toBeNull();
+      expect(await store.readArtifact('team-1', a.record.sha256)).toBeNull();
+      expect(await store.listArtifacts('team-1')).toHaveLength(1);
+    });
+
+    it('deletes all artifacts of a team', async () => {
+      const a = artifact('a');
+      await store.putArtifact('team-1', a.record, a.data);
+      await store.putArtifact('team-2', a.record, a.data);
+      await store.deleteTeamArtifacts('team-1');
+      expect(await store.listArtifacts('team-1')).toEqual([]);
+      expect(await store.listArtifacts('team-2')).toHaveLength(1);
+    });
+  });
+}
@@ -0,0 +1,7 @@
+import { VolumeArtifactStore } from './volume.js';
+import type { IArtifactStore } from './types.js';
+
+export type { IArtifactStore, ArtifactRecord, ArtifactPutResult } from './types.js';
+
+// Active artifact backend — swap for MemoryArtifactStore (or another implementation) like the IStore in store/index.ts
+export const artifacts: IArtifactStore = new VolumeArtifactStore();
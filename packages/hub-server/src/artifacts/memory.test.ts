@@ -0,0 +1,4 @@
+import { MemoryArtifactStore } from './memory.js';
+import { runArtifactStoreContractTests } from './contract.js';
+
+runArtifactStoreContractTests('MemoryArtifactStore', async () => new MemoryArtifactStore());
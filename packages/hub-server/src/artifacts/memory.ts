@@ -0,0 +1,36 @@
+import type { IArtifactStore, ArtifactRecord, ArtifactPutResult } from './types.js';
+
+export class MemoryArtifactStore implements IArtifactStore {
+  private blobs = new Map<string, Map<string, { record: ArtifactRecord; data: Buffer }>>(); // teamId → sha256 → blob
+
+  async putArtifact(teamId: string, record: ArtifactRecord, data: Buffer, quotaBytes = Infinity): Promise<ArtifactPutResult> {
+    const team = this.blobs.get(teamId) ?? new Map<string, { record: ArtifactRecord; data: Buffer }>();
+    const existing = team.get(record.sha256);
+    if (existing) return { ok: true, created: false, record: existing.record };
+    const usedBytes = [...team.values()].reduce((sum, b) => sum + b.record.size, 0);
+    if (usedBytes + record.size > quotaBytes) return { ok: false, usedBytes };
+    team.set(record.sha256, { record, data: Buffer.from(data) });
+    this.blobs.set(teamId, team);
+    return { ok: true, created: true, record };
+  }
+
+  async getArtifact(teamId: string, sha256: string): Promise<ArtifactRecord | null> {
+    return this.blobs.get(teamId)?.get(sha256)?.record ?? null;
+  }
+
+  async readArtifact(teamId: string, sha256: string): Promise<Buffer | null> {
+    return this.blobs.get(teamId)?.get(sha256)?.data ?? null;
+  }
+
+  async listArtifacts(teamId: string): Promise<ArtifactRecord[]> {
+    return [...(this.blobs.get(teamId)?.values() ?? [])].map((b) => b.record);
+  }
+
+  async deleteArtifact(teamId: string, sha256: string): Promise<void> {
+    this.blobs.get(teamId)?.delete(sha256);
+  }
+
+  async deleteTeamArtifacts(teamId: string): Promise<void> {
+    this.blobs.delete(teamId);
+  }
+}
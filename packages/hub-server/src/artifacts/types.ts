@@ -0,0 +1,26 @@
+// Metadata for an uploaded blob. Blobs are content-addressed: the SHA-256 of
+// the bytes is the key, so re-uploading identical content is a no-op.
+export interface ArtifactRecord {
+  sha256: string;
+  size: number;          // bytes
+  contentType: string;
+  filename?: string;     // as supplied by the first uploader
+  uploadedBy: string;    // agent name
+  createdAt: number;
+}
+
+// `created` is false when the content was already stored; the first record is kept.
+// `ok: false` means storing it would take the team past its quota
+export type ArtifactPutResult =
+  | { ok: true; created: boolean; record: ArtifactRecord }
+  | { ok: false; usedBytes: number };
+
+export interface IArtifactStore {
+  // Checks the quota and stores in one step, so concurrent uploads cannot overshoot it
+  putArtifact(teamId: string, record: ArtifactRecord, data: Buffer, quotaBytes?: number): Promise<ArtifactPutResult>;
+  getArtifact(teamId: string, sha256: string): Promise<ArtifactRecord | null>;
+  readArtifact(teamId: string, sha256: string): Promise<Buffer | null>;
+  listArtifacts(teamId: string): Promise<ArtifactRecord[]>;
+  deleteArtifact(teamId: string, sha256: string): Promise<void>;
+  deleteTeamArtifacts(teamId: string): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import { afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { VolumeArtifactStore } from './volume.js';
+import { runArtifactStoreContractTests } from './contract.js';
+
+// Use a unique temp directory per test; clean up after each test
+let tmpRoot = '';
+
+afterEach(() => {
+  if (tmpRoot) rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+runArtifactStoreContractTests('VolumeArtifactStore', async () => {
+  tmpRoot = join(tmpdir(), `agent-hub-artifacts-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+  return new VolumeArtifactStore(tmpRoot);
+});
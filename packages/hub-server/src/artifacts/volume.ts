@@ -0,0 +1,90 @@
+import { readFile, writeFile, mkdir, rename, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import type { IArtifactStore, ArtifactRecord, ArtifactPutResult } from './types.js';
+
+// Layout: <root>/<teamId>/<sha256> holds the bytes, <sha256>.json the record.
+// Callers validate teamId (a UUID) and sha256 (64 hex chars) before they get here.
+export class VolumeArtifactStore implements IArtifactStore {
+  private readonly root: string;
+  private readonly puts = new Map<string, Promise<unknown>>(); // teamId → tail of its queued uploads
+
+  constructor(root: string = process.env['ARTIFACTS_PATH'] ?? '/data/artifacts') {
+    this.root = root;
+  }
+
+  private blobPath(teamId: string, sha256: string): string {
+    return join(this.root, teamId, sha256);
+  }
+
+  private async writeAtomic(path: string, data: Buffer | string): Promise<void> {
+    const tmp = `${path}.tmp`;
+    await writeFile(tmp, data);
+    await rename(tmp, path); // atomic on POSIX
+  }
+
+  // A team's uploads run one at a time, so each quota check sees the ones before it
+  async putArtifact(teamId: string, record: ArtifactRecord, data: Buffer, quotaBytes = Infinity): Promise<ArtifactPutResult> {
+    const result = (this.puts.get(teamId) ?? Promise.resolve())
+      .catch(() => {})
+      .then(() => this.store(teamId, record, data, quotaBytes));
+    this.puts.set(teamId, result);
+    try {
+      return await result;
+    } finally {
+      if (this.puts.get(teamId) === result) this.puts.delete(teamId);
+    }
+  }
+
+  private async store(teamId: string, record: ArtifactRecord, data: Buffer, quotaBytes: number): Promise<ArtifactPutResult> {
+    const existing = await this.getArtifact(teamId, record.sha256);
+    if (existing) return { ok: true, created: false, record: existing };
+    const usedBytes = (await this.listArtifacts(teamId)).reduce((sum, r) => sum + r.size, 0);
+    if (usedBytes + record.size > quotaBytes) return { ok: false, usedBytes };
+    await mkdir(join(this.root, teamId), { recursive: true });
+    const path = this.blobPath(teamId, record.sha256);
+    await this.writeAtomic(path, data);
+    // Record last, so a listed artifact always has its bytes on disk
+    await this.writeAtomic(`${path}.json`, JSON.stringify(record));
+    return { ok: true, created: true, record };
+  }
+
+  async getArtifact(teamId: string, sha256: string): Promise<ArtifactRecord | null> {
+    try {
+      return JSON.parse(await readFile(`${this.blobPath(teamId, sha256)}.json`, 'utf-8')) as ArtifactRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  async readArtifact(teamId: string, sha256: string): Promise<Buffer | null> {
+    if (!(await this.getArtifact(teamId, sha256))) return null;
+    try {
+      return await readFile(this.blobPath(teamId, sha256));
+    } catch {
+      return null;
+    }
+  }
+
+  async listArtifacts(teamId: string): Promise<ArtifactRecord[]> {
+    let names: string[];
+    try {
+      names = await readdir(join(this.root, teamId));
+    } catch {
+      return [];
+    }
+    const records = await Promise.all(
+      names.filter((n) => n.endsWith('.json')).map((n) => this.getArtifact(teamId, n.slice(0, -'.json'.length)))
+    );
+    return records.filter((r): r is ArtifactRecord => r !== null);
+  }
+
+  async deleteArtifact(teamId: string, sha256: string): Promise<void> {
+    const path = this.blobPath(teamId, sha256);
+    await rm(`${path}.json`, { force: true });
+    await rm(path, { force: true });
+  }
+
+  async deleteTeamArtifacts(teamId: string): Promise<void> {
+    await rm(join(this.root, teamId), { recursive: true, force: true });
+  }
+}
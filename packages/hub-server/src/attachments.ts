@@ -0,0 +1,24 @@
+import { artifacts } from './artifacts/index.js';
+import type { Attachment } from './types.js';
+
+/**
+ * Turns the SHA-256s given on send into attachment references, taking size,
+ * type and name from the stored artifacts. Fails if any was never uploaded.
+ */
+export async function resolveAttachments(
+  teamId: string,
+  sha256s: string[],
+): Promise<{ attachments: Attachment[] } | { error: string }> {
+  const attachments: Attachment[] = [];
+  for (const sha256 of new Set(sha256s)) {
+    const record = await artifacts.getArtifact(teamId, sha256);
+    if (!record) return { error: `Unknown attachment ${sha256} — upload it with PUT /artifacts/${sha256} first` };
+    attachments.push({
+      sha256,
+      size: record.size,
+      contentType: record.contentType,
+      ...(record.filename ? { filename: record.filename } : {}),
+    });
+  }
+  return { attachments };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateApiKey, hashApiKey } from './auth.js';
+import { generateApiKey, generateAgentToken, hashApiKey } from './auth.js';
 
 describe('generateApiKey', () => {
   it('returns a 64-character hex string', () => {
@@ -33,3 +33,13 @@ describe('hashApiKey', () => {
     expect(hashApiKey(key)).toBe(stored);
   });
 });
+
+describe('generateAgentToken', () => {
+  it('returns an agt_-prefixed 64-character hex token', () => {
+    expect(generateAgentToken()).toMatch(/^agt_[0-9a-f]{64}$/);
+  });
+
+  it('never collides with the team API key format', () => {
+    expect(generateAgentToken()).not.toMatch(/^[0-9a-f]{64}$/);
+  });
+});
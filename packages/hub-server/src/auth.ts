@@ -7,3 +7,8 @@ export function generateApiKey(): string {
 export function hashApiKey(key: string): string {
   return createHash('sha256').update(key).digest('hex');
 }
+
+// Prefixed so agent tokens are distinguishable from team API keys at a glance
+export function generateAgentToken(): string {
+  return `agt_${randomBytes(32).toString('hex')}`;
+}
@@ -0,0 +1,23 @@
+import { MemoryBus } from './memory.js';
+import { RedisBus } from './redis.js';
+import { store } from '../store/index.js';
+import { RedisStore } from '../store/redis.js';
+import { logger } from '../logger.js';
+import type { IBus, BusEvent } from './types.js';
+
+export type { IBus, BusEvent } from './types.js';
+
+// Active fan-out bus — follows the store: instances sharing a RedisStore reach
+// each other over its pub/sub, anything else is a single instance
+export const bus: IBus = store instanceof RedisStore ? new RedisBus(store) : new MemoryBus();
+
+// Publishes on the active bus, reporting a failed publish as no live holder so
+// the caller falls back to queueing rather than failing work already done
+export async function tryPublish(key: string, event: BusEvent): Promise<boolean> {
+  try {
+    return await bus.publish(key, event);
+  } catch (err) {
+    logger.error('bus_publish_failed', { key, type: event.type, err });
+    return false;
+  }
+}
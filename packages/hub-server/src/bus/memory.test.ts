@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryBus } from './memory.js';
+import type { BusEvent } from './types.js';
+
+const event: BusEvent = { type: 'mcp_message', body: { jsonrpc: '2.0', method: 'ping', id: 1 } };
+
+describe('MemoryBus', () => {
+  it('hands events for claimed keys to its handlers', async () => {
+    const bus = new MemoryBus();
+    const received: [string, BusEvent][] = [];
+    bus.onEvent((key, e) => received.push([key, e]));
+
+    await bus.claim('mcp:s1');
+    expect(await bus.publish('mcp:s1', event)).toBe(true);
+    expect(received).toEqual([['mcp:s1', event]]);
+  });
+
+  it('reports keys nobody holds', async () => {
+    const bus = new MemoryBus();
+    await bus.claim('mcp:s1');
+    await bus.release('mcp:s1');
+    expect(await bus.publish('mcp:s1', event)).toBe(false);
+    expect(await bus.publish('mcp:s2', event)).toBe(false);
+  });
+
+  it('names itself as the holder of its claims', async () => {
+    const bus = new MemoryBus();
+    await bus.claim('mcp-http:s1');
+    expect(await bus.holder('mcp-http:s1')).toBe(bus.instanceId);
+    expect(await bus.holder('mcp-http:s2')).toBeNull();
+  });
+});
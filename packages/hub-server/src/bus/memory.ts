@@ -0,0 +1,35 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { BusEvent, IBus } from './types.js';
+
+// Single-node bus: every connection is local, so events loop straight back
+export class MemoryBus implements IBus {
+  readonly instanceId = uuidv4();
+  private claimed = new Set<string>();
+  private handlers: ((key: string, event: BusEvent) => void)[] = [];
+
+  async connect(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  async claim(key: string): Promise<void> {
+    this.claimed.add(key);
+  }
+
+  async release(key: string): Promise<void> {
+    this.claimed.delete(key);
+  }
+
+  async publish(key: string, event: BusEvent): Promise<boolean> {
+    if (!this.claimed.has(key)) return false;
+    for (const handler of this.handlers) handler(key, event);
+    return true;
+  }
+
+  async holder(key: string): Promise<string | null> {
+    return this.claimed.has(key) ? this.instanceId : null;
+  }
+
+  onEvent(handler: (key: string, event: BusEvent) => void): void {
+    this.handlers.push(handler);
+  }
+}
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import { RedisStore } from '../store/redis.js';
+import { RedisBus } from './redis.js';
+import type { BusEvent } from './types.js';
+
+// Same dedicated test database as the RedisStore contract tests
+const TEST_URL = 'redis://localhost:6379/15';
+
+const event: BusEvent = { type: 'mcp_message', body: { jsonrpc: '2.0', method: 'ping', id: 1 } };
+
+if (process.env['CI']) {
+  // Skip Redis tests in CI unless REDIS_URL is explicitly set
+  describe.skip('RedisBus', () => {});
+} else {
+  describe('RedisBus', () => {
+    let store: RedisStore;
+    let a: RedisBus;
+    let b: RedisBus;
+
+    beforeAll(async () => {
+      store = new RedisStore(TEST_URL);
+      await store.connect();
+      await store.client.flushdb();
+      a = new RedisBus(store);
+      b = new RedisBus(store);
+      await Promise.all([a.connect(), b.connect()]);
+    });
+
+    afterAll(async () => {
+      await Promise.all([a?.close(), b?.close()]);
+      await store?.close();
+    });
+
+    it('routes an event to the instance holding the key', async () => {
+      const received = new Promise<[string, BusEvent]>((resolve) => b.onEvent((key, e) => resolve([key, e])));
+      await b.claim('mcp:s1');
+      expect(await a.publish('mcp:s1', event)).toBe(true);
+      expect(await received).toEqual(['mcp:s1', event]);
+    });
+
+    it('keeps a newer claim when the previous holder releases', async () => {
+      await a.claim('team-1:alice');
+      await b.claim('team-1:alice');
+      await a.release('team-1:alice');
+      expect(await store.client.get('busowner:team-1:alice')).toBe(b.instanceId);
+      await b.release('team-1:alice');
+      expect(await a.publish('team-1:alice', event)).toBe(false);
+    });
+
+    it('tells another instance which one holds a key', async () => {
+      await b.claim('mcp-http:s1');
+      expect(await a.holder('mcp-http:s1')).toBe(b.instanceId);
+      await b.release('mcp-http:s1');
+      expect(await a.holder('mcp-http:s1')).toBeNull();
+    });
+  });
+}
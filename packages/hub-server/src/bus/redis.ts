@@ -0,0 +1,77 @@
+import type { Redis } from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import type { RedisStore } from '../store/redis.js';
+import type { BusEvent, IBus } from './types.js';
+
+// KEYS[1] = owner key; ARGV[1] = instance id. Deletes the key only while this instance owns it
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+return 0
+`;
+
+/**
+ * Bus over Redis pub/sub, sharing the RedisStore's connection for commands.
+ * Owners are plain keys (`busowner:<key>` → instance id) and each instance
+ * subscribes to its own channel, so an event reaches only the holder. A
+ * crashed instance leaves stale owners behind; publishing to one reaches no
+ * subscriber and returns false.
+ */
+export class RedisBus implements IBus {
+  readonly instanceId = uuidv4();
+  private readonly client: Redis;
+  private readonly sub: Redis;
+  private handlers: ((key: string, event: BusEvent) => void)[] = [];
+
+  constructor(store: RedisStore) {
+    this.client = store.client;
+    // A subscribed connection cannot issue other commands
+    this.sub = store.client.duplicate();
+    this.sub.on('message', (_channel: string, raw: string) => {
+      try {
+        const { key, event } = JSON.parse(raw) as { key: string; event: BusEvent };
+        for (const handler of this.handlers) handler(key, event);
+      } catch {
+        // ignore malformed events
+      }
+    });
+  }
+
+  async connect(): Promise<void> {
+    await this.sub.subscribe(this.channel(this.instanceId));
+  }
+
+  async close(): Promise<void> {
+    await this.sub.quit();
+  }
+
+  private channel(instanceId: string): string {
+    return `bus:${instanceId}`;
+  }
+
+  private owner(key: string): string {
+    return `busowner:${key}`;
+  }
+
+  async claim(key: string): Promise<void> {
+    await this.client.set(this.owner(key), this.instanceId);
+  }
+
+  async release(key: string): Promise<void> {
+    await this.client.eval(RELEASE_SCRIPT, 1, this.owner(key), this.instanceId);
+  }
+
+  async publish(key: string, event: BusEvent): Promise<boolean> {
+    const instanceId = await this.holder(key);
+    if (!instanceId) return false;
+    const receivers = await this.client.publish(this.channel(instanceId), JSON.stringify({ key, event }));
+    return receivers > 0;
+  }
+
+  async holder(key: string): Promise<string | null> {
+    return this.client.get(this.owner(key));
+  }
+
+  onEvent(handler: (key: string, event: BusEvent) => void): void {
+    this.handlers.push(handler);
+  }
+}
@@ -0,0 +1,20 @@
+import type { AgentMessage } from '../types.js';
+
+// What one hub instance asks another to do with a connection it holds
+export type BusEvent =
+  | { type: 'push'; message: AgentMessage; notice?: boolean }  // key: `${teamId}:${agentName}`, an /agent/stream or /agent/ws
+  | { type: 'mcp_message'; body: unknown };                   // key: `mcp:${sessionId}`, an /sse session
+
+// Routes events between hub instances sharing one store. Each live connection
+// is claimed under a key by the instance holding it, and events published for
+// that key are handed to that instance's handler.
+export interface IBus {
+  readonly instanceId: string;
+  connect(): Promise<void>;  // before the hub accepts connections
+  close(): Promise<void>;
+  claim(key: string): Promise<void>;    // later claims, from any instance, take over
+  release(key: string): Promise<void>;  // no-op once another instance has claimed the key
+  publish(key: string, event: BusEvent): Promise<boolean>;  // false when no live instance holds the key
+  holder(key: string): Promise<string | null>;  // id of the instance that last claimed the key
+  onEvent(handler: (key: string, event: BusEvent) => void): void;
+}
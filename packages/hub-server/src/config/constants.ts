@@ -5,6 +5,14 @@ export class Sections {
   static readonly RATE_LIMIT = 'rate_limit';
   static readonly SSE = 'sse';
   static readonly TEAM = 'team';
+  static readonly HISTORY = 'history';
+  static readonly MAILBOX = 'mailbox';
+  static readonly ARTIFACTS = 'artifacts';
+  static readonly CONTEXT = 'context';
+  static readonly MCP = 'mcp';
+  static readonly STORE = 'store';
+  static readonly METRICS = 'metrics';
+  static readonly LOG = 'log';
 }
 
 export class Keys {
@@ -18,6 +26,34 @@ export class Keys {
   // sse
   static readonly KEEP_ALIVE_INTERVAL_MS = 'keep_alive_interval_ms';
   static readonly MAX_MESSAGE_BUFFER_SIZE = 'max_message_buffer_size';
+  static readonly MAX_REPLAY_MESSAGES = 'max_replay_messages';
   // team
   static readonly MAX_AGENTS_PER_TEAM = 'max_agents_per_team';
+  static readonly KEY_ROTATION_GRACE_MS = 'key_rotation_grace_ms';
+  static readonly MAX_MESSAGE_TYPES = 'max_message_types';
+  // history
+  static readonly MAX_HISTORY_SIZE = 'max_history_size';
+  // mailbox
+  static readonly MAX_OFFLINE_MESSAGES = 'max_offline_messages';
+  static readonly OFFLINE_TTL_MS = 'offline_ttl_ms';
+  static readonly RETENTION_INTERVAL_MS = 'retention_interval_ms';
+  // artifacts
+  static readonly MAX_ARTIFACT_BYTES = 'max_artifact_bytes';
+  static readonly TEAM_QUOTA_BYTES = 'team_quota_bytes';
+  // context
+  static readonly MAX_CONTEXT_KEYS = 'max_context_keys';
+  // mcp
+  static readonly SESSION_IDLE_TIMEOUT_MS = 'session_idle_timeout_ms';
+  static readonly MAX_REPLAY_EVENTS = 'max_replay_events';
+  // store
+  static readonly BACKEND = 'backend';
+  static readonly VOLUME_PATH = 'volume_path';
+  static readonly VOLUME_COMPACT_OPS = 'volume_compact_ops';
+  static readonly REDIS_URL = 'redis_url';
+  static readonly SQLITE_PATH = 'sqlite_path';
+  // metrics
+  static readonly BEARER_TOKEN = 'bearer_token';
+  // log
+  static readonly LEVEL = 'level';
+  static readonly FORMAT = 'format';
 }
@@ -0,0 +1,42 @@
+import { v4 as uuidv4 } from 'uuid';
+import { store } from './store/index.js';
+import { notifyTeam } from './notices.js';
+import type { ContextEntry, ContextWriteResult } from './store/index.js';
+import type { AgentMessage } from './types.js';
+import { ConfigLoader, Sections, Keys } from './config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const MAX_CONTEXT_KEYS = config.get<number>(Sections.CONTEXT, Keys.MAX_CONTEXT_KEYS, 500);
+
+/**
+ * Writes a key on the team blackboard and tells teammates with a live
+ * /agent/stream about it with a `context_update` message.
+ */
+export async function writeContext(
+  teamId: string,
+  agentName: string,
+  key: string,
+  value: string,
+  expectedVersion?: number,
+): Promise<ContextWriteResult | { ok: false; error: string }> {
+  if (!(await store.getContext(teamId, key)) && (await store.listContext(teamId)).length >= MAX_CONTEXT_KEYS) {
+    return { ok: false, error: `Teams are limited to ${MAX_CONTEXT_KEYS} context keys` };
+  }
+
+  const result = await store.setContext(teamId, key, value, agentName, Date.now(), expectedVersion);
+  if (result.ok) await notify(teamId, result.entry);
+  return result;
+}
+
+async function notify(teamId: string, entry: ContextEntry): Promise<void> {
+  const message: AgentMessage = {
+    id: uuidv4(),
+    from: entry.updatedBy,
+    to: 'broadcast',
+    type: 'context_update',
+    content: `Context "${entry.key}" is now at version ${entry.version}`,
+    payload: { key: entry.key, version: entry.version, value: entry.value },
+    timestamp: entry.updatedAt,
+  };
+  await notifyTeam(teamId, message, entry.updatedBy);
+}
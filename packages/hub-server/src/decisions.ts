@@ -0,0 +1,14 @@
+import { decisionFromMessage, numberDecisions } from '@agent-share/shared';
+import type { AgentMessage, Decision } from '@agent-share/shared';
+import { store } from './store/index.js';
+
+// The team's decision log. ADR numbering, search and export are shared with
+// the Nostr transport, which rebuilds the log from relay messages.
+
+export async function recordDecision(teamId: string, message: AgentMessage): Promise<void> {
+  await store.appendDecision(teamId, decisionFromMessage(message, await store.listDecisions(teamId)));
+}
+
+export async function listDecisions(teamId: string): Promise<Decision[]> {
+  return numberDecisions(await store.listDecisions(teamId));
+}
@@ -0,0 +1,219 @@
+import { v4 as uuidv4 } from 'uuid';
+import { addressList, isChannel, isPattern, matchesPattern } from '@agent-share/shared';
+import type { RecipientResult } from '@agent-share/shared';
+import { store, connections } from './store/index.js';
+import { bus, tryPublish } from './bus/index.js';
+import type { AgentMessage, AuthToken, MessageType } from './types.js';
+import { openTask } from './tasks.js';
+import { recordDecision } from './decisions.js';
+import { recordSpec } from './specs.js';
+import { messageTypeErrors } from './messageTypes.js';
+import { resolveAttachments } from './attachments.js';
+import { droppedNotice, reportDrops } from './notices.js';
+import { isExpired } from './retention.js';
+import { countDropped, messagesDelivered } from './metrics.js';
+import { logger } from './logger.js';
+import { ConfigLoader, Sections, Keys } from './config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const MAX_BUFFER = config.get<number>(Sections.SSE, Keys.MAX_MESSAGE_BUFFER_SIZE, 100);
+const MAX_HISTORY = config.get<number>(Sections.HISTORY, Keys.MAX_HISTORY_SIZE, 1000);
+const MAX_OFFLINE = config.get<number>(Sections.MAILBOX, Keys.MAX_OFFLINE_MESSAGES, 500);
+const OFFLINE_TTL_MS = config.get<number>(Sections.MAILBOX, Keys.OFFLINE_TTL_MS, 7 * 24 * 60 * 60 * 1000);
+
+export interface DeliveryResult {
+  recipients: RecipientResult[];
+}
+
+/** Expands `to` into distinct agent names; explicitly named agents are kept even if unknown. */
+async function resolveRecipients(teamId: string, message: AgentMessage): Promise<string[]> {
+  const names = new Set<string>();
+  let members: string[] | undefined;
+  const listMembers = async () => (members ??= (await store.listAgents(teamId)).map((a) => a.name));
+
+  for (const address of addressList(message.to)) {
+    if (address === 'broadcast') {
+      for (const name of await listMembers()) if (name !== message.from) names.add(name);
+    } else if (isChannel(address)) {
+      for (const name of await store.listSubscribers(teamId, address)) if (name !== message.from) names.add(name);
+    } else if (isPattern(address)) {
+      for (const name of await listMembers()) {
+        if (name !== message.from && matchesPattern(address, name)) names.add(name);
+      }
+    } else {
+      names.add(address);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Routes a message to its recipients and records it in the team history.
+ * `to` may hold agent names, `broadcast`, `#channel`s (their subscribers) and
+ * globs such as `frontend-*`. Agents with a live /agent/stream or /agent/ws
+ * get it pushed immediately, through the bus when another hub instance holds
+ * the connection; everyone else (MCP-over-SSE agents and offline members) has
+ * it queued in their mailbox, where a full mailbox pushes out its oldest
+ * message and tells the agent so. A `todo` also opens a task on the team board, a
+ * `decision` is appended to the decision log and an `api_spec` with a payload
+ * is published to the spec registry.
+ */
+export async function deliverMessage(teamId: string, message: AgentMessage): Promise<DeliveryResult> {
+  const names = await resolveRecipients(teamId, message);
+
+  await store.appendHistory(teamId, message, MAX_HISTORY);
+  if (message.type === 'todo') await openTask(teamId, message);
+  if (message.type === 'decision') await recordDecision(teamId, message);
+  if (message.type === 'api_spec') await recordSpec(teamId, message);
+
+  const recipients: RecipientResult[] = [];
+  for (const name of names) {
+    const push = connections.get(`${teamId}:${name}`);
+    if (push) {
+      push(message);
+      recipients.push({ agent: name, status: 'delivered' });
+      continue;
+    }
+    if (await tryPublish(`${teamId}:${name}`, { type: 'push', message })) {
+      recipients.push({ agent: name, status: 'delivered' });
+      continue;
+    }
+    const target = await store.getAgent(teamId, name);
+    if (!target) {
+      recipients.push({ agent: name, status: 'unknown' });
+      continue;
+    }
+    await queueMessage(teamId, name, message, target.connected ? MAX_BUFFER : MAX_OFFLINE);
+    recipients.push({ agent: name, status: target.connected ? 'delivered' : 'queued' });
+  }
+
+  for (const { status } of recipients) {
+    if (status !== 'unknown') messagesDelivered.inc({ type: message.type, status });
+  }
+  const count = (status: RecipientResult['status']) => recipients.filter((r) => r.status === status).length;
+  logger.info('message_routed', {
+    messageId: message.id,
+    teamId,
+    from: message.from,
+    type: message.type,
+    recipients: recipients.length,
+    delivered: count('delivered'),
+    queued: count('queued'),
+    unknown: recipients.filter((r) => r.status === 'unknown').map((r) => r.agent),
+  });
+  return { recipients };
+}
+
+// Queues a message in an agent's mailbox; any it pushes out are reported to the agent
+async function queueMessage(teamId: string, agentName: string, message: AgentMessage, maxBuffer: number): Promise<void> {
+  const evicted = await store.pushMessage(teamId, agentName, message, maxBuffer);
+  countDropped('overflow', evicted);
+  await reportDrops(teamId, agentName, 'overflow', evicted.length);
+}
+
+// Pushes published by other instances for connections held here. If the
+// connection closed in the meantime the message goes to the mailbox instead
+bus.onEvent((key, event) => {
+  if (event.type !== 'push') return;
+  const push = connections.get(key);
+  if (push) {
+    push(event.message, event.notice);
+    return;
+  }
+  if (event.notice) return;
+  const sep = key.indexOf(':');
+  queueMessage(key.slice(0, sep), key.slice(sep + 1), event.message, MAX_OFFLINE)
+    .catch((err) => logger.error('queue_failed', { key, messageId: event.message.id, err }));
+});
+
+// What an agent asks to send; the hub fills in id, sender and timestamp
+export interface OutgoingMessage {
+  to: string | string[];
+  type: MessageType;
+  content: string;
+  payload?: Record<string, unknown>;
+  attachments?: string[];  // SHA-256s of artifacts uploaded beforehand
+  expiresAt?: number;
+}
+
+export type SendOutcome =
+  | { ok: true; messageId: string; recipients: RecipientResult[] }
+  | { ok: false; status: 400 | 404; error: string };
+
+/**
+ * Checks a message against the team's types and artifacts, then delivers it
+ * from the authenticated agent. Shared by POST /agent/send, /agent/ws and the
+ * agent_hub_send tool; callers check the `send` permission first.
+ */
+export async function sendFromAgent(auth: AuthToken, outgoing: OutgoingMessage): Promise<SendOutcome> {
+  const team = await store.getTeam(auth.teamId);
+  if (!team) return { ok: false, status: 404, error: 'Team not found' };
+
+  const errors = messageTypeErrors(team, outgoing.type, outgoing.payload);
+  if (errors) return { ok: false, status: 400, error: errors.join('; ') };
+
+  if (outgoing.expiresAt !== undefined && outgoing.expiresAt <= Date.now()) {
+    return { ok: false, status: 400, error: 'expiresAt must be in the future' };
+  }
+
+  const resolved = await resolveAttachments(auth.teamId, outgoing.attachments ?? []);
+  if ('error' in resolved) return { ok: false, status: 400, error: resolved.error };
+
+  const message: AgentMessage = {
+    id: uuidv4(),
+    from: auth.agentName,
+    to: outgoing.to,
+    type: outgoing.type,
+    content: outgoing.content,
+    ...(outgoing.payload ? { payload: outgoing.payload } : {}),
+    ...(resolved.attachments.length ? { attachments: resolved.attachments } : {}),
+    timestamp: Date.now(),
+    ...(outgoing.expiresAt !== undefined ? { expiresAt: outgoing.expiresAt } : {}),
+  };
+
+  const { recipients } = await deliverMessage(auth.teamId, message);
+  return { ok: true, messageId: message.id, recipients };
+}
+
+/**
+ * Gives a registered agent that has never connected an empty, offline mailbox,
+ * so messages sent to it are queued rather than reported unknown.
+ */
+export async function openMailbox(teamId: string, agentName: string): Promise<void> {
+  if (await store.getAgent(teamId, agentName)) return;
+  await store.saveAgent({ name: agentName, teamId, sessionId: '', connectedAt: 0, connected: false, messageBuffer: [] });
+}
+
+/** Opens a mailbox for every registered agent that lacks one, e.g. those registered before mailboxes were opened at registration. */
+export async function openMissingMailboxes(): Promise<void> {
+  for (const team of await store.listTeams()) {
+    for (const cred of await store.listAgentCredentials(team.id)) await openMailbox(team.id, cred.agentName);
+  }
+}
+
+/** Puts messages a connection received but never acknowledged back at the front of the agent's mailbox order. */
+export async function requeueMessages(teamId: string, agentName: string, messages: AgentMessage[]): Promise<void> {
+  const queued = await store.flushMessages(teamId, agentName);
+  const ids = new Set(messages.map((m) => m.id));
+  for (const m of [...messages, ...queued.filter((q) => !ids.has(q.id))]) {
+    await queueMessage(teamId, agentName, m, MAX_OFFLINE);
+  }
+}
+
+/**
+ * Returns and clears an agent's mailbox, dropping messages past their
+ * expiresAt or older than the offline TTL. When queued messages were dropped
+ * since the agent last read, `notice` is the `messages_dropped` notice to show
+ * first; it is pushed as a notice, so it is never logged or requeued.
+ */
+export async function drainMailbox(teamId: string, agentName: string): Promise<{ notice: AgentMessage | null; messages: AgentMessage[] }> {
+  const now = Date.now();
+  const cutoff = now - OFFLINE_TTL_MS;
+  const queued = await store.flushMessages(teamId, agentName);
+  const fresh = queued.filter((m) => m.timestamp >= cutoff && !isExpired(m, now));
+  countDropped('expired', queued.filter((m) => !fresh.includes(m)));
+
+  const drops = await store.takeDrops(teamId, agentName) ?? {};
+  if (fresh.length < queued.length) drops.expired = (drops.expired ?? 0) + queued.length - fresh.length;
+  return { notice: Object.keys(drops).length > 0 ? droppedNotice(agentName, drops, now) : null, messages: fresh };
+}
@@ -2,11 +2,26 @@ import express from 'express';
 import cors from 'cors';
 import { ConfigLoader, Sections, Keys } from './config/index.js';
 import { apiLimiter } from './middleware/rateLimiter.js';
+import { requestId } from './middleware/requestId.js';
+import { logger } from './logger.js';
 import { teamsRouter } from './routes/teams.js';
 import { sseRouter } from './routes/sse.js';
 import { messagesRouter } from './routes/messages.js';
+import { mcpRouter } from './routes/mcp.js';
 import { agentRouter } from './routes/agent.js';
 import { healthRouter } from './routes/health.js';
+import { metricsRouter } from './routes/metrics.js';
+import { attachAgentWebSocket } from './routes/agentWs.js';
+import { artifactsRouter } from './routes/artifacts.js';
+import { contextRouter } from './routes/context.js';
+import { tasksRouter } from './routes/tasks.js';
+import { decisionsRouter } from './routes/decisions.js';
+import { specsRouter } from './routes/specs.js';
+import { store, storeBackend } from './store/index.js';
+import { bus } from './bus/index.js';
+import { startRetentionJanitor } from './retention.js';
+import { assignMissingOwners } from './roles.js';
+import { openMissingMailboxes } from './delivery.js';
 
 const nodeEnv = process.env.NODE_ENV ?? 'development';
 const configEnv = nodeEnv === 'production' ? 'prod' : nodeEnv === 'development' ? 'dev' : undefined;
@@ -18,25 +33,67 @@ const corsOrigins: string = config.get(Sections.SERVER, Keys.CORS_ORIGINS, '*');
 
 const app = express();
 
+app.use(requestId);
 app.use(cors({ origin: corsOrigins === '*' ? '*' : corsOrigins.split(',').map((o) => o.trim()) }));
-app.use(express.json({ limit: '1mb' }));
 app.use(apiLimiter);
+// Uploads are raw bytes of any content type, so mount before the JSON parser
+app.use('/artifacts', artifactsRouter);
+app.use(express.json({ limit: '1mb' }));
 
 app.use('/teams', teamsRouter);
 app.use('/sse', sseRouter);
 app.use('/messages', messagesRouter);
+app.use('/mcp', mcpRouter);
 app.use('/agent', agentRouter);
+app.use('/context', contextRouter);
+app.use('/tasks', tasksRouter);
+app.use('/decisions', decisionsRouter);
+app.use('/specs', specsRouter);
 app.use('/health', healthRouter);
+app.use('/metrics', metricsRouter);
 
 app.use((_req, res) => {
   res.status(404).json({ error: 'Not found' });
 });
 
-app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  console.error(err.stack);
+app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  logger.error('request_failed', { method: req.method, path: req.originalUrl.split('?')[0], err });
   res.status(500).json({ error: 'Internal server error' });
 });
 
-app.listen(port, host, () => {
-  console.log(`Agent Hub running on ${host}:${port} [${nodeEnv}]`);
+// Refuse to start on a store that cannot serve requests
+try {
+  await store.connect();
+  await bus.connect();
+} catch (err) {
+  logger.error('store_startup_failed', { backend: storeBackend, err });
+  process.exit(1);
+}
+
+for (const { teamId, agentName } of await assignMissingOwners(store)) {
+  logger.info('owner_assigned', { teamId, agentName, reason: 'team had no owner' });
+}
+await openMissingMailboxes();
+
+const server = app.listen(port, host, () => {
+  logger.info('hub_started', { host, port, env: nodeEnv, store: storeBackend });
 });
+
+attachAgentWebSocket(server);
+const stopRetentionJanitor = startRetentionJanitor();
+
+async function shutdown(signal: string): Promise<void> {
+  logger.info('shutting_down', { signal });
+  stopRetentionJanitor();
+  // Streams never end on their own, so drop them to let close() finish
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    server.closeAllConnections();
+  });
+  await bus.close();
+  await store.close();
+  process.exit(0);
+}
+
+process.once('SIGINT', () => void shutdown('SIGINT'));
+process.once('SIGTERM', () => void shutdown('SIGTERM'));
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from 'vitest';
+import { moveKeyCredentials, revokeKeyCredentials } from './keys.js';
+import { trackSession } from './sessions.js';
+import { MemoryStore } from './store/memory.js';
+
+async function teamWithAgents(): Promise<MemoryStore> {
+  const store = new MemoryStore();
+  await store.createTeam({ id: 't1', apiKeyHash: 'primary', createdAt: 1 });
+  await store.saveAgentCredential({ teamId: 't1', agentName: 'alice', tokenHash: 'a', createdAt: 1, keyHash: 'primary', role: 'owner' });
+  await store.saveAgentCredential({ teamId: 't1', agentName: 'bot', tokenHash: 'b', createdAt: 2, keyHash: 'ci' });
+  return store;
+}
+
+describe('revokeKeyCredentials', () => {
+  it('revokes the tokens registered with the key and closes their sessions', async () => {
+    const store = await teamWithAgents();
+    const close = vi.fn();
+    trackSession('t1', 'bot', close);
+
+    expect(await revokeKeyCredentials(store, 't1', 'ci')).toEqual(['bot']);
+    expect(await store.findAgentCredentialByTokenHash('b')).toBeNull();
+    expect(await store.findAgentCredentialByTokenHash('a')).not.toBeNull();
+    expect(close).toHaveBeenCalledOnce();
+  });
+});
+
+describe('moveKeyCredentials', () => {
+  it('keeps rotated-out primary key tokens valid but out of reach of revoking the old key', async () => {
+    const store = await teamWithAgents();
+
+    expect(await moveKeyCredentials(store, 't1', 'primary', 'primary-2')).toEqual(['alice']);
+    expect(await revokeKeyCredentials(store, 't1', 'primary')).toEqual([]);
+    expect((await store.findAgentCredentialByTokenHash('a'))?.keyHash).toBe('primary-2');
+  });
+});
@@ -0,0 +1,29 @@
+import type { IStore } from './store/types.js';
+import { closeAgentSessions } from './sessions.js';
+
+// An agent credential remembers the hash of the team key it was registered
+// with. These keep that link meaningful when keys are rotated or revoked.
+
+/**
+ * Revokes every credential registered with the key and closes those agents'
+ * live sessions. Returns the names of the agents revoked.
+ */
+export async function revokeKeyCredentials(store: IStore, teamId: string, keyHash: string): Promise<string[]> {
+  const revoked = (await store.listAgentCredentials(teamId)).filter((c) => c.keyHash === keyHash);
+  for (const cred of revoked) {
+    await store.removeAgentCredential(teamId, cred.agentName);
+    closeAgentSessions(teamId, cred.agentName);
+  }
+  return revoked.map((c) => c.agentName);
+}
+
+/**
+ * Re-links credentials registered with one key to another, so that revoking
+ * the old key later only reaches agents that registered with it since. Returns
+ * the names of the agents moved.
+ */
+export async function moveKeyCredentials(store: IStore, teamId: string, fromHash: string, toHash: string): Promise<string[]> {
+  const moved = (await store.listAgentCredentials(teamId)).filter((c) => c.keyHash === fromHash);
+  for (const cred of moved) await store.saveAgentCredential({ ...cred, keyHash: toHash });
+  return moved.map((c) => c.agentName);
+}
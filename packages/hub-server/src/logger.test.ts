@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { Logger, requestContext } from './logger.js';
+import type { LogFormat, LogLevel } from './logger.js';
+
+function capture(level: LogLevel = 'info', format: LogFormat = 'json') {
+  const lines: string[] = [];
+  return { lines, log: new Logger(level, format, (line) => lines.push(line)) };
+}
+
+describe('Logger', () => {
+  it('writes one JSON line with time, level, event and fields', () => {
+    const { lines, log } = capture();
+    log.info('message_routed', { messageId: 'm1', recipients: 2 });
+
+    expect(JSON.parse(lines[0])).toEqual({
+      time: expect.any(String),
+      level: 'info',
+      event: 'message_routed',
+      messageId: 'm1',
+      recipients: 2,
+    });
+  });
+
+  it('skips events below the configured level', () => {
+    const { lines, log } = capture('warn');
+    log.debug('auth_ok');
+    log.info('request');
+    log.warn('auth_failed');
+
+    expect(lines.map((l) => JSON.parse(l).event)).toEqual(['auth_failed']);
+  });
+
+  it('adds the request id of the request being served', () => {
+    const { lines, log } = capture();
+    requestContext.run({ requestId: 'req-1' }, () => log.info('message_routed'));
+    log.info('hub_started');
+
+    expect(JSON.parse(lines[0]).requestId).toBe('req-1');
+    expect(JSON.parse(lines[1])).not.toHaveProperty('requestId');
+  });
+
+  it('redacts credential fields and tokens inside strings', () => {
+    const { lines, log } = capture();
+    log.warn('auth_failed', {
+      authorization: 'Bearer abc',
+      headers: { 'x-api-key': 'abc' },
+      path: '/sse?api_key=agt_secret&x=1',
+      note: 'token agt_Zm9v-bar was rejected',
+    });
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry.authorization).toBe('[redacted]');
+    expect(entry.headers).toEqual({ 'x-api-key': '[redacted]' });
+    expect(entry.path).toBe('/sse?api_key=[redacted]&x=1');
+    expect(entry.note).toBe('token [redacted] was rejected');
+  });
+
+  it('serializes errors with their message and stack', () => {
+    const { lines, log } = capture();
+    log.error('request_failed', { err: new Error('disk full') });
+
+    const { err } = JSON.parse(lines[0]);
+    expect(err.message).toBe('disk full');
+    expect(err.stack).toContain('Error: disk full');
+  });
+
+  it('binds child fields to every line', () => {
+    const { lines, log } = capture();
+    log.child({ teamId: 't1' }).info('session_opened', { agentName: 'alice' });
+
+    expect(JSON.parse(lines[0])).toMatchObject({ teamId: 't1', agentName: 'alice' });
+  });
+
+  it('writes text lines when configured to', () => {
+    const { lines, log } = capture('info', 'text');
+    log.info('session_closed', { agentName: 'alice', reason: 'two words', durationMs: 5 });
+
+    expect(lines[0]).toMatch(/^\S+ INFO session_closed agentName=alice reason="two words" durationMs=5$/);
+  });
+});
@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ConfigLoader, Sections, Keys } from './config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'text';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Field names whose values are never written, and credentials that can turn up inside strings
+const SECRET_FIELD = /authorization|api[_-]?key|token|secret|password/i;
+const SECRET_TEXT = /agt_[A-Za-z0-9_-]+|(api_key=)[^&\s"]+/g;
+const REDACTED = '[redacted]';
+
+// The request id of whatever HTTP request the current code is running for (see middleware/requestId.ts)
+export const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return value.replace(SECRET_TEXT, (_m, param?: string) => `${param ?? ''}${REDACTED}`);
+  if (value instanceof Error) return { message: redact(value.message), ...(value.stack ? { stack: redact(value.stack) } : {}) };
+  if (value === null || typeof value !== 'object' || depth > 4) return value;
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, SECRET_FIELD.test(k) ? REDACTED : redact(v, depth + 1)]));
+}
+
+function formatText(entry: LogFields): string {
+  const { time, level, event, ...fields } = entry;
+  const pairs = Object.entries(fields).map(([k, v]) => `${k}=${typeof v === 'string' && !/\s/.test(v) ? v : JSON.stringify(v)}`);
+  return [time, String(level).toUpperCase(), event, ...pairs].join(' ');
+}
+
+/**
+ * Writes one line per event: `time`, `level`, `event`, the request id when
+ * logged while serving a request, then the given fields with credentials
+ * redacted. Child loggers add their bound fields to every line.
+ */
+export class Logger {
+  constructor(
+    private readonly level: LogLevel = 'info',
+    private readonly format: LogFormat = 'json',
+    private readonly write: (line: string, level: LogLevel) => void = (line, level) => {
+      (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+    },
+    private readonly bound: LogFields = {},
+  ) {}
+
+  child(fields: LogFields): Logger {
+    return new Logger(this.level, this.format, this.write, { ...this.bound, ...fields });
+  }
+
+  debug(event: string, fields?: LogFields): void { this.log('debug', event, fields); }
+  info(event: string, fields?: LogFields): void { this.log('info', event, fields); }
+  warn(event: string, fields?: LogFields): void { this.log('warn', event, fields); }
+  error(event: string, fields?: LogFields): void { this.log('error', event, fields); }
+
+  private log(level: LogLevel, event: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < LEVELS[this.level]) return;
+    const requestId = requestContext.getStore()?.requestId;
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      event,
+      ...(requestId ? { requestId } : {}),
+      ...(redact({ ...this.bound, ...fields }) as LogFields),
+    };
+    this.write(this.format === 'text' ? formatText(entry) : JSON.stringify(entry), level);
+  }
+}
+
+const level = config.get(Sections.LOG, Keys.LEVEL, 'info');
+const format = config.get(Sections.LOG, Keys.FORMAT, 'json');
+
+if (!(level in LEVELS)) throw new Error(`Unknown [log] level "${level}" — expected one of: ${Object.keys(LEVELS).join(', ')}`);
+if (format !== 'json' && format !== 'text') throw new Error(`Unknown [log] format "${format}" — expected json or text`);
+
+export const logger = new Logger(level as LogLevel, format);
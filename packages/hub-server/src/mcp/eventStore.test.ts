@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryEventStore } from './eventStore.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+const note = (n: number): JSONRPCMessage => ({ jsonrpc: '2.0', method: 'notifications/message', params: { n } });
+
+async function replay(store: MemoryEventStore, lastEventId: string) {
+  const sent: JSONRPCMessage[] = [];
+  const streamId = await store.replayEventsAfter(lastEventId, { send: async (_id, m) => { sent.push(m); } });
+  return { streamId, sent };
+}
+
+describe('MemoryEventStore', () => {
+  it('replays a stream\'s events after the last one seen', async () => {
+    const store = new MemoryEventStore(10);
+    const first = await store.storeEvent('s1', note(1));
+    await store.storeEvent('s2', note(99));
+    await store.storeEvent('s1', note(2));
+    await store.storeEvent('s1', note(3));
+    expect(await replay(store, first)).toEqual({ streamId: 's1', sent: [note(2), note(3)] });
+  });
+
+  it('keeps only the most recent events per stream', async () => {
+    const store = new MemoryEventStore(2);
+    const first = await store.storeEvent('s1', note(1));
+    const second = await store.storeEvent('s1', note(2));
+    await store.storeEvent('s1', note(3));
+    expect((await replay(store, first)).sent).toEqual([]);
+    expect((await replay(store, second)).sent).toEqual([note(3)]);
+  });
+
+  it('does not know event ids from other stores', async () => {
+    const store = new MemoryEventStore(10);
+    expect(await store.getStreamIdForEventId('s1:1')).toBeUndefined();
+  });
+});
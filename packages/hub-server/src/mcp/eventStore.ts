@@ -0,0 +1,40 @@
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+// Events sent on one /mcp session's streams, so a client that reconnects with
+// Last-Event-ID gets what it missed. One store per session, dropped with it;
+// each stream keeps only its most recent `maxEvents`. In-memory only.
+export class MemoryEventStore implements EventStore {
+  private streams = new Map<string, { id: string; message: JSONRPCMessage }[]>();
+  private seq = 0;
+
+  constructor(private readonly maxEvents: number) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const id = `${streamId}:${++this.seq}`;
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ id, message });
+    if (events.length > this.maxEvents) events.splice(0, events.length - this.maxEvents);
+    this.streams.set(streamId, events);
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+    const streamId = eventId.slice(0, eventId.lastIndexOf(':'));
+    return this.streams.has(streamId) ? streamId : undefined;
+  }
+
+  /** Sends the stream's events after `lastEventId`; nothing if it has aged out or is unknown. */
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<string> {
+    const streamId = await this.getStreamIdForEventId(lastEventId);
+    if (!streamId) return '';
+    const events = this.streams.get(streamId)!;
+    const from = events.findIndex((e) => e.id === lastEventId);
+    if (from === -1) return streamId;
+    for (const e of events.slice(from + 1)) await send(e.id, e.message);
+    return streamId;
+  }
+}
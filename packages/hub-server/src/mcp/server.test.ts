@@ -0,0 +1,35 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { findStreamableSession, streamableSessions } from './server.js';
+import { bus } from '../bus/index.js';
+import type { AuthToken } from '../types.js';
+
+const alice: AuthToken = { teamId: 't1', agentName: 'alice', role: 'member' };
+
+describe('findStreamableSession', () => {
+  afterEach(() => {
+    streamableSessions.clear();
+    vi.restoreAllMocks();
+  });
+
+  it('finds the agent\'s session on this instance', async () => {
+    const session = { transport: {} as StreamableHTTPServerTransport, auth: alice, lastSeen: 0, openRequests: 0 };
+    streamableSessions.set('s1', session);
+    expect(await findStreamableSession('s1', alice)).toBe(session);
+    expect(await findStreamableSession('s1', { ...alice, agentName: 'bob' })).toBeNull();
+  });
+
+  it('reports a session opened on another instance', async () => {
+    // Instance A opened the session; this instance is B, behind the same load balancer
+    const holder = vi.spyOn(bus, 'holder').mockResolvedValue('instance-a');
+    expect(await findStreamableSession('s1', alice)).toBe('elsewhere');
+    expect(holder).toHaveBeenCalledWith('mcp-http:s1');
+  });
+
+  it('treats a session nobody holds as unknown', async () => {
+    expect(await findStreamableSession('s1', alice)).toBeNull();
+    await bus.claim('mcp-http:s2'); // a stale claim of this instance's own
+    expect(await findStreamableSession('s2', alice)).toBeNull();
+    await bus.release('mcp-http:s2');
+  });
+});
@@ -1,30 +1,114 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { v4 as uuidv4 } from 'uuid';
 import type { Response } from 'express';
 import type { AuthToken } from '../types.js';
 import { registerTools } from './tools.js';
+import { MemoryEventStore } from './eventStore.js';
+import { store } from '../store/index.js';
+import { bus } from '../bus/index.js';
+import { listMessageTypes } from '../messageTypes.js';
+import { logger } from '../logger.js';
+import { ConfigLoader, Sections, Keys } from '../config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const maxReplayEvents = config.get<number>(Sections.MCP, Keys.MAX_REPLAY_EVENTS, 100);
 
 // Maps sessionId → transport so POST /messages/:sessionId can relay to the right connection.
+// Each session is also claimed on the bus as `mcp:${sessionId}`, so a POST that
+// lands on another hub instance is forwarded here.
 export const sseTransports = new Map<string, SSEServerTransport>();
 
-export async function createAgentMcpServer(
-  auth: AuthToken,
-  res: Response
-): Promise<SSEServerTransport> {
+bus.onEvent((key, event) => {
+  if (event.type !== 'mcp_message') return;
+  const sessionId = key.slice('mcp:'.length);
+  sseTransports.get(sessionId)?.handleMessage(event.body).catch((err) => logger.error('mcp_forward_failed', { sessionId, err }));
+});
+
+// Streamable HTTP sessions are claimed as `mcp-http:${sessionId}`. Their requests
+// cannot be forwarded, since each response streams back on the request itself,
+// but the claim tells another instance that a request reached it by mistake.
+const streamableKey = (sessionId: string) => `mcp-http:${sessionId}`;
+
+export interface StreamableSession {
+  transport: StreamableHTTPServerTransport;
+  auth: AuthToken;      // only this agent may use the session
+  lastSeen: number;     // start or end of its most recent request
+  openRequests: number; // includes long-lived GET streams
+}
+
+// Maps Mcp-Session-Id → session for the /mcp endpoint.
+export const streamableSessions = new Map<string, StreamableSession>();
+
+async function buildAgentMcpServer(auth: AuthToken): Promise<McpServer> {
   const server = new McpServer({
     name: 'agent-hub',
     version: '0.1.0',
   });
 
-  registerTools(server, auth);
+  // Tool descriptions list the team's message types as of connect time
+  registerTools(server, auth, listMessageTypes(await store.getTeam(auth.teamId)));
+  return server;
+}
+
+export async function createAgentMcpServer(
+  auth: AuthToken,
+  res: Response
+): Promise<SSEServerTransport> {
+  const server = await buildAgentMcpServer(auth);
 
   const transport = new SSEServerTransport('/messages', res);
   sseTransports.set(transport.sessionId, transport);
+  await bus.claim(`mcp:${transport.sessionId}`);
 
   res.on('close', () => {
     sseTransports.delete(transport.sessionId);
+    void bus.release(`mcp:${transport.sessionId}`);
   });
 
   await server.connect(transport);
   return transport;
 }
+
+/**
+ * A Streamable HTTP transport whose session is registered in
+ * `streamableSessions` once the client's initialize request succeeds.
+ * `onclose` runs when the session ends — DELETE, idle expiry or a kick.
+ */
+export async function createStreamableMcpServer(
+  auth: AuthToken,
+  onclose: (sessionId: string) => void
+): Promise<StreamableHTTPServerTransport> {
+  const server = await buildAgentMcpServer(auth);
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => uuidv4(),
+    eventStore: new MemoryEventStore(maxReplayEvents),
+    onsessioninitialized: async (sessionId) => {
+      streamableSessions.set(sessionId, { transport, auth, lastSeen: Date.now(), openRequests: 0 });
+      await bus.claim(streamableKey(sessionId));
+    },
+  });
+
+  transport.onclose = () => {
+    const sessionId = transport.sessionId;
+    if (!sessionId || !streamableSessions.delete(sessionId)) return;
+    void bus.release(streamableKey(sessionId));
+    onclose(sessionId);
+  };
+
+  await server.connect(transport);
+  return transport;
+}
+
+/**
+ * The agent's Streamable HTTP session, `'elsewhere'` when another hub instance
+ * holds it, or null. Another agent's session on this instance counts as unknown.
+ */
+export async function findStreamableSession(sessionId: string, auth: AuthToken): Promise<StreamableSession | 'elsewhere' | null> {
+  const session = streamableSessions.get(sessionId);
+  if (session) return session.auth.teamId === auth.teamId && session.auth.agentName === auth.agentName ? session : null;
+  const holder = await bus.holder(streamableKey(sessionId));
+  return holder && holder !== bus.instanceId ? 'elsewhere' : null;
+}
@@ -1,66 +1,76 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
-import { v4 as uuidv4 } from 'uuid';
-import { store, connections } from '../store/index.js';
-import type { AgentMessage, AuthToken } from '../types.js';
-import { ConfigLoader, Sections, Keys } from '../config/index.js';
+import { diffSpecs, exportAdrs, renderMessages, renderSpecDiff, searchDecisions, viewSpec } from '@agent-share/shared';
+import type { MessageTypeInfo, TaskAction } from '@agent-share/shared';
+import { store } from '../store/index.js';
+import { drainMailbox, sendFromAgent } from '../delivery.js';
+import { can } from '../roles.js';
+import { channelSchema, completeTaskSchema, contextKeySchema, recipientsSchema, setContextSchema, sha256Schema, taskQuerySchema } from '../middleware/validation.js';
+import { writeContext } from '../context.js';
+import { updateTask } from '../tasks.js';
+import { listDecisions } from '../decisions.js';
+import { listSpecServices, loadServiceVersions } from '../specs.js';
+import { describeMessageTypes } from '../messageTypes.js';
+import { messagesSent } from '../metrics.js';
+import type { AuthToken } from '../types.js';
 
-const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
-const MAX_BUFFER = config.get<number>(Sections.SSE, Keys.MAX_MESSAGE_BUFFER_SIZE, 100);
+export function registerTools(server: McpServer, auth: AuthToken, messageTypes: MessageTypeInfo[]): void {
+  const typeList = describeMessageTypes(messageTypes);
+
+  const changeTask = async (id: string, action: TaskAction, note?: string) => {
+    if (!can(auth.role, 'send')) {
+      return { content: [{ type: 'text' as const, text: `Role "${auth.role}" cannot change tasks` }], isError: true };
+    }
+    const result = await updateTask(auth.teamId, auth.agentName, id, action, note);
+    if (!result.ok) {
+      const text = result.task ? `${result.error}: ${JSON.stringify(result.task)}` : result.error;
+      return { content: [{ type: 'text' as const, text }], isError: true };
+    }
+    return { content: [{ type: 'text' as const, text: JSON.stringify(result.task, null, 2) }] };
+  };
 
-export function registerTools(server: McpServer, auth: AuthToken): void {
   server.tool(
     'agent_hub_send',
-    'Send a message to another agent or broadcast to all team members',
+    'Send a message to one or more agents, a #channel, or broadcast to all team members. Returns a delivery status per recipient.',
     {
-      to: z.string().describe('Target agent name, or "broadcast" for all agents in the team'),
-      type: z.enum(['api_spec', 'file_change', 'decision', 'todo', 'question']).describe('Message type'),
+      to: recipientsSchema.describe('Target agent name, a list of names, a glob such as "frontend-*", "#channel" for its subscribers, or "broadcast" for all agents in the team'),
+      type: z.string().describe(`Message type — one of: ${typeList}`),
       content: z.string().describe('Message content (plain text or JSON string)'),
+      payload: z.record(z.unknown()).optional().describe(
+        'Optional structured detail for the type — api_spec: {method, path, description?, request?, response?, service?, removed?}; ' +
+        'file_change: {path, change?, diff?, commit?}; decision: {title, rationale?, alternatives?, supersedes?}; ' +
+        'todo: {title, assignee?, due?}; question: {question, options?, blocking?}; ' +
+        'custom types: as described by their payload schema (GET /teams/:teamId/message-types)'
+      ),
+      attachments: z.array(sha256Schema).max(20).optional().describe('SHA-256s of artifacts already uploaded with PUT /artifacts/:sha256'),
+      expiresInSeconds: z.number().int().positive().optional().describe('Drop the message unread if it is still queued after this many seconds'),
     },
-    async ({ to, type, content }) => {
-      const team = await store.getTeam(auth.teamId);
-      if (!team) {
-        return { content: [{ type: 'text' as const, text: 'Team not found' }], isError: true };
+    async ({ to, type, content, payload, attachments, expiresInSeconds }) => {
+      if (!can(auth.role, 'send')) {
+        return { content: [{ type: 'text' as const, text: `Role "${auth.role}" cannot send messages` }], isError: true };
       }
 
-      const message: AgentMessage = {
-        id: uuidv4(),
-        from: auth.agentName,
-        to,
-        type,
-        content,
-        timestamp: Date.now(),
-      };
-
-      const targets =
-        to === 'broadcast'
-          ? (await store.listAgents(auth.teamId)).filter((a) => a.name !== auth.agentName)
-          : [await store.getAgent(auth.teamId, to)].filter(Boolean) as Awaited<ReturnType<typeof store.getAgent>>[];
-
-      for (const target of targets) {
-        await store.pushMessage(auth.teamId, target!.name, message, MAX_BUFFER);
-        connections.get(`${auth.teamId}:${target!.name}`)?.(message);
+      const expiresAt = expiresInSeconds === undefined ? undefined : Date.now() + expiresInSeconds * 1000;
+      const result = await sendFromAgent(auth, { to, type, content, payload, attachments, expiresAt });
+      if (!result.ok) {
+        const text = result.status === 400 ? `Invalid message: ${result.error}` : result.error;
+        return { content: [{ type: 'text' as const, text }], isError: true };
       }
 
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify({ ok: true, messageId: message.id, deliveredTo: targets.length }),
-          },
-        ],
-      };
+      messagesSent.inc({ type, transport: 'mcp' });
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
     }
   );
 
   server.tool(
     'agent_hub_list_agents',
-    'List all agents currently connected in your team',
+    'List all members of your team, including offline ones (messages to them are queued)',
     {},
     async () => {
       const agents = (await store.listAgents(auth.teamId)).map((a) => ({
         name: a.name,
         connectedAt: a.connectedAt,
+        online: a.connected,
         pendingMessages: a.messageBuffer.length,
       }));
 
@@ -73,19 +83,244 @@ export function registerTools(server: McpServer, auth: AuthToken): void {
     'Retrieve and clear all buffered messages addressed to you',
     {},
     async () => {
-      const messages = await store.flushMessages(auth.teamId, auth.agentName);
-      return { content: [{ type: 'text' as const, text: JSON.stringify(messages, null, 2) }] };
+      const { notice, messages } = await drainMailbox(auth.teamId, auth.agentName);
+      return { content: [{ type: 'text' as const, text: renderMessages(notice ? [notice, ...messages] : messages) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_subscribe',
+    'Subscribe to a #channel so messages sent to it reach you. Channels are created on first subscribe.',
+    { channel: channelSchema.shape.channel.describe('Channel name, e.g. "#backend-api"') },
+    async ({ channel }) => {
+      await store.subscribe(auth.teamId, channel, auth.agentName);
+      const subscribers = await store.listSubscribers(auth.teamId, channel);
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ ok: true, channel, subscribers }) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_unsubscribe',
+    'Unsubscribe from a #channel',
+    { channel: channelSchema.shape.channel.describe('Channel name, e.g. "#backend-api"') },
+    async ({ channel }) => {
+      await store.unsubscribe(auth.teamId, channel, auth.agentName);
+      const subscribers = await store.listSubscribers(auth.teamId, channel);
+      return { content: [{ type: 'text' as const, text: JSON.stringify({ ok: true, channel, subscribers }) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_history',
+    'Search the team message log (newest first). Unlike agent_hub_receive, this does not consume messages — use it to look up previously shared specs and decisions.',
+    {
+      from: z.string().optional().describe('Only messages sent by this agent'),
+      to: z.string().optional().describe('Only messages addressed to this agent, "#channel" or "broadcast"'),
+      type: z.string().optional().describe(`Only messages of this type — one of: ${messageTypes.map((t) => t.name).join(', ')}`),
+      since: z.number().int().optional().describe('Only messages at or after this time (ms since epoch)'),
+      until: z.number().int().optional().describe('Only messages at or before this time (ms since epoch)'),
+      cursor: z.string().optional().describe('nextCursor from a previous call, to fetch older messages'),
+      limit: z.number().int().min(1).max(200).optional().describe('Page size (default 50)'),
+    },
+    async ({ limit, ...filters }) => {
+      const page = await store.queryHistory(auth.teamId, { ...filters, limit: limit ?? 50 });
+      return { content: [{ type: 'text' as const, text: JSON.stringify(page, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_context_set',
+    'Write a key on the team blackboard — shared living state such as the current auth header format or the staging base URL. ' +
+    'Pass expectedVersion (from agent_hub_context_get; 0 for a new key) to only write if nobody changed it since.',
+    {
+      key: contextKeySchema.describe('Key, e.g. "staging_base_url"'),
+      value: setContextSchema.shape.value.describe('New value (plain text or JSON string)'),
+      expectedVersion: setContextSchema.shape.expectedVersion.describe('Only write if the key is at this version; 0 = only if it does not exist'),
+    },
+    async ({ key, value, expectedVersion }) => {
+      if (!can(auth.role, 'send')) {
+        return { content: [{ type: 'text' as const, text: `Role "${auth.role}" cannot write team context` }], isError: true };
+      }
+      const result = await writeContext(auth.teamId, auth.agentName, key, value, expectedVersion);
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      if (!result.ok) {
+        const text = `Version conflict — current entry: ${JSON.stringify(result.current)}`;
+        return { content: [{ type: 'text' as const, text }], isError: true };
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result.entry) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_context_get',
+    'Read a key from the team blackboard with its version and who last wrote it',
+    { key: contextKeySchema.describe('Key to read') },
+    async ({ key }) => {
+      const entry = await store.getContext(auth.teamId, key);
+      if (!entry) {
+        return { content: [{ type: 'text' as const, text: `No context key "${key}"` }], isError: true };
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(entry, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_context_list',
+    'List every key on the team blackboard',
+    {},
+    async () => {
+      const entries = await store.listContext(auth.teamId);
+      return { content: [{ type: 'text' as const, text: JSON.stringify(entries, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_task_create',
+    'Add a task to the team board by sending a todo message — to the suggested assignee, or broadcast if none. Returns the task id.',
+    {
+      title: z.string().min(1).describe('What needs doing'),
+      assignee: z.string().optional().describe('Agent suggested to take it; anyone can still claim it'),
+      due: z.string().optional().describe('ISO 8601 due date'),
+      details: z.string().optional().describe('Longer description sent as the message content (defaults to the title)'),
+    },
+    async ({ title, assignee, due, details }) => {
+      if (!can(auth.role, 'send')) {
+        return { content: [{ type: 'text' as const, text: `Role "${auth.role}" cannot send messages` }], isError: true };
+      }
+
+      const payload = { title, ...(assignee ? { assignee } : {}), ...(due ? { due } : {}) };
+      const result = await sendFromAgent(auth, { to: assignee ?? 'broadcast', type: 'todo', content: details ?? title, payload });
+      if (!result.ok) {
+        const text = result.status === 400 ? `Invalid task: ${result.error}` : result.error;
+        return { content: [{ type: 'text' as const, text }], isError: true };
+      }
+      messagesSent.inc({ type: 'todo', transport: 'mcp' });
+
+      const text = JSON.stringify({ ok: true, taskId: result.messageId, recipients: result.recipients });
+      return { content: [{ type: 'text' as const, text }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_task_claim',
+    'Claim an open task so teammates know you are working on it. Fails if someone else already claimed it.',
+    { taskId: z.string().describe('Task id, as returned by agent_hub_task_create or agent_hub_task_list') },
+    async ({ taskId }) => changeTask(taskId, 'claim')
+  );
+
+  server.tool(
+    'agent_hub_task_complete',
+    'Mark a task done — one you claimed, or an open one',
+    {
+      taskId: z.string().describe('Task id'),
+      note: completeTaskSchema.shape.note.describe('Optional outcome, e.g. the commit or PR that resolved it'),
+    },
+    async ({ taskId, note }) => changeTask(taskId, 'complete', note)
+  );
+
+  server.tool(
+    'agent_hub_task_list',
+    'List the team\'s tasks (oldest first) with status, assignee and history',
+    { status: taskQuerySchema.shape.status.describe('Only tasks in this status: open, claimed or done') },
+    async ({ status }) => {
+      const tasks = await store.listTasks(auth.teamId);
+      const matching = status ? tasks.filter((t) => t.status === status) : tasks;
+      return { content: [{ type: 'text' as const, text: JSON.stringify(matching, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_decisions',
+    'List or search the team\'s decision log — every decision message ever sent, numbered as ADRs, with supersedes/supersededBy links',
+    {
+      query: z.string().optional().describe('Only decisions mentioning this text'),
+      includeSuperseded: z.boolean().optional().describe('Also list decisions a later one replaced (default false)'),
+    },
+    async ({ query, includeSuperseded }) => {
+      const decisions = searchDecisions(await listDecisions(auth.teamId), { query, includeSuperseded });
+      return { content: [{ type: 'text' as const, text: JSON.stringify(decisions, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_decisions_export',
+    'Render the whole decision log as numbered Architecture Decision Record Markdown files, ready to save under e.g. docs/adr/',
+    {},
+    async () => {
+      const files = exportAdrs(await listDecisions(auth.teamId));
+      const text = files.length === 0
+        ? 'No decisions recorded yet.'
+        : files.map((f) => `=== ${f.filename} ===\n${f.content}`).join('\n');
+      return { content: [{ type: 'text' as const, text }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_spec_get',
+    'Read the team\'s API spec registry, built from api_spec messages: without a service, list services and their latest revision; ' +
+    'with one, its live endpoints; with method and path too, that endpoint and the revisions that published it',
+    {
+      service: z.string().optional().describe('Service name (an api_spec payload\'s service, or its sender\'s name)'),
+      method: z.string().optional().describe('HTTP method, with path'),
+      path: z.string().optional().describe('Endpoint path, with method'),
+      revision: z.number().int().nonnegative().optional().describe('Revision to read (default latest)'),
+    },
+    async ({ service, method, path, revision }) => {
+      if (!service) {
+        return { content: [{ type: 'text' as const, text: JSON.stringify(await listSpecServices(auth.teamId), null, 2) }] };
+      }
+      if (!method !== !path) {
+        return { content: [{ type: 'text' as const, text: 'Pass method and path together' }], isError: true };
+      }
+      const versions = await loadServiceVersions(auth.teamId, service);
+      if (versions.length === 0) {
+        return { content: [{ type: 'text' as const, text: `No specs published for ${service}` }], isError: true };
+      }
+      const result = viewSpec(service, versions, { revision, method: method?.toUpperCase(), path });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result.view, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_spec_diff',
+    'Compare two revisions of a service\'s API spec — added, removed and changed endpoints, changed request/response fields, and which changes are breaking. ' +
+    'Defaults to the latest revision against the one before it (or, for one endpoint, against its previous version)',
+    {
+      service: z.string().describe('Service name'),
+      from: z.number().int().nonnegative().optional().describe('Older revision (0 = before anything was published)'),
+      to: z.number().int().nonnegative().optional().describe('Newer revision (default latest)'),
+      method: z.string().optional().describe('HTTP method, with path, to compare one endpoint'),
+      path: z.string().optional().describe('Endpoint path, with method'),
+    },
+    async ({ service, from, to, method, path }) => {
+      if (!method !== !path) {
+        return { content: [{ type: 'text' as const, text: 'Pass method and path together' }], isError: true };
+      }
+      const versions = await loadServiceVersions(auth.teamId, service);
+      if (versions.length === 0) {
+        return { content: [{ type: 'text' as const, text: `No specs published for ${service}` }], isError: true };
+      }
+      const result = diffSpecs(service, versions, { from, to, method: method?.toUpperCase(), path });
+      if ('error' in result) {
+        return { content: [{ type: 'text' as const, text: result.error }], isError: true };
+      }
+      return { content: [{ type: 'text' as const, text: renderSpecDiff(result.diff) }] };
     }
   );
 
   server.tool(
     'agent_hub_whoami',
-    'Returns your own agent name and team ID.',
+    'Returns your own agent name, team ID and role (owner, member or observer).',
     {},
     async () => ({
       content: [{
         type: 'text' as const,
-        text: JSON.stringify({ agentName: auth.agentName, teamId: auth.teamId }),
+        text: JSON.stringify({ agentName: auth.agentName, teamId: auth.teamId, role: auth.role }),
       }],
     })
   );
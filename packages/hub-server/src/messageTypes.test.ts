@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { listMessageTypes, messageTypeErrors } from './messageTypes.js';
+import type { TeamRecord } from './store/index.js';
+
+const team: TeamRecord = {
+  id: 'team-1',
+  apiKeyHash: 'h',
+  createdAt: 1,
+  messageTypes: [
+    { name: 'deploy_notice', description: 'Something was deployed', createdAt: 2 },
+    {
+      name: 'bug_report',
+      description: 'A reproducible bug',
+      createdAt: 3,
+      payloadSchema: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: ['low', 'high'] },
+          steps: { type: 'array', items: { type: 'string' } },
+          count: { type: 'integer' },
+        },
+        required: ['severity'],
+      },
+    },
+  ],
+};
+
+describe('listMessageTypes', () => {
+  it('lists the built-in types before the team\'s own', () => {
+    const names = listMessageTypes(team).map((t) => t.name);
+    expect(names).toEqual(['api_spec', 'file_change', 'decision', 'todo', 'question', 'deploy_notice', 'bug_report']);
+  });
+
+  it('lists only built-ins for a team without custom types', () => {
+    expect(listMessageTypes({ ...team, messageTypes: undefined }).every((t) => t.builtin)).toBe(true);
+  });
+});
+
+describe('messageTypeErrors', () => {
+  it('validates built-in payloads', () => {
+    expect(messageTypeErrors(team, 'api_spec', { method: 'GET', path: '/users', response: { type: 'array' } })).toBeNull();
+    expect(messageTypeErrors(team, 'todo', { title: 'Add tests', assignee: 'bob', due: '2026-01-31' })).toBeNull();
+    expect(messageTypeErrors(team, 'api_spec', { path: '/users' })).toEqual([expect.stringContaining('method')]);
+    expect(messageTypeErrors(team, 'todo', { title: 'x', due: 'someday' })).toEqual(['due: Expected an ISO 8601 date']);
+    expect(messageTypeErrors(team, 'decision', { title: 'x', assignee: 'bob' })).not.toBeNull();
+  });
+
+  it('rejects types the team has not registered', () => {
+    expect(messageTypeErrors(team, 'review_request', undefined)).toEqual(['Unknown message type "review_request"']);
+  });
+
+  it('accepts any payload for a custom type without a schema', () => {
+    expect(messageTypeErrors(team, 'deploy_notice', { anything: true })).toBeNull();
+  });
+
+  it('validates custom payloads against their schema', () => {
+    expect(messageTypeErrors(team, 'bug_report', { severity: 'high', steps: ['open'], count: 2 })).toBeNull();
+    expect(messageTypeErrors(team, 'bug_report', {})).toEqual([expect.stringContaining('severity')]);
+    expect(messageTypeErrors(team, 'bug_report', { severity: 'medium' })).not.toBeNull();
+    expect(messageTypeErrors(team, 'bug_report', { severity: 'low', count: 1.5 })).not.toBeNull();
+    expect(messageTypeErrors(team, 'bug_report', { severity: 'low', extra: 1 })).not.toBeNull();
+  });
+});
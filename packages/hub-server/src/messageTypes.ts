@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { BUILTIN_MESSAGE_TYPES, isBuiltinType, payloadSchemas, payloadErrors } from '@agent-share/shared';
+import type { MessageTypeInfo, PayloadSchema } from '@agent-share/shared';
+import type { MessageType } from './types.js';
+import type { TeamRecord } from './store/index.js';
+
+// Custom types describe their payload with a small JSON Schema subset
+// (PayloadSchema), so it can be stored with the team and shown to clients as-is.
+
+export const payloadSchemaSpec: z.ZodType<PayloadSchema> = z.lazy(() =>
+  z.object({
+    type: z.enum(['string', 'number', 'integer', 'boolean', 'array', 'object']),
+    description: z.string().max(500).optional(),
+    enum: z.array(z.string()).min(1).optional(),
+    items: payloadSchemaSpec.optional(),
+    properties: z.record(payloadSchemaSpec).optional(),
+    required: z.array(z.string()).optional(),
+  }).strict()
+);
+
+/** Built-in types followed by the team's own. */
+export function listMessageTypes(team: TeamRecord | null): MessageTypeInfo[] {
+  const custom = (team?.messageTypes ?? []).map(({ name, description, payloadSchema }) => ({
+    name, description, builtin: false, ...(payloadSchema ? { payloadSchema } : {}),
+  }));
+  return [...BUILTIN_MESSAGE_TYPES, ...custom];
+}
+
+/** One-line summary of the available types, for MCP tool descriptions. */
+export function describeMessageTypes(types: MessageTypeInfo[]): string {
+  return types.map((t) => `${t.name} (${t.description})`).join('; ');
+}
+
+function compile(schema: PayloadSchema): z.ZodTypeAny {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? z.enum(schema.enum as [string, ...string[]]) : z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+    case 'array':
+      return z.array(schema.items ? compile(schema.items) : z.unknown());
+    case 'object': {
+      if (!schema.properties) return z.record(z.unknown());
+      const required = new Set(schema.required ?? []);
+      const shape = Object.fromEntries(Object.entries(schema.properties).map(([key, prop]) => {
+        const field = compile(prop);
+        return [key, required.has(key) ? field : field.optional()];
+      }));
+      return z.object(shape).strict();
+    }
+  }
+}
+
+/**
+ * Checks that `type` exists for the team and that `payload`, if present,
+ * matches its schema. Returns the problems found, or null if the message is valid.
+ */
+export function messageTypeErrors(team: TeamRecord, type: MessageType, payload: unknown): string[] | null {
+  if (isBuiltinType(type)) {
+    return payload === undefined ? null : payloadErrors(payloadSchemas[type], payload);
+  }
+  const custom = team.messageTypes?.find((t) => t.name === type);
+  if (!custom) return [`Unknown message type "${type}"`];
+  if (payload === undefined || !custom.payloadSchema) return null;
+  return payloadErrors(compile(custom.payloadSchema), payload);
+}
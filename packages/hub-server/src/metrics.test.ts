@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { countDropped, instrumentStore, messagesDropped, storeLatency } from './metrics.js';
+import { MemoryStore } from './store/memory.js';
+import type { AgentMessage } from './types.js';
+
+async function observations(operation: string): Promise<number> {
+  const { values } = await storeLatency.get();
+  return values.find((v) => v.metricName === 'agent_hub_store_operation_seconds_count' && v.labels['operation'] === operation)?.value ?? 0;
+}
+
+describe('instrumentStore', () => {
+  beforeEach(() => storeLatency.reset());
+
+  it('times each call and passes results through', async () => {
+    const store = instrumentStore(new MemoryStore(), 'memory');
+    await store.createTeam({ id: 't1', name: 'one', apiKeyHash: 'h', createdAt: 1 });
+    expect((await store.getTeam('t1'))?.name).toBe('one');
+    await store.getTeam('t2');
+
+    expect(await observations('createTeam')).toBe(1);
+    expect(await observations('getTeam')).toBe(2);
+  });
+
+  it('times calls that reject and keeps the rejection', async () => {
+    const failing = new MemoryStore();
+    failing.healthCheck = () => Promise.reject(new Error('down'));
+    const store = instrumentStore(failing, 'memory');
+
+    await expect(store.healthCheck()).rejects.toThrow('down');
+    expect(await observations('healthCheck')).toBe(1);
+  });
+});
+
+describe('countDropped', () => {
+  it('counts by type and reason', async () => {
+    messagesDropped.reset();
+    const message = (type: string): AgentMessage => ({ id: type, from: 'a', to: 'b', type, content: '', timestamp: 0 });
+    countDropped('overflow', [message('question'), message('question'), message('todo')]);
+
+    const { values } = await messagesDropped.get();
+    expect(values.map((v) => [v.labels, v.value])).toEqual([
+      [{ type: 'question', reason: 'overflow' }, 2],
+      [{ type: 'todo', reason: 'overflow' }, 1],
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { Registry, Counter, Gauge, Histogram, collectDefaultMetrics } from 'prom-client';
+import type { DropReason, IStore } from './store/types.js';
+import type { AgentMessage } from './types.js';
+
+// Everything GET /metrics exposes. Counters and histograms are updated where
+// the event happens; gauges are filled in at scrape time (see routes/metrics.ts)
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry, prefix: 'agent_hub_' });
+
+export const messagesSent = new Counter({
+  name: 'agent_hub_messages_sent_total',
+  help: 'Messages accepted from agents, by type and the transport they were sent over',
+  labelNames: ['type', 'transport'] as const,
+  registers: [registry],
+});
+
+export const messagesDelivered = new Counter({
+  name: 'agent_hub_messages_delivered_total',
+  help: 'Per-recipient deliveries, by type and whether the message was pushed or queued in a mailbox',
+  labelNames: ['type', 'status'] as const,
+  registers: [registry],
+});
+
+export const messagesDropped = new Counter({
+  name: 'agent_hub_messages_dropped_total',
+  help: 'Queued messages dropped unread, by type and reason',
+  labelNames: ['type', 'reason'] as const,
+  registers: [registry],
+});
+
+export const sessions = new Gauge({
+  name: 'agent_hub_sessions',
+  help: 'Open sessions: /sse and /mcp MCP sessions, and live /agent/stream or /agent/ws connections',
+  labelNames: ['transport'] as const,
+  registers: [registry],
+});
+
+export const queuedMessages = new Gauge({
+  name: 'agent_hub_queued_messages',
+  help: 'Messages waiting in mailboxes, by whether the agent is connected',
+  labelNames: ['state'] as const,
+  registers: [registry],
+});
+
+export const maxMailboxDepth = new Gauge({
+  name: 'agent_hub_mailbox_depth_max',
+  help: 'Messages in the fullest mailbox',
+  registers: [registry],
+});
+
+export const storeLatency = new Histogram({
+  name: 'agent_hub_store_operation_seconds',
+  help: 'Store operation latency, by backend and IStore method',
+  labelNames: ['backend', 'operation'] as const,
+  buckets: [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1],
+  registers: [registry],
+});
+
+export const authFailures = new Counter({
+  name: 'agent_hub_auth_failures_total',
+  help: 'Rejected credentials, by reason',
+  labelNames: ['reason'] as const,
+  registers: [registry],
+});
+
+export const rateLimited = new Counter({
+  name: 'agent_hub_rate_limited_total',
+  help: 'Requests rejected by the rate limiter',
+  registers: [registry],
+});
+
+export function countDropped(reason: DropReason, messages: AgentMessage[]): void {
+  for (const m of messages) messagesDropped.inc({ type: m.type, reason });
+}
+
+/** Wraps a store so every method call is timed in `agent_hub_store_operation_seconds`. */
+export function instrumentStore(store: IStore, backend: string): IStore {
+  const wrapped = new Map<PropertyKey, unknown>();
+  return new Proxy(store, {
+    get(target, prop) {
+      const value: unknown = Reflect.get(target, prop);
+      if (typeof value !== 'function') return value;
+      if (!wrapped.has(prop)) {
+        wrapped.set(prop, (...args: unknown[]) => {
+          const end = storeLatency.startTimer({ backend, operation: String(prop) });
+          const result: unknown = value.apply(target, args);
+          if (result instanceof Promise) return result.finally(end);
+          end();
+          return result;
+        });
+      }
+      return wrapped.get(prop);
+    },
+  });
+}
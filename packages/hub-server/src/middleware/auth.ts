@@ -1,32 +1,115 @@
 import type { Request, Response, NextFunction } from 'express';
 import { hashApiKey } from '../auth.js';
 import { store } from '../store/index.js';
+import type { AuthToken } from '../types.js';
+import { can } from '../roles.js';
+import type { Permission } from '../roles.js';
+import { authFailures } from '../metrics.js';
+import { logger } from '../logger.js';
+import type { LogFields } from '../logger.js';
 
-export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+/** Counts a rejected credential for /metrics and logs why it was rejected. */
+export function recordAuthFailure(reason: string, fields: LogFields = {}): void {
+  authFailures.inc({ reason });
+  logger.warn('auth_failed', { reason, ...fields });
+}
+
+function bearerToken(req: Request): string | undefined {
   const header = req.headers.authorization;
-  const key = header?.startsWith('Bearer ')
+  return header?.startsWith('Bearer ')
     ? header.slice(7)
     : (req.query['api_key'] as string | undefined);
+}
+
+/** The agent a per-agent token belongs to, or null if no credential matches it. */
+export async function authenticateAgent(token: string): Promise<AuthToken | null> {
+  const cred = await store.findAgentCredentialByTokenHash(hashApiKey(token));
+  return cred ? { teamId: cred.teamId, agentName: cred.agentName, role: cred.role ?? 'member' } : null;
+}
+
+// Authenticates an agent by its per-agent token. The agent name is taken from
+// the credential record, never from the request.
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const token = bearerToken(req);
+
+  if (!token) {
+    recordAuthFailure('missing_token');
+    res.status(401).json({ error: 'Missing agent token' });
+    return;
+  }
+
+  try {
+    const auth = await authenticateAgent(token);
+
+    if (!auth) {
+      recordAuthFailure('invalid_token');
+      res.status(401).json({ error: 'Invalid agent token' });
+      return;
+    }
+
+    logger.debug('auth_ok', { teamId: auth.teamId, agentName: auth.agentName, role: auth.role });
+    res.locals['auth'] = auth;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
 
-  const agentName = (req.headers['x-agent-name'] as string | undefined)
-    ?? (req.query['agent_name'] as string | undefined);
+// Authenticates with a team API key (primary or a non-expired secondary key).
+export async function requireTeamKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const key = bearerToken(req);
 
-  if (!key || !agentName) {
-    res.status(401).json({ error: 'Missing api_key and agent_name' });
+  if (!key) {
+    recordAuthFailure('missing_key');
+    res.status(401).json({ error: 'Missing api_key' });
     return;
   }
 
   try {
-    const team = await store.findTeamByApiKeyHash(hashApiKey(key));
+    const keyHash = hashApiKey(key);
+    const team = await store.findTeamByApiKeyHash(keyHash);
 
     if (!team) {
+      recordAuthFailure('invalid_key');
       res.status(401).json({ error: 'Invalid API key' });
       return;
     }
 
-    res.locals['auth'] = { teamId: team.id, agentName };
+    const secondary = team.keys?.find((k) => k.hash === keyHash);
+    if (secondary?.expiresAt !== undefined && secondary.expiresAt <= Date.now()) {
+      recordAuthFailure('expired_key', { teamId: team.id });
+      res.status(401).json({ error: 'API key expired' });
+      return;
+    }
+
+    logger.debug('team_key_ok', { teamId: team.id, secondary: secondary !== undefined });
+    res.locals['team'] = team;
+    res.locals['teamKeyHash'] = keyHash;
     next();
   } catch (err) {
     next(err);
   }
 }
+
+// Rejects agents whose role lacks the permission. Must run after requireAuth.
+export function requirePermission(permission: Permission) {
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    const auth = res.locals['auth'] as AuthToken;
+    if (!can(auth.role, permission)) {
+      recordAuthFailure('forbidden', { teamId: auth.teamId, agentName: auth.agentName, role: auth.role, permission });
+      res.status(403).json({ error: `Role "${auth.role}" is not allowed to ${permission.replace('_', ' ')}` });
+      return;
+    }
+    next();
+  };
+}
+
+// Team admin routes act on the team named in `:teamId`, which must be the caller's own.
+export function requireOwnTeam(req: Request, res: Response, next: NextFunction): void {
+  const auth = res.locals['auth'] as AuthToken;
+  if (auth.teamId !== req.params['teamId']) {
+    res.status(403).json({ error: 'Not a member of this team' });
+    return;
+  }
+  next();
+}
@@ -1,4 +1,5 @@
 import rateLimit from 'express-rate-limit';
+import { rateLimited } from '../metrics.js';
 import { ConfigLoader, Sections, Keys } from '../config/index.js';
 
 const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
@@ -9,4 +10,8 @@ export const apiLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   message: { error: 'Too many requests, please try again later' },
+  handler: (_req, res, _next, options) => {
+    rateLimited.inc();
+    res.status(options.statusCode).json(options.message);
+  },
 });
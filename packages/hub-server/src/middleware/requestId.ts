@@ -0,0 +1,29 @@
+import type { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { logger, requestContext } from '../logger.js';
+
+const VALID_ID = /^[\w.:-]{1,128}$/;
+
+// Tags the request with an id — the caller's X-Request-Id if it sent a usable
+// one — echoed in the response and attached to everything logged while serving
+// it. Logs the request once its response closes; the query string is left out
+// because it may carry ?api_key=.
+export function requestId(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.header('x-request-id');
+  const id = incoming && VALID_ID.test(incoming) ? incoming : uuidv4();
+  const started = Date.now();
+
+  res.locals['requestId'] = id;
+  res.setHeader('X-Request-Id', id);
+  res.on('close', () => {
+    logger.info('request', {
+      requestId: id,
+      method: req.method,
+      path: req.originalUrl.split('?')[0],
+      status: res.statusCode,
+      durationMs: Date.now() - started,
+    });
+  });
+
+  requestContext.run({ requestId: id }, next);
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { sendMessageSchema } from './validation.js';
+import { sendMessageSchema, historyQuerySchema, registerAgentSchema, channelSchema, createMessageTypeSchema, rotateTeamKeySchema, wsClientFrameSchema } from './validation.js';
 
 describe('sendMessageSchema', () => {
   const valid = {
@@ -16,8 +16,29 @@ describe('sendMessageSchema', () => {
     expect(sendMessageSchema.safeParse({ ...valid, to: 'broadcast' }).success).toBe(true);
   });
 
-  it('rejects invalid message type', () => {
-    expect(sendMessageSchema.safeParse({ ...valid, type: 'unknown' }).success).toBe(false);
+  it('accepts a list of recipients or a glob', () => {
+    expect(sendMessageSchema.safeParse({ ...valid, to: ['bob', 'carol'] }).success).toBe(true);
+    expect(sendMessageSchema.safeParse({ ...valid, to: 'frontend-*' }).success).toBe(true);
+  });
+
+  it('rejects an empty recipient list', () => {
+    expect(sendMessageSchema.safeParse({ ...valid, to: [] }).success).toBe(false);
+  });
+
+  it('caps address length and wildcards', () => {
+    expect(sendMessageSchema.safeParse({ ...valid, to: 'a'.repeat(129) }).success).toBe(false);
+    expect(sendMessageSchema.safeParse({ ...valid, to: ['bob', '*a'.repeat(9)] }).success).toBe(false);
+    expect(sendMessageSchema.safeParse({ ...valid, to: '*a'.repeat(8) }).success).toBe(true);
+  });
+
+  it('accepts an optional object payload', () => {
+    expect(sendMessageSchema.safeParse({ ...valid, payload: { method: 'GET', path: '/users' } }).success).toBe(true);
+    expect(sendMessageSchema.safeParse({ ...valid, payload: 'GET /users' }).success).toBe(false);
+  });
+
+  it('accepts custom type names but rejects malformed ones', () => {
+    expect(sendMessageSchema.safeParse({ ...valid, type: 'review_request' }).success).toBe(true);
+    expect(sendMessageSchema.safeParse({ ...valid, type: 'Not A Type' }).success).toBe(false);
   });
 
   it('rejects empty content', () => {
@@ -31,3 +52,97 @@ describe('sendMessageSchema', () => {
     }
   });
 });
+
+describe('historyQuerySchema', () => {
+  it('defaults limit to 50', () => {
+    const result = historyQuerySchema.safeParse({});
+    expect(result.success && result.data.limit).toBe(50);
+  });
+
+  it('coerces numeric query-string values', () => {
+    const result = historyQuerySchema.safeParse({ since: '1000', until: '2000', limit: '10' });
+    expect(result.success).toBe(true);
+    expect(result.success && result.data).toMatchObject({ since: 1000, until: 2000, limit: 10 });
+  });
+
+  it('rejects a limit above 200', () => {
+    expect(historyQuerySchema.safeParse({ limit: '500' }).success).toBe(false);
+  });
+
+  it('rejects a malformed message type', () => {
+    expect(historyQuerySchema.safeParse({ type: 'not a type' }).success).toBe(false);
+  });
+});
+
+describe('registerAgentSchema', () => {
+  it('accepts a simple agent name', () => {
+    expect(registerAgentSchema.safeParse({ agentName: 'frontend-1' }).success).toBe(true);
+  });
+
+  it('rejects names with spaces or special characters', () => {
+    expect(registerAgentSchema.safeParse({ agentName: 'bob smith' }).success).toBe(false);
+    expect(registerAgentSchema.safeParse({ agentName: '#channel' }).success).toBe(false);
+  });
+
+  it('rejects the reserved name "broadcast"', () => {
+    expect(registerAgentSchema.safeParse({ agentName: 'broadcast' }).success).toBe(false);
+  });
+});
+
+describe('channelSchema', () => {
+  it('accepts a #-prefixed channel name', () => {
+    expect(channelSchema.safeParse({ channel: '#backend-api' }).success).toBe(true);
+  });
+
+  it('rejects names without the # prefix', () => {
+    expect(channelSchema.safeParse({ channel: 'backend-api' }).success).toBe(false);
+  });
+
+  it('rejects an empty or malformed name', () => {
+    expect(channelSchema.safeParse({ channel: '#' }).success).toBe(false);
+    expect(channelSchema.safeParse({ channel: '#two words' }).success).toBe(false);
+  });
+});
+
+describe('createMessageTypeSchema', () => {
+  it('accepts a type with an object payload schema', () => {
+    expect(createMessageTypeSchema.safeParse({
+      name: 'bug_report',
+      description: 'A reproducible bug',
+      payloadSchema: { type: 'object', properties: { severity: { type: 'string', enum: ['low', 'high'] } }, required: ['severity'] },
+    }).success).toBe(true);
+  });
+
+  it('rejects a non-object payload schema', () => {
+    expect(createMessageTypeSchema.safeParse({ name: 'x', description: 'y', payloadSchema: { type: 'string' } }).success).toBe(false);
+  });
+
+  it('rejects unsupported schema keywords', () => {
+    expect(createMessageTypeSchema.safeParse({
+      name: 'x', description: 'y', payloadSchema: { type: 'object', additionalProperties: true },
+    }).success).toBe(false);
+  });
+});
+
+describe('rotateTeamKeySchema', () => {
+  it('accepts a grace period or revoking the old key\'s tokens, but not both', () => {
+    expect(rotateTeamKeySchema.safeParse({ graceMs: 1000 }).success).toBe(true);
+    expect(rotateTeamKeySchema.safeParse({ revokeCredentials: true }).success).toBe(true);
+    expect(rotateTeamKeySchema.safeParse({ revokeCredentials: true, graceMs: 0 }).success).toBe(true);
+    expect(rotateTeamKeySchema.safeParse({ revokeCredentials: true, graceMs: 1000 }).success).toBe(false);
+  });
+});
+
+describe('wsClientFrameSchema', () => {
+  it('accepts send, list and ack frames', () => {
+    expect(wsClientFrameSchema.safeParse({ op: 'send', ref: '1', to: 'bob', type: 'todo', content: 'hi' }).success).toBe(true);
+    expect(wsClientFrameSchema.safeParse({ op: 'list', ref: '2' }).success).toBe(true);
+    expect(wsClientFrameSchema.safeParse({ op: 'ack', ids: ['m1', 'm2'] }).success).toBe(true);
+  });
+
+  it('rejects unknown ops and sends without a ref or content', () => {
+    expect(wsClientFrameSchema.safeParse({ op: 'subscribe', ref: '1' }).success).toBe(false);
+    expect(wsClientFrameSchema.safeParse({ op: 'send', to: 'bob', type: 'todo', content: 'hi' }).success).toBe(false);
+    expect(wsClientFrameSchema.safeParse({ op: 'send', ref: '1', to: 'bob', type: 'todo', content: '' }).success).toBe(false);
+  });
+});
@@ -1,10 +1,132 @@
 import { z } from 'zod';
 import type { Request, Response, NextFunction } from 'express';
+import { payloadSchemaSpec } from '../messageTypes.js';
+
+// Agent names are at most 64 characters; the rest leaves room for a glob or a channel
+const addressSchema = z.string().min(1).max(128)
+  .refine((a) => (a.match(/\*/g)?.length ?? 0) <= 8, 'At most 8 "*" wildcards per address');
+
+export const recipientsSchema = z.union([addressSchema, z.array(addressSchema).min(1).max(50)]);
+
+export const messageTypeNameSchema = z.string().min(1).max(64)
+  .regex(/^[a-z][a-z0-9_]*$/, 'Use lowercase letters, digits and "_", starting with a letter');
+
+// Whether the type exists for the team and the payload fits it is checked by
+// the route, which has the team's registry (see messageTypes.ts)
+export const sha256Schema = z.string().regex(/^[0-9a-f]{64}$/, 'Expected a lowercase hex SHA-256');
 
 export const sendMessageSchema = z.object({
-  to: z.string().min(1),
-  type: z.enum(['api_spec', 'file_change', 'decision', 'todo', 'question']),
+  to: recipientsSchema,
+  type: messageTypeNameSchema,
   content: z.string().min(1).max(65536),
+  payload: z.record(z.unknown()).optional(),
+  attachments: z.array(sha256Schema).max(20).optional(),  // artifacts uploaded beforehand
+  expiresAt: z.number().int().positive().optional(),       // ms epoch
+});
+
+// Frames an agent sends over /agent/ws. `ref` is echoed in the reply
+export const wsClientFrameSchema = z.discriminatedUnion('op', [
+  sendMessageSchema.extend({ op: z.literal('send'), ref: z.string().min(1).max(64) }),
+  z.object({ op: z.literal('list'), ref: z.string().min(1).max(64) }),
+  z.object({ op: z.literal('ack'), ids: z.array(z.string().min(1)).min(1).max(500) }),
+]);
+
+export const createMessageTypeSchema = z.object({
+  name: messageTypeNameSchema,
+  description: z.string().min(1).max(500),
+  payloadSchema: payloadSchemaSpec
+    .refine((s) => s.type === 'object', 'Payload schemas must describe an object')
+    .optional(),
+});
+
+export const setRetentionSchema = z.object({
+  rules: z.array(z.object({
+    type: messageTypeNameSchema.optional(),  // every type when absent
+    maxAgeMs: z.number().int().positive().optional(),
+    maxCount: z.number().int().nonnegative().optional(),
+  }).refine((r) => r.maxAgeMs !== undefined || r.maxCount !== undefined, 'A rule needs maxAgeMs or maxCount')).max(20),
+});
+
+const agentNameSchema = z.string().min(1).max(64)
+  .regex(/^[A-Za-z0-9._-]+$/, 'Use letters, digits, ".", "_" or "-"')
+  .refine((name) => name !== 'broadcast', '"broadcast" is reserved');
+
+export const registerAgentSchema = z.object({
+  agentName: agentNameSchema,
+});
+
+export const channelSchema = z.object({
+  channel: z.string().max(65)
+    .regex(/^#[A-Za-z0-9._-]+$/, 'Channels look like "#name" — letters, digits, ".", "_" or "-"'),
+});
+
+export const contextKeySchema = z.string().min(1).max(128)
+  .regex(/^[A-Za-z0-9._:-]+$/, 'Use letters, digits, ".", "_", ":" or "-"');
+
+export const setContextSchema = z.object({
+  value: z.string().max(65536),
+  expectedVersion: z.number().int().nonnegative().optional(),  // 0 = only if the key does not exist yet
+});
+
+export const taskQuerySchema = z.object({
+  status: z.enum(['open', 'claimed', 'done']).optional(),
+});
+
+export const completeTaskSchema = z.object({
+  note: z.string().max(2000).optional(),
+});
+
+export const decisionQuerySchema = z.object({
+  q: z.string().min(1).max(200).optional(),
+  includeSuperseded: z.enum(['true', 'false']).transform((v) => v === 'true').optional(),
+});
+
+export const specQuerySchema = z.object({
+  revision: z.coerce.number().int().nonnegative().optional(),
+  method: z.string().min(1).transform((m) => m.toUpperCase()).optional(),
+  path: z.string().min(1).optional(),
+}).refine((q) => !q.method === !q.path, 'Pass method and path together');
+
+export const specDiffQuerySchema = z.object({
+  from: z.coerce.number().int().nonnegative().optional(),
+  to: z.coerce.number().int().nonnegative().optional(),
+  method: z.string().min(1).transform((m) => m.toUpperCase()).optional(),
+  path: z.string().min(1).optional(),
+}).refine((q) => !q.method === !q.path, 'Pass method and path together');
+
+// `agentName` is the creator, registered as the team's owner
+export const createTeamSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  agentName: agentNameSchema,
+});
+
+export const renameTeamSchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+export const createTeamKeySchema = z.object({
+  label: z.string().min(1).max(64),
+  expiresInMs: z.number().int().positive().optional(),
+  role: z.enum(['member', 'observer']).default('member'),
+});
+
+export const setRoleSchema = z.object({
+  role: z.enum(['owner', 'member', 'observer']),
+});
+
+export const rotateTeamKeySchema = z.object({
+  graceMs: z.number().int().nonnegative().optional(),
+  revokeCredentials: z.boolean().optional(),
+}).refine((b) => !(b.revokeCredentials && b.graceMs), 'A key whose tokens are revoked cannot keep a grace period');
+
+export const historyQuerySchema = z.object({
+  from: z.string().min(1).optional(),
+  to: z.string().min(1).optional(),
+  type: messageTypeNameSchema.optional(),
+  since: z.coerce.number().int().nonnegative().optional(),
+  until: z.coerce.number().int().nonnegative().optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
 });
 
 export function validate(schema: z.ZodSchema) {
@@ -18,3 +140,15 @@ export function validate(schema: z.ZodSchema) {
     next();
   };
 }
+
+export function validateQuery(schema: z.ZodSchema) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      res.status(400).json({ error: 'Validation failed', details: result.error.flatten() });
+      return;
+    }
+    res.locals['query'] = result.data;
+    next();
+  };
+}
@@ -0,0 +1,58 @@
+import { v4 as uuidv4 } from 'uuid';
+import { store, connections } from './store/index.js';
+import type { DropCounts, DropReason } from './store/index.js';
+import { tryPublish } from './bus/index.js';
+import type { AgentMessage } from './types.js';
+
+const DROP_REASONS: Record<DropReason, string> = {
+  overflow: 'pushed out of a full mailbox',
+  expired: 'expired',
+  retention: "over the team's retention limit",
+};
+
+/**
+ * Pushes a hub notice (a context or task change) to every teammate with a live
+ * /agent/stream or /agent/ws except `except`, on whichever hub instance holds
+ * the connection. Notices are not queued for offline agents or recorded in
+ * history — the store holds the durable state they describe.
+ */
+export async function notifyTeam(teamId: string, message: AgentMessage, except: string): Promise<void> {
+  for (const agent of await store.listAgents(teamId)) {
+    if (agent.name === except || !agent.connected) continue;
+    const key = `${teamId}:${agent.name}`;
+    const push = connections.get(key);
+    if (push) push(message, true);
+    else await tryPublish(key, { type: 'push', message, notice: true });
+  }
+}
+
+/** The `messages_dropped` notice telling an agent how many of its queued messages it lost unread. */
+export function droppedNotice(agentName: string, counts: DropCounts, at: number): AgentMessage {
+  const entries = Object.entries(counts) as [DropReason, number][];
+  const total = entries.reduce((sum, [, n]) => sum + n, 0);
+  return {
+    id: uuidv4(),
+    from: 'hub',
+    to: agentName,
+    type: 'messages_dropped',
+    content: `${total} queued message${total === 1 ? ' was' : 's were'} dropped unread: ${entries.map(([reason, n]) => `${n} ${DROP_REASONS[reason]}`).join(', ')}`,
+    payload: { ...counts },
+    timestamp: at,
+  };
+}
+
+/**
+ * Tells an agent that `count` of its queued messages were dropped unread. A
+ * live /agent/stream or /agent/ws gets the notice now; otherwise the count is
+ * kept and a notice leads the agent's next mailbox read (see drainMailbox).
+ */
+export async function reportDrops(teamId: string, agentName: string, reason: DropReason, count: number): Promise<void> {
+  if (count === 0) return;
+  const key = `${teamId}:${agentName}`;
+  const notice = droppedNotice(agentName, { [reason]: count }, Date.now());
+  const push = connections.get(key);
+  if (push) push(notice, true);
+  else if (!(await tryPublish(key, { type: 'push', message: notice, notice: true }))) {
+    await store.recordDrops(teamId, agentName, reason, count);
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { isExpired, selectDrops } from './retention.js';
+import type { AgentMessage } from './types.js';
+
+const now = 10_000;
+
+function message(id: string, type: string, timestamp: number, expiresAt?: number): AgentMessage {
+  return {
+    id, from: 'alice', to: 'bob', type, content: id, timestamp,
+    ...(expiresAt !== undefined ? { expiresAt } : {}),
+  };
+}
+
+describe('isExpired', () => {
+  it('is true from expiresAt on, and never without one', () => {
+    expect(isExpired(message('m', 'note', 0, now), now)).toBe(true);
+    expect(isExpired(message('m', 'note', 0, now + 1), now)).toBe(false);
+    expect(isExpired(message('m', 'note', 0), now)).toBe(false);
+  });
+});
+
+describe('selectDrops', () => {
+  it('drops messages past their expiresAt even without rules', () => {
+    const mailbox = [message('a', 'note', 1, now - 1), message('b', 'note', 2, now + 1)];
+    expect(selectDrops(mailbox, [], now)).toEqual({ expired: ['a'], retention: [] });
+  });
+
+  it('applies maxAgeMs only to the rule type', () => {
+    const mailbox = [message('a', 'status', 1_000), message('b', 'question', 1_000), message('c', 'status', 9_500)];
+    expect(selectDrops(mailbox, [{ type: 'status', maxAgeMs: 5_000 }], now)).toEqual({ expired: ['a'], retention: [] });
+  });
+
+  it('keeps the newest maxCount messages of the rule type', () => {
+    const mailbox = [
+      message('a', 'status', 1), message('b', 'question', 2), message('c', 'status', 3),
+      message('d', 'status', 4), message('e', 'question', 5),
+    ];
+    expect(selectDrops(mailbox, [{ type: 'status', maxCount: 1 }], now)).toEqual({ expired: [], retention: ['a', 'c'] });
+  });
+
+  it('applies a rule without a type to every message', () => {
+    const mailbox = [message('a', 'status', 1), message('b', 'question', 2), message('c', 'note', 3)];
+    expect(selectDrops(mailbox, [{ maxCount: 2 }], now)).toEqual({ expired: [], retention: ['a'] });
+  });
+
+  it('does not count expired messages against maxCount', () => {
+    const mailbox = [message('a', 'note', 1), message('b', 'note', 2, now - 1), message('c', 'note', 3)];
+    expect(selectDrops(mailbox, [{ maxCount: 2 }], now)).toEqual({ expired: ['b'], retention: [] });
+  });
+});
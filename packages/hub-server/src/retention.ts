@@ -0,0 +1,68 @@
+import { store } from './store/index.js';
+import type { DropReason, RetentionRule } from './store/index.js';
+import { reportDrops } from './notices.js';
+import { countDropped } from './metrics.js';
+import { logger } from './logger.js';
+import type { AgentMessage } from './types.js';
+import { ConfigLoader, Sections, Keys } from './config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const SWEEP_INTERVAL_MS = config.get<number>(Sections.MAILBOX, Keys.RETENTION_INTERVAL_MS, 60_000);
+
+export function isExpired(message: AgentMessage, now: number): boolean {
+  return message.expiresAt !== undefined && message.expiresAt <= now;
+}
+
+/**
+ * Ids of the queued messages `rules` drop at `now`: `expired` for those past
+ * their expiresAt or a matching rule's maxAgeMs, `retention` for those beyond
+ * a matching rule's maxCount (the newest are kept). `mailbox` is oldest first.
+ */
+export function selectDrops(mailbox: AgentMessage[], rules: RetentionRule[], now: number): Record<Exclude<DropReason, 'overflow'>, string[]> {
+  const matches = (rule: RetentionRule, m: AgentMessage) => rule.type === undefined || rule.type === m.type;
+
+  const expired = new Set(mailbox
+    .filter((m) => isExpired(m, now) || rules.some((r) => r.maxAgeMs !== undefined && matches(r, m) && m.timestamp < now - r.maxAgeMs))
+    .map((m) => m.id));
+
+  const retention = new Set<string>();
+  for (const rule of rules) {
+    if (rule.maxCount === undefined) continue;
+    const kept = mailbox.filter((m) => matches(rule, m) && !expired.has(m.id));
+    for (const m of kept.slice(0, Math.max(0, kept.length - rule.maxCount))) retention.add(m.id);
+  }
+
+  return { expired: [...expired], retention: [...retention] };
+}
+
+/** Applies every team's retention rules, and message expiry, to its members' mailboxes. */
+export async function sweepMailboxes(now: number = Date.now()): Promise<void> {
+  for (const team of await store.listTeams()) {
+    for (const agent of await store.listAgents(team.id)) {
+      if (agent.messageBuffer.length === 0) continue;
+      const drops = selectDrops(agent.messageBuffer, team.retention ?? [], now);
+      for (const reason of ['expired', 'retention'] as const) {
+        if (drops[reason].length === 0) continue;
+        // Only what was still queued counts: the agent may have read it meanwhile
+        const removed = await store.removeMessages(team.id, agent.name, drops[reason]);
+        countDropped(reason, removed);
+        if (removed.length) logger.info('messages_dropped', { teamId: team.id, agentName: agent.name, reason, count: removed.length });
+        await reportDrops(team.id, agent.name, reason, removed.length);
+      }
+    }
+  }
+}
+
+/** Sweeps mailboxes every `[mailbox] retention_interval_ms`; returns a function that stops it. */
+export function startRetentionJanitor(): () => void {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return; // a slow sweep is still going
+    running = true;
+    sweepMailboxes()
+      .catch((err) => logger.error('retention_sweep_failed', { err }))
+      .finally(() => { running = false; });
+  }, SWEEP_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { assignMissingOwners, can } from './roles.js';
+import { MemoryStore } from './store/memory.js';
+
+describe('can', () => {
+  it('lets every role read', () => {
+    expect(can('owner', 'read')).toBe(true);
+    expect(can('member', 'read')).toBe(true);
+    expect(can('observer', 'read')).toBe(true);
+  });
+
+  it('does not let observers send', () => {
+    expect(can('observer', 'send')).toBe(false);
+    expect(can('member', 'send')).toBe(true);
+  });
+
+  it('reserves team management for owners', () => {
+    expect(can('owner', 'manage_team')).toBe(true);
+    expect(can('member', 'manage_team')).toBe(false);
+    expect(can('observer', 'manage_team')).toBe(false);
+  });
+});
+
+describe('assignMissingOwners', () => {
+  it('promotes the earliest primary-key member of a team without an owner', async () => {
+    const store = new MemoryStore();
+    await store.createTeam({ id: 't1', apiKeyHash: 'primary', createdAt: 1, keys: [{ id: 'k', label: 'ci', hash: 'secondary', createdAt: 1 }] });
+    await store.saveAgentCredential({ teamId: 't1', agentName: 'bot', tokenHash: 'a', createdAt: 1, keyHash: 'secondary' });
+    await store.saveAgentCredential({ teamId: 't1', agentName: 'bob', tokenHash: 'b', createdAt: 3, keyHash: 'primary' });
+    await store.saveAgentCredential({ teamId: 't1', agentName: 'alice', tokenHash: 'c', createdAt: 2 });
+
+    expect(await assignMissingOwners(store)).toEqual([{ teamId: 't1', agentName: 'alice' }]);
+    expect((await store.getAgentCredential('t1', 'alice'))?.role).toBe('owner');
+    expect((await store.getAgentCredential('t1', 'bob'))?.role).toBeUndefined();
+  });
+
+  it('leaves teams that have an owner alone', async () => {
+    const store = new MemoryStore();
+    await store.createTeam({ id: 't1', apiKeyHash: 'primary', createdAt: 1 });
+    await store.saveAgentCredential({ teamId: 't1', agentName: 'alice', tokenHash: 'a', createdAt: 1 });
+    await store.saveAgentCredential({ teamId: 't1', agentName: 'bob', tokenHash: 'b', createdAt: 2, role: 'owner' });
+
+    expect(await assignMissingOwners(store)).toEqual([]);
+    expect((await store.getAgentCredential('t1', 'alice'))?.role).toBeUndefined();
+  });
+});
@@ -0,0 +1,37 @@
+import type { Role } from './types.js';
+import type { IStore } from './store/types.js';
+
+export type Permission = 'read' | 'send' | 'manage_team';
+
+export const ROLES: readonly Role[] = ['owner', 'member', 'observer'];
+
+const GRANTS: Record<Role, readonly Permission[]> = {
+  owner:    ['read', 'send', 'manage_team'],
+  member:   ['read', 'send'],
+  observer: ['read'],
+};
+
+export function can(role: Role, permission: Permission): boolean {
+  return GRANTS[role].includes(permission);
+}
+
+/**
+ * Boot-time migration for teams created before the creator was made owner at
+ * creation: a team without an owner gets its earliest member registered
+ * through a primary key, never one from a secondary key. Returns who was promoted.
+ */
+export async function assignMissingOwners(store: IStore): Promise<{ teamId: string; agentName: string }[]> {
+  const promoted: { teamId: string; agentName: string }[] = [];
+  for (const team of await store.listTeams()) {
+    const creds = await store.listAgentCredentials(team.id);
+    if (creds.some((c) => c.role === 'owner')) continue;
+    const secondary = new Set((team.keys ?? []).map((k) => k.hash));
+    const [first] = creds
+      .filter((c) => !c.keyHash || !secondary.has(c.keyHash))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (!first) continue;
+    await store.saveAgentCredential({ ...first, role: 'owner' });
+    promoted.push({ teamId: team.id, agentName: first.agentName });
+  }
+  return promoted;
+}
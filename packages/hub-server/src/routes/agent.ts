@@ -1,51 +1,74 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { requireAuth } from '../middleware/auth.js';
-import { validate, sendMessageSchema } from '../middleware/validation.js';
+import { requireAuth, requireTeamKey, requirePermission } from '../middleware/auth.js';
+import { validate, validateQuery, sendMessageSchema, historyQuerySchema, registerAgentSchema, channelSchema } from '../middleware/validation.js';
 import { store, connections } from '../store/index.js';
-import type { AgentMessage, AuthToken } from '../types.js';
+import { bus } from '../bus/index.js';
+import type { HistoryQuery, TeamRecord } from '../store/index.js';
+import { generateAgentToken, hashApiKey } from '../auth.js';
+import { drainMailbox, openMailbox, requeueMessages, sendFromAgent } from '../delivery.js';
+import type { OutgoingMessage } from '../delivery.js';
+import { listMessageTypes } from '../messageTypes.js';
+import { trackSession } from '../sessions.js';
+import { messagesSent } from '../metrics.js';
+import { logger } from '../logger.js';
+import type { AgentMessage, AuthToken, Role } from '../types.js';
 import { ConfigLoader, Sections, Keys } from '../config/index.js';
 
 const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
-const MAX_BUFFER = config.get<number>(Sections.SSE, Keys.MAX_MESSAGE_BUFFER_SIZE, 100);
 const keepAliveMs = config.get<number>(Sections.SSE, Keys.KEEP_ALIVE_INTERVAL_MS, 15000);
+const maxReplay = config.get<number>(Sections.SSE, Keys.MAX_REPLAY_MESSAGES, 200);
 
 export const agentRouter = Router();
 
-// POST /agent/send — used by mcp-client to deliver messages via REST
-agentRouter.post('/send', requireAuth, validate(sendMessageSchema), async (req, res) => {
-  const auth = res.locals['auth'] as AuthToken;
-  const { to, type, content } = req.body as { to: string; type: AgentMessage['type']; content: string };
-
-  const team = await store.getTeam(auth.teamId);
-  if (!team) {
-    res.status(404).json({ error: 'Team not found' });
+// POST /agent/register — exchange the team API key for a token bound to one agent name
+agentRouter.post('/register', requireTeamKey, validate(registerAgentSchema), async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const { agentName } = req.body as { agentName: string };
+
+  // Secondary keys grant their own role and the primary key makes members.
+  // Owners are made at team creation or by an existing owner, never here
+  const keyHash = res.locals['teamKeyHash'] as string;
+  const secondary = team.keys?.find((k) => k.hash === keyHash);
+  const role: Role = secondary?.role ?? 'member';
+
+  const agentToken = generateAgentToken();
+  const created = await store.createAgentCredential({
+    teamId: team.id,
+    agentName,
+    tokenHash: hashApiKey(agentToken),
+    createdAt: Date.now(),
+    keyHash,
+    role,
+  });
+  if (!created) {
+    res.status(409).json({
+      error: `Agent name "${agentName}" is already registered in this team. A team owner can issue it a new token with POST /teams/${team.id}/agents/${agentName}/token`,
+    });
     return;
   }
+  await openMailbox(team.id, agentName);
 
-  const message: AgentMessage = {
-    id: uuidv4(),
-    from: auth.agentName,
-    to,
-    type,
-    content,
-    timestamp: Date.now(),
-  };
+  res.status(201).json({ teamId: team.id, agentName, role, agentToken });
+});
 
-  const targets =
-    to === 'broadcast'
-      ? (await store.listAgents(auth.teamId)).filter((a) => a.name !== auth.agentName)
-      : [await store.getAgent(auth.teamId, to)].filter(Boolean) as Awaited<ReturnType<typeof store.getAgent>>[];
+// POST /agent/send — used by mcp-client to deliver messages via REST
+agentRouter.post('/send', requireAuth, requirePermission('send'), validate(sendMessageSchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
 
-  for (const target of targets) {
-    await store.pushMessage(auth.teamId, target!.name, message, MAX_BUFFER);
-    connections.get(`${auth.teamId}:${target!.name}`)?.(message);
+  const result = await sendFromAgent(auth, req.body as OutgoingMessage);
+  if (!result.ok) {
+    res.status(result.status).json({ error: result.error });
+    return;
   }
 
-  res.json({ ok: true, messageId: message.id, deliveredTo: targets.length });
+  messagesSent.inc({ type: (req.body as OutgoingMessage).type, transport: 'rest' });
+  res.json(result);
 });
 
-// GET /agent/stream — plain SSE stream for stdio proxy agents (mcp-client)
+// GET /agent/stream — plain SSE stream for stdio proxy agents (mcp-client).
+// Each message's event id is the agent's delivery seq; a reconnect sending
+// Last-Event-ID first gets the logged messages that followed it
 agentRouter.get('/stream', requireAuth, async (req, res) => {
   const auth = res.locals['auth'] as AuthToken;
 
@@ -63,27 +86,99 @@ agentRouter.get('/stream', requireAuth, async (req, res) => {
 
   const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), keepAliveMs);
 
-  // Preserve buffered messages across reconnects
-  const existing = await store.getAgent(auth.teamId, auth.agentName);
-  await store.saveAgent({
-    name: auth.agentName,
-    teamId: auth.teamId,
-    sessionId: uuidv4(),
-    connectedAt: Date.now(),
-    messageBuffer: existing?.messageBuffer ?? [],
-  });
+  // The mailbox queued while the agent was offline stays as it is
+  await store.markConnected(auth.teamId, auth.agentName, uuidv4(), Date.now());
 
-  const pushFn = (msg: AgentMessage) => res.write(`data: ${JSON.stringify(msg)}\n\n`);
-  connections.set(`${auth.teamId}:${auth.agentName}`, pushFn);
+  const lastEventId = Number(req.header('last-event-id'));
+  const writeEvent = (msg: AgentMessage, seq?: number) => {
+    // A write to a closed response is silently dropped; fail instead
+    if (res.writableEnded || res.destroyed) throw new Error('Stream closed');
+    res.write(`${seq ? `id: ${seq}\n` : ''}data: ${JSON.stringify(msg)}\n\n`);
+  };
+
+  // Writes are chained so events go out in seq order. Hub notices are not
+  // logged, so they carry no id and are never replayed
+  let writes = (async () => {
+    if (!Number.isInteger(lastEventId) || lastEventId <= 0) return;
+    for (const { seq, message } of await store.listDeliveries(auth.teamId, auth.agentName, lastEventId)) {
+      writeEvent(message, seq);
+    }
+  })();
+  const key = `${auth.teamId}:${auth.agentName}`;
+  const pushFn = (msg: AgentMessage, notice?: boolean) => {
+    writes = writes
+      .then(async () => writeEvent(msg, notice ? undefined : await store.appendDelivery(auth.teamId, auth.agentName, msg, maxReplay)))
+      .catch((err) => {
+        logger.error('stream_write_failed', { teamId: auth.teamId, agentName: auth.agentName, messageId: msg.id, err });
+        // Back to the mailbox for the next connection; notices are never queued
+        if (notice) return;
+        return requeueMessages(auth.teamId, auth.agentName, [msg])
+          .catch((queueErr) => logger.error('queue_failed', { teamId: auth.teamId, agentName: auth.agentName, messageId: msg.id, err: queueErr }));
+      });
+  };
+  connections.set(key, pushFn);
+  await bus.claim(key);
 
-  res.on('close', async () => {
+  // Register the push first so nothing lands in the mailbox after it is drained
+  const { notice, messages } = await drainMailbox(auth.teamId, auth.agentName);
+  if (notice) pushFn(notice, true);
+  for (const msg of messages) pushFn(msg);
+
+  const untrack = trackSession(auth.teamId, auth.agentName, () => res.end());
+  const openedAt = Date.now();
+  logger.info('session_opened', { transport: 'agent_stream', teamId: auth.teamId, agentName: auth.agentName });
+
+  res.on('close', () => {
     clearInterval(keepAlive);
-    connections.delete(`${auth.teamId}:${auth.agentName}`);
-    await store.removeAgent(auth.teamId, auth.agentName);
+    untrack();
+    logger.info('session_closed', { transport: 'agent_stream', teamId: auth.teamId, agentName: auth.agentName, durationMs: Date.now() - openedAt });
+    // A newer stream for the same agent may already have replaced this one
+    if (connections.get(key) !== pushFn) return;
+    connections.delete(key);
+    void bus.release(key)
+      .then(() => store.setAgentConnected(auth.teamId, auth.agentName, false, Date.now()))
+      .catch((err) => logger.error('session_close_failed', { transport: 'agent_stream', teamId: auth.teamId, agentName: auth.agentName, err }));
   });
 });
 
-// GET /agent/list — used by mcp-client to list connected agents
+// POST /agent/subscribe — join a channel (created on first subscribe); messages to it are delivered to you
+agentRouter.post('/subscribe', requireAuth, requirePermission('read'), validate(channelSchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const { channel } = req.body as { channel: string };
+
+  await store.subscribe(auth.teamId, channel, auth.agentName);
+  res.json({ ok: true, channel, subscribers: await store.listSubscribers(auth.teamId, channel) });
+});
+
+// POST /agent/unsubscribe — leave a channel
+agentRouter.post('/unsubscribe', requireAuth, requirePermission('read'), validate(channelSchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const { channel } = req.body as { channel: string };
+
+  await store.unsubscribe(auth.teamId, channel, auth.agentName);
+  res.json({ ok: true, channel, subscribers: await store.listSubscribers(auth.teamId, channel) });
+});
+
+// GET /agent/message-types — the types this agent may send, fetched by mcp-client at connect time
+agentRouter.get('/message-types', requireAuth, async (_req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+
+  const team = await store.getTeam(auth.teamId);
+  if (!team) {
+    res.status(404).json({ error: 'Team not found' });
+    return;
+  }
+
+  res.json(listMessageTypes(team));
+});
+
+// GET /agent/whoami — identity and role as derived from the agent token
+agentRouter.get('/whoami', requireAuth, (_req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  res.json({ agentName: auth.agentName, teamId: auth.teamId, role: auth.role });
+});
+
+// GET /agent/list — used by mcp-client to list team members
 agentRouter.get('/list', requireAuth, async (req, res) => {
   const auth = res.locals['auth'] as AuthToken;
 
@@ -96,8 +191,23 @@ agentRouter.get('/list', requireAuth, async (req, res) => {
   const agents = (await store.listAgents(auth.teamId)).map((a) => ({
     name: a.name,
     connectedAt: a.connectedAt,
+    online: a.connected,
     pendingMessages: a.messageBuffer.length,
   }));
 
   res.json(agents);
 });
+
+// GET /agent/history — query the team's persistent message log (newest first)
+agentRouter.get('/history', requireAuth, validateQuery(historyQuerySchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const query = res.locals['query'] as HistoryQuery;
+
+  const team = await store.getTeam(auth.teamId);
+  if (!team) {
+    res.status(404).json({ error: 'Team not found' });
+    return;
+  }
+
+  res.json(await store.queryHistory(auth.teamId, query));
+});
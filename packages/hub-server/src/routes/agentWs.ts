@@ -0,0 +1,176 @@
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import type { AgentMessage, WsServerFrame } from '@agent-share/shared';
+import { authenticateAgent, recordAuthFailure } from '../middleware/auth.js';
+import { wsClientFrameSchema } from '../middleware/validation.js';
+import { store, connections } from '../store/index.js';
+import { bus } from '../bus/index.js';
+import { drainMailbox, requeueMessages, sendFromAgent } from '../delivery.js';
+import { can } from '../roles.js';
+import { trackSession } from '../sessions.js';
+import { messagesSent } from '../metrics.js';
+import { logger } from '../logger.js';
+import type { AuthToken } from '../types.js';
+import { ConfigLoader, Sections, Keys } from '../config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const keepAliveMs = config.get<number>(Sections.SSE, Keys.KEEP_ALIVE_INTERVAL_MS, 15000);
+
+function reject(socket: Duplex, status: number, reason: string): void {
+  socket.end(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+function upgradeToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice(7);
+  return new URL(req.url ?? '/', 'http://localhost').searchParams.get('api_key') ?? undefined;
+}
+
+/**
+ * GET /agent/ws — one WebSocket per stdio proxy agent carrying what
+ * /agent/stream and POST /agent/send do over separate requests. Frames are
+ * JSON: the agent sends `send`, `list` and `ack`; the hub sends `message`,
+ * `sent`, `agents` and `error`. Messages pushed to the agent stay pending
+ * until acked, and pending ones go back to its mailbox if the socket drops.
+ */
+export function attachAgentWebSocket(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', async (req, socket, head) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/agent/ws') {
+      reject(socket, 404, 'Not Found');
+      return;
+    }
+
+    try {
+      const token = upgradeToken(req);
+      const auth = token ? await authenticateAgent(token) : null;
+      if (!auth) {
+        recordAuthFailure(token ? 'invalid_token' : 'missing_token', { path: '/agent/ws' });
+        reject(socket, 401, 'Unauthorized');
+        return;
+      }
+      if (!(await store.getTeam(auth.teamId))) {
+        reject(socket, 404, 'Not Found');
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, (ws) => serveAgent(ws, auth));
+    } catch (err) {
+      logger.error('ws_upgrade_failed', { err });
+      reject(socket, 500, 'Internal Server Error');
+    }
+  });
+}
+
+function serveAgent(ws: WebSocket, auth: AuthToken): void {
+  const send = (frame: WsServerFrame) => ws.send(JSON.stringify(frame));
+  const pending = new Map<string, AgentMessage>();
+  const key = `${auth.teamId}:${auth.agentName}`;
+  const pushFn = (msg: AgentMessage, notice?: boolean) => {
+    if (!notice) pending.set(msg.id, msg);
+    send({ op: 'message', message: msg });
+  };
+  const untrack = trackSession(auth.teamId, auth.agentName, () => ws.close(1008, 'Session closed'));
+  const openedAt = Date.now();
+
+  const ready = (async () => {
+    // The mailbox queued while the agent was offline stays as it is
+    await store.markConnected(auth.teamId, auth.agentName, uuidv4(), Date.now());
+    connections.set(key, pushFn);
+    await bus.claim(key);
+
+    // Register the push first so nothing lands in the mailbox after it is drained
+    const { notice, messages } = await drainMailbox(auth.teamId, auth.agentName);
+    if (notice) pushFn(notice, true);
+    for (const msg of messages) pushFn(msg);
+    logger.info('session_opened', { transport: 'agent_ws', teamId: auth.teamId, agentName: auth.agentName });
+  })().catch((err) => {
+    logger.error('ws_setup_failed', { teamId: auth.teamId, agentName: auth.agentName, err });
+    ws.close(1011, 'Internal server error');
+  });
+
+  let alive = true;
+  ws.on('pong', () => { alive = true; });
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      ws.terminate();
+      return;
+    }
+    alive = false;
+    ws.ping();
+  }, keepAliveMs);
+
+  ws.on('message', async (data) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data.toString());
+    } catch {
+      send({ op: 'error', error: 'Frames must be JSON' });
+      return;
+    }
+    const parsed = wsClientFrameSchema.safeParse(raw);
+    if (!parsed.success) {
+      const ref = (raw as { ref?: unknown } | null)?.ref;
+      send({ op: 'error', ...(typeof ref === 'string' ? { ref } : {}), error: `Invalid frame: ${parsed.error.issues.map((i) => i.message).join('; ')}` });
+      return;
+    }
+
+    const frame = parsed.data;
+    try {
+      switch (frame.op) {
+        case 'ack':
+          for (const id of frame.ids) pending.delete(id);
+          break;
+        case 'send': {
+          if (!can(auth.role, 'send')) {
+            send({ op: 'error', ref: frame.ref, error: `Role "${auth.role}" is not allowed to send` });
+            break;
+          }
+          const { op: _op, ref, ...outgoing } = frame;
+          const result = await sendFromAgent(auth, outgoing);
+          if (result.ok) messagesSent.inc({ type: outgoing.type, transport: 'ws' });
+          send(result.ok
+            ? { op: 'sent', ref, messageId: result.messageId, recipients: result.recipients }
+            : { op: 'error', ref, error: result.error });
+          break;
+        }
+        case 'list': {
+          const agents = (await store.listAgents(auth.teamId)).map((a) => ({
+            name: a.name,
+            connectedAt: a.connectedAt,
+            online: a.connected,
+            pendingMessages: a.messageBuffer.length,
+          }));
+          send({ op: 'agents', ref: frame.ref, agents });
+          break;
+        }
+      }
+    } catch (err) {
+      logger.error('ws_frame_failed', { teamId: auth.teamId, agentName: auth.agentName, op: frame.op, err });
+      send({ op: 'error', ...('ref' in frame ? { ref: frame.ref } : {}), error: 'Internal server error' });
+    }
+  });
+
+  ws.on('close', (code) => {
+    clearInterval(heartbeat);
+    untrack();
+    void (async () => {
+      await ready;
+      logger.info('session_closed', { transport: 'agent_ws', teamId: auth.teamId, agentName: auth.agentName, code, unacked: pending.size, durationMs: Date.now() - openedAt });
+      const unacked = [...pending.values()];
+      // A newer connection for the same agent may already have replaced this one
+      const current = connections.get(key);
+      if (current && current !== pushFn) {
+        for (const msg of unacked) current(msg);
+        return;
+      }
+      connections.delete(key);
+      await bus.release(key);
+      if (unacked.length) await requeueMessages(auth.teamId, auth.agentName, unacked);
+      await store.setAgentConnected(auth.teamId, auth.agentName, false, Date.now());
+    })().catch((err) => logger.error('session_close_failed', { transport: 'agent_ws', teamId: auth.teamId, agentName: auth.agentName, err }));
+  });
+}
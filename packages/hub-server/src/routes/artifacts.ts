@@ -0,0 +1,144 @@
+import express, { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { sha256Schema } from '../middleware/validation.js';
+import { store } from '../store/index.js';
+import { artifacts } from '../artifacts/index.js';
+import type { ArtifactRecord } from '../artifacts/index.js';
+import type { AuthToken } from '../types.js';
+import { ConfigLoader, Sections, Keys } from '../config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const maxArtifactBytes = config.get<number>(Sections.ARTIFACTS, Keys.MAX_ARTIFACT_BYTES, 26214400);
+const teamQuotaBytes = config.get<number>(Sections.ARTIFACTS, Keys.TEAM_QUOTA_BYTES, 262144000);
+
+export const artifactsRouter = Router();
+
+const parseRaw = express.raw({ type: () => true, limit: maxArtifactBytes });
+
+// express.raw reports an oversized body as an error; answer it here instead of with a 500
+function rawBody(req: Request, res: Response, next: NextFunction): void {
+  parseRaw(req, res, (err?: { type?: string }) => {
+    if (err?.type === 'entity.too.large') {
+      res.status(413).json({ error: `Artifacts are limited to ${maxArtifactBytes} bytes` });
+      return;
+    }
+    if (err) {
+      res.status(400).json({ error: 'Could not read upload body' });
+      return;
+    }
+    next();
+  });
+}
+
+function validateSha(req: Request, res: Response, next: NextFunction): void {
+  if (!sha256Schema.safeParse(req.params['sha256']).success) {
+    res.status(400).json({ error: 'Expected a lowercase hex SHA-256' });
+    return;
+  }
+  next();
+}
+
+// The X-Filename header, URI-decoded; null when it is not valid percent-encoding
+function headerFilename(req: Request): string | undefined | null {
+  const raw = req.header('X-Filename');
+  if (raw === undefined) return undefined;
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return null;
+  }
+}
+
+function usage(records: ArtifactRecord[]): number {
+  return records.reduce((sum, r) => sum + r.size, 0);
+}
+
+// GET /artifacts — the team's artifacts and how much of its quota they use
+artifactsRouter.get('/', requireAuth, requirePermission('read'), async (_req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const records = await artifacts.listArtifacts(auth.teamId);
+  res.json({ usedBytes: usage(records), quotaBytes: teamQuotaBytes, artifacts: records });
+});
+
+// PUT /artifacts/:sha256 — upload raw bytes under their SHA-256. Optional headers:
+// Content-Type, X-Filename (URI-encoded). Re-uploading existing content is a no-op
+artifactsRouter.put('/:sha256', requireAuth, requirePermission('send'), validateSha, rawBody, async (req, res, next) => {
+  try {
+    const auth = res.locals['auth'] as AuthToken;
+    const sha256 = req.params['sha256'];
+    const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+    const filename = headerFilename(req);
+    if (filename === null) {
+      res.status(400).json({ error: 'X-Filename must be URI-encoded' });
+      return;
+    }
+
+    const team = await store.getTeam(auth.teamId);
+    if (!team) {
+      res.status(404).json({ error: 'Team not found' });
+      return;
+    }
+
+    if (createHash('sha256').update(data).digest('hex') !== sha256) {
+      res.status(400).json({ error: 'Body does not match the SHA-256 in the URL' });
+      return;
+    }
+
+    const record: ArtifactRecord = {
+      sha256,
+      size: data.length,
+      contentType: req.header('Content-Type') ?? 'application/octet-stream',
+      ...(filename ? { filename } : {}),
+      uploadedBy: auth.agentName,
+      createdAt: Date.now(),
+    };
+    const result = await artifacts.putArtifact(auth.teamId, record, data, teamQuotaBytes);
+    if (!result.ok) {
+      res.status(413).json({ error: `Team artifact quota of ${teamQuotaBytes} bytes exceeded` });
+      return;
+    }
+
+    res.status(result.created ? 201 : 200).json(result.record);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /artifacts/:sha256 — download an artifact's bytes
+artifactsRouter.get('/:sha256', requireAuth, requirePermission('read'), validateSha, async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const sha256 = req.params['sha256'];
+
+  const [record, data] = await Promise.all([
+    artifacts.getArtifact(auth.teamId, sha256),
+    artifacts.readArtifact(auth.teamId, sha256),
+  ]);
+  if (!record || !data) {
+    res.status(404).json({ error: 'Artifact not found' });
+    return;
+  }
+
+  res.setHeader('Content-Type', record.contentType);
+  res.setHeader('Content-Length', data.length);
+  if (record.filename) {
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(record.filename)}`);
+  }
+  res.send(data);
+});
+
+// DELETE /artifacts/:sha256 — free quota; messages that reference it keep the dangling reference
+artifactsRouter.delete('/:sha256', requireAuth, requirePermission('manage_team'), validateSha, async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const sha256 = req.params['sha256'];
+
+  if (!(await artifacts.getArtifact(auth.teamId, sha256))) {
+    res.status(404).json({ error: 'Artifact not found' });
+    return;
+  }
+
+  await artifacts.deleteArtifact(auth.teamId, sha256);
+  res.json({ ok: true, sha256 });
+});
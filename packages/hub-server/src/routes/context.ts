@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { validate, contextKeySchema, setContextSchema } from '../middleware/validation.js';
+import { store } from '../store/index.js';
+import { writeContext } from '../context.js';
+import type { AuthToken } from '../types.js';
+
+export const contextRouter = Router();
+
+// GET /context — every entry on the team blackboard, sorted by key
+contextRouter.get('/', requireAuth, requirePermission('read'), async (_req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  res.json(await store.listContext(auth.teamId));
+});
+
+// GET /context/:key — one entry with its version and author
+contextRouter.get('/:key', requireAuth, requirePermission('read'), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const entry = await store.getContext(auth.teamId, req.params['key']);
+  if (!entry) {
+    res.status(404).json({ error: 'Context key not found' });
+    return;
+  }
+  res.json(entry);
+});
+
+// PUT /context/:key { value, expectedVersion? } — write a key; with expectedVersion
+// the write only happens if the key is still at that version (409 with the current entry otherwise)
+contextRouter.put('/:key', requireAuth, requirePermission('send'), validate(setContextSchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const key = req.params['key'];
+  const { value, expectedVersion } = req.body as { value: string; expectedVersion?: number };
+
+  if (!contextKeySchema.safeParse(key).success) {
+    res.status(400).json({ error: 'Context keys use letters, digits, ".", "_", ":" or "-" (max 128)' });
+    return;
+  }
+
+  const result = await writeContext(auth.teamId, auth.agentName, key, value, expectedVersion);
+  if ('error' in result) {
+    res.status(409).json({ error: result.error });
+    return;
+  }
+  if (!result.ok) {
+    res.status(409).json({ error: 'Version conflict', current: result.current });
+    return;
+  }
+  res.json(result.entry);
+});
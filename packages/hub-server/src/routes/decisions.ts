@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { exportAdrs, searchDecisions } from '@agent-share/shared';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { validateQuery, decisionQuerySchema } from '../middleware/validation.js';
+import { listDecisions } from '../decisions.js';
+import type { AuthToken } from '../types.js';
+
+export const decisionsRouter = Router();
+
+// GET /decisions?q=&includeSuperseded= — the decision log, oldest first, numbered as ADRs
+decisionsRouter.get('/', requireAuth, requirePermission('read'), validateQuery(decisionQuerySchema), async (_req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const { q, includeSuperseded } = res.locals['query'] as { q?: string; includeSuperseded?: boolean };
+  res.json(searchDecisions(await listDecisions(auth.teamId), { query: q, includeSuperseded }));
+});
+
+// GET /decisions/export — every decision, superseded ones included, as ADR Markdown files
+decisionsRouter.get('/export', requireAuth, requirePermission('read'), async (_req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  res.json({ files: exportAdrs(await listDecisions(auth.teamId)) });
+});
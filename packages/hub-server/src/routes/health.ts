@@ -1,17 +1,28 @@
 import { Router } from 'express';
-import { store } from '../store/index.js';
+import { store, storeBackend } from '../store/index.js';
+import { logger } from '../logger.js';
 
 export const healthRouter = Router();
 
 healthRouter.get('/', async (_req, res) => {
+  try {
+    await store.healthCheck();
+  } catch (err) {
+    logger.error('store_unhealthy', { backend: storeBackend, err });
+    res.status(503).json({ status: 'error', error: `Store unavailable: ${(err as Error).message}` });
+    return;
+  }
+
   const teams = await store.listTeams();
   const agentCounts = await Promise.all(teams.map((t) => store.listAgents(t.id)));
-  const agentCount = agentCounts.reduce((n, agents) => n + agents.length, 0);
+  const agentCount = agentCounts.reduce((n, agents) => n + agents.filter((a) => a.connected).length, 0);
+  const memberCount = agentCounts.reduce((n, agents) => n + agents.length, 0);
 
   res.json({
     status: 'ok',
     uptime: process.uptime(),
     teams: teams.length,
     agents: agentCount,
+    members: memberCount,
   });
 });
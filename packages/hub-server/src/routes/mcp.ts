@@ -0,0 +1,139 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { requireAuth } from '../middleware/auth.js';
+import { createStreamableMcpServer, findStreamableSession, streamableSessions } from '../mcp/server.js';
+import type { StreamableSession } from '../mcp/server.js';
+import { store } from '../store/index.js';
+import { trackSession } from '../sessions.js';
+import { logger } from '../logger.js';
+import type { AuthToken } from '../types.js';
+import { ConfigLoader, Sections, Keys } from '../config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const maxAgents = config.get<number>(Sections.TEAM, Keys.MAX_AGENTS_PER_TEAM, 20);
+const idleTimeoutMs = config.get<number>(Sections.MCP, Keys.SESSION_IDLE_TIMEOUT_MS, 30 * 60 * 1000);
+
+export const mcpRouter = Router();
+
+// Unlike /sse, a Streamable HTTP session outlives any one connection, so
+// sessions that are never DELETEd are closed once idle
+setInterval(() => {
+  const cutoff = Date.now() - idleTimeoutMs;
+  for (const session of streamableSessions.values()) {
+    if (session.openRequests === 0 && session.lastSeen < cutoff) void session.transport.close();
+  }
+}, Math.min(idleTimeoutMs, 60_000)).unref();
+
+/**
+ * The caller's session, or null after answering 400/404/421. Sessions live on
+ * the instance that opened them, so a load balancer must route /mcp with sticky
+ * sessions on Mcp-Session-Id; a request that reaches another instance gets 421.
+ */
+async function findSession(req: Request, res: Response): Promise<StreamableSession | null> {
+  const auth = res.locals['auth'] as AuthToken;
+  const sessionId = req.header('mcp-session-id');
+  if (!sessionId) {
+    res.status(400).json({ error: 'Missing Mcp-Session-Id header' });
+    return null;
+  }
+  const session = await findStreamableSession(sessionId, auth);
+  if (session === 'elsewhere') {
+    res.status(421).json({ error: 'Session is held by another hub instance — route /mcp with sticky sessions on Mcp-Session-Id' });
+    return null;
+  }
+  if (!session) {
+    res.status(404).json({ error: 'Session not found' });
+    return null;
+  }
+  return session;
+}
+
+async function handle(session: StreamableSession, req: Request, res: Response): Promise<void> {
+  session.openRequests++;
+  session.lastSeen = Date.now();
+  res.on('close', () => {
+    session.openRequests--;
+    session.lastSeen = Date.now();
+  });
+  await session.transport.handleRequest(req, res, req.body);
+}
+
+// POST /mcp — an initialize request without Mcp-Session-Id opens a session;
+// every other JSON-RPC message must carry the session's id
+mcpRouter.post('/', requireAuth, async (req, res, next) => {
+  const auth = res.locals['auth'] as AuthToken;
+
+  try {
+    if (req.header('mcp-session-id')) {
+      const session = await findSession(req, res);
+      if (session) await handle(session, req, res);
+      return;
+    }
+
+    if (!isInitializeRequest(req.body)) {
+      res.status(400).json({ error: 'Expected an initialize request or an Mcp-Session-Id header' });
+      return;
+    }
+
+    const team = await store.getTeam(auth.teamId);
+    if (!team) {
+      res.status(404).json({ error: 'Team not found' });
+      return;
+    }
+
+    const members = await store.listAgents(auth.teamId);
+    const isMember = members.some((a) => a.name === auth.agentName);
+    if (!isMember && members.length >= maxAgents) {
+      res.status(429).json({ error: 'Team agent limit reached' });
+      return;
+    }
+
+    let untrack = () => {};
+    const openedAt = Date.now();
+    const transport = await createStreamableMcpServer(auth, (sessionId) => {
+      untrack();
+      logger.info('session_closed', { transport: 'mcp', sessionId, teamId: auth.teamId, agentName: auth.agentName, durationMs: Date.now() - openedAt });
+      // A newer session for the same agent may already have replaced this one
+      void store.getAgent(auth.teamId, auth.agentName)
+        .then((current) => {
+          if (current?.sessionId === sessionId) return store.setAgentConnected(auth.teamId, auth.agentName, false, Date.now());
+        })
+        .catch((err) => logger.error('session_close_failed', { transport: 'mcp', sessionId, teamId: auth.teamId, agentName: auth.agentName, err }));
+    });
+
+    await transport.handleRequest(req, res, req.body);
+
+    const sessionId = transport.sessionId;
+    if (!sessionId || !streamableSessions.has(sessionId)) return;
+
+    // Keep the mailbox queued while offline — it is read via agent_hub_receive
+    await store.markConnected(auth.teamId, auth.agentName, sessionId, Date.now());
+
+    untrack = trackSession(auth.teamId, auth.agentName, () => void transport.close());
+    logger.info('session_opened', { transport: 'mcp', sessionId, teamId: auth.teamId, agentName: auth.agentName });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// GET /mcp — the session's stream of server-initiated messages; send
+// Last-Event-ID to resume after a dropped connection
+mcpRouter.get('/', requireAuth, async (req, res, next) => {
+  try {
+    const session = await findSession(req, res);
+    if (session) await handle(session, req, res);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// DELETE /mcp — end the session
+mcpRouter.delete('/', requireAuth, async (req, res, next) => {
+  try {
+    const session = await findSession(req, res);
+    if (session) await handle(session, req, res);
+  } catch (err) {
+    next(err);
+  }
+});
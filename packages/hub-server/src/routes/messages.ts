@@ -1,5 +1,8 @@
 import { Router } from 'express';
+import { JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
 import { sseTransports } from '../mcp/server.js';
+import { bus } from '../bus/index.js';
+import { logger } from '../logger.js';
 
 export const messagesRouter = Router();
 
@@ -7,10 +10,27 @@ messagesRouter.post('/:sessionId', async (req, res) => {
   const { sessionId } = req.params;
   const transport = sseTransports.get(sessionId);
 
-  if (!transport) {
-    res.status(404).json({ error: 'Session not found' });
+  if (transport) {
+    await transport.handlePostMessage(req, res, req.body);
     return;
   }
 
-  await transport.handlePostMessage(req, res);
+  // The session's stream may be open on another hub instance
+  if (!JSONRPCMessageSchema.safeParse(req.body).success) {
+    res.status(400).json({ error: 'Invalid message' });
+    return;
+  }
+  let forwarded: boolean;
+  try {
+    forwarded = await bus.publish(`mcp:${sessionId}`, { type: 'mcp_message', body: req.body });
+  } catch (err) {
+    logger.error('bus_publish_failed', { key: `mcp:${sessionId}`, type: 'mcp_message', err });
+    res.status(503).json({ error: 'Session unreachable, retry' });
+    return;
+  }
+  if (!forwarded) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+  res.status(202).end('Accepted');
 });
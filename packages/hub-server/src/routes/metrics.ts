@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { store, connections } from '../store/index.js';
+import { sseTransports, streamableSessions } from '../mcp/server.js';
+import { hashApiKey } from '../auth.js';
+import { recordAuthFailure } from '../middleware/auth.js';
+import { registry, sessions, queuedMessages, maxMailboxDepth } from '../metrics.js';
+import { ConfigLoader, Sections, Keys } from '../config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const bearerToken = config.get(Sections.METRICS, Keys.BEARER_TOKEN, '');
+
+export const metricsRouter = Router();
+
+// GET /metrics — Prometheus text format. Open unless `[metrics] bearer_token` is set
+metricsRouter.get('/', async (req, res) => {
+  if (bearerToken) {
+    const header = req.headers.authorization;
+    // Compare digests so the check takes the same time however much of the token matches
+    if (!header?.startsWith('Bearer ') || hashApiKey(header.slice(7)) !== hashApiKey(bearerToken)) {
+      recordAuthFailure(header ? 'invalid_token' : 'missing_token', { path: '/metrics' });
+      res.status(401).json({ error: 'Invalid metrics token' });
+      return;
+    }
+  }
+
+  // Gauges describe this instance's sessions and the shared store at scrape time
+  sessions.set({ transport: 'sse' }, sseTransports.size);
+  sessions.set({ transport: 'mcp' }, streamableSessions.size);
+  sessions.set({ transport: 'agent' }, connections.size);
+
+  let online = 0;
+  let offline = 0;
+  let deepest = 0;
+  for (const team of await store.listTeams()) {
+    for (const agent of await store.listAgents(team.id)) {
+      if (agent.connected) online += agent.messageBuffer.length;
+      else offline += agent.messageBuffer.length;
+      deepest = Math.max(deepest, agent.messageBuffer.length);
+    }
+  }
+  queuedMessages.set({ state: 'online' }, online);
+  queuedMessages.set({ state: 'offline' }, offline);
+  maxMailboxDepth.set(deepest);
+
+  res.set('Content-Type', registry.contentType);
+  res.send(await registry.metrics());
+});
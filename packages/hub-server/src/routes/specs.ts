@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { diffSpecs, viewSpec } from '@agent-share/shared';
+import type { SpecDiffQuery, SpecQuery } from '@agent-share/shared';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { validateQuery, specQuerySchema, specDiffQuerySchema } from '../middleware/validation.js';
+import { listSpecServices, loadServiceVersions } from '../specs.js';
+import type { AuthToken } from '../types.js';
+
+export const specsRouter = Router();
+
+// GET /specs — every service in the registry with its latest revision
+specsRouter.get('/', requireAuth, requirePermission('read'), async (_req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  res.json(await listSpecServices(auth.teamId));
+});
+
+// GET /specs/:service?revision=&method=&path= — the service's live endpoints,
+// or one endpoint with the revisions that published it
+specsRouter.get('/:service', requireAuth, requirePermission('read'), validateQuery(specQuerySchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const service = req.params['service'];
+  const versions = await loadServiceVersions(auth.teamId, service);
+  if (versions.length === 0) {
+    res.status(404).json({ error: 'Service not found' });
+    return;
+  }
+
+  const result = viewSpec(service, versions, res.locals['query'] as SpecQuery);
+  if ('error' in result) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  if ('endpoint' in result.view && !result.view.endpoint) {
+    res.status(404).json({ error: `Endpoint not in ${service} at revision ${result.view.revision}`, versions: result.view.versions });
+    return;
+  }
+  res.json(result.view);
+});
+
+// GET /specs/:service/diff?from=&to=&method=&path= — structural changes between two revisions
+specsRouter.get('/:service/diff', requireAuth, requirePermission('read'), validateQuery(specDiffQuerySchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const service = req.params['service'];
+  const versions = await loadServiceVersions(auth.teamId, service);
+  if (versions.length === 0) {
+    res.status(404).json({ error: 'Service not found' });
+    return;
+  }
+
+  const result = diffSpecs(service, versions, res.locals['query'] as SpecDiffQuery);
+  if ('error' in result) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  res.json(result.diff);
+});
@@ -3,6 +3,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { requireAuth } from '../middleware/auth.js';
 import { createAgentMcpServer } from '../mcp/server.js';
 import { store } from '../store/index.js';
+import { trackSession } from '../sessions.js';
+import { logger } from '../logger.js';
 import type { AuthToken } from '../types.js';
 import { ConfigLoader, Sections, Keys } from '../config/index.js';
 
@@ -21,8 +23,9 @@ sseRouter.get('/', requireAuth, async (req, res, next) => {
     return;
   }
 
-  const agentCount = (await store.listAgents(auth.teamId)).length;
-  if (agentCount >= maxAgents) {
+  const members = await store.listAgents(auth.teamId);
+  const isMember = members.some((a) => a.name === auth.agentName);
+  if (!isMember && members.length >= maxAgents) {
     res.status(429).json({ error: 'Team agent limit reached' });
     return;
   }
@@ -38,17 +41,21 @@ sseRouter.get('/', requireAuth, async (req, res, next) => {
   try {
     const transport = await createAgentMcpServer(auth, res);
 
-    await store.saveAgent({
-      name: auth.agentName,
-      teamId: auth.teamId,
-      sessionId: transport.sessionId,
-      connectedAt: Date.now(),
-      messageBuffer: [],
-    });
+    // Keep the mailbox queued while offline — it is read via agent_hub_receive
+    await store.markConnected(auth.teamId, auth.agentName, transport.sessionId, Date.now());
+
+    const untrack = trackSession(auth.teamId, auth.agentName, () => res.end());
+    const openedAt = Date.now();
+    logger.info('session_opened', { transport: 'sse', sessionId: transport.sessionId, teamId: auth.teamId, agentName: auth.agentName });
 
     res.on('close', async () => {
       clearInterval(keepAlive);
-      await store.removeAgent(auth.teamId, auth.agentName);
+      untrack();
+      logger.info('session_closed', { transport: 'sse', sessionId: transport.sessionId, teamId: auth.teamId, agentName: auth.agentName, durationMs: Date.now() - openedAt });
+      // A newer session for the same agent may already have replaced this one
+      const current = await store.getAgent(auth.teamId, auth.agentName);
+      if (current?.sessionId !== transport.sessionId) return;
+      await store.setAgentConnected(auth.teamId, auth.agentName, false, Date.now());
     });
   } catch (err) {
     clearInterval(keepAlive);
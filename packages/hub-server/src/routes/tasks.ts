@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import type { Response } from 'express';
+import type { TaskUpdateResult } from '@agent-share/shared';
+import { requireAuth, requirePermission } from '../middleware/auth.js';
+import { validate, validateQuery, taskQuerySchema, completeTaskSchema } from '../middleware/validation.js';
+import { store } from '../store/index.js';
+import type { TaskStatus } from '../store/index.js';
+import { updateTask } from '../tasks.js';
+import type { AuthToken } from '../types.js';
+
+export const tasksRouter = Router();
+
+function sendResult(res: Response, result: TaskUpdateResult): void {
+  if (result.ok) {
+    res.json(result.task);
+    return;
+  }
+  res.status(result.task ? 409 : 404).json({ error: result.error, ...(result.task ? { task: result.task } : {}) });
+}
+
+// GET /tasks?status= — the team board, oldest first. Tasks are opened by sending `todo` messages
+tasksRouter.get('/', requireAuth, requirePermission('read'), validateQuery(taskQuerySchema), async (_req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const { status } = res.locals['query'] as { status?: TaskStatus };
+  const tasks = await store.listTasks(auth.teamId);
+  res.json(status ? tasks.filter((t) => t.status === status) : tasks);
+});
+
+// GET /tasks/:id — one task with its history
+tasksRouter.get('/:id', requireAuth, requirePermission('read'), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const task = await store.getTask(auth.teamId, req.params['id']);
+  if (!task) {
+    res.status(404).json({ error: 'Task not found' });
+    return;
+  }
+  res.json(task);
+});
+
+// POST /tasks/:id/claim — take an open task; 409 with the task if someone else holds it
+tasksRouter.post('/:id/claim', requireAuth, requirePermission('send'), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  sendResult(res, await updateTask(auth.teamId, auth.agentName, req.params['id'], 'claim'));
+});
+
+// POST /tasks/:id/complete { note? } — finish an open task or one you claimed
+tasksRouter.post('/:id/complete', requireAuth, requirePermission('send'), validate(completeTaskSchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const { note } = req.body as { note?: string };
+  sendResult(res, await updateTask(auth.teamId, auth.agentName, req.params['id'], 'complete', note));
+});
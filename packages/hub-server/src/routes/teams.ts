@@ -1,23 +1,352 @@
 import { Router } from 'express';
+import type { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import { isBuiltinType } from '@agent-share/shared';
+import type { PayloadSchema } from '@agent-share/shared';
 import { store } from '../store/index.js';
-import { generateApiKey, hashApiKey } from '../auth.js';
+import { artifacts } from '../artifacts/index.js';
+import type { TeamRecord, TeamKeyRecord, MessageTypeRecord, RetentionRule } from '../store/index.js';
+import { generateAgentToken, generateApiKey, hashApiKey } from '../auth.js';
+import { requireAuth, requirePermission, requireOwnTeam } from '../middleware/auth.js';
+import { validate, createTeamSchema, renameTeamSchema, createTeamKeySchema, rotateTeamKeySchema, setRoleSchema, createMessageTypeSchema, setRetentionSchema } from '../middleware/validation.js';
+import { listMessageTypes } from '../messageTypes.js';
+import type { AuthToken, Role } from '../types.js';
+import { closeAgentSessions, closeTeamSessions } from '../sessions.js';
+import { moveKeyCredentials, revokeKeyCredentials } from '../keys.js';
+import { openMailbox } from '../delivery.js';
+import { ConfigLoader, Sections, Keys } from '../config/index.js';
+
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
+const rotationGraceMs = config.get<number>(Sections.TEAM, Keys.KEY_ROTATION_GRACE_MS, 86400000);
+const maxMessageTypes = config.get<number>(Sections.TEAM, Keys.MAX_MESSAGE_TYPES, 50);
 
 export const teamsRouter = Router();
 
-teamsRouter.post('/create', async (_req, res) => {
+// Never expose hashes — only what an admin needs to pick a key to revoke
+function describeKey(k: TeamKeyRecord) {
+  return { id: k.id, label: k.label, role: k.role ?? 'member', createdAt: k.createdAt, expiresAt: k.expiresAt ?? null };
+}
+
+// Secondary keys whose expiry has passed are dropped whenever the team is rewritten
+function liveKeys(team: TeamRecord, now: number): TeamKeyRecord[] {
+  return (team.keys ?? []).filter((k) => k.expiresAt === undefined || k.expiresAt > now);
+}
+
+async function loadTeam(_req: Request, res: Response, next: NextFunction): Promise<void> {
+  const auth = res.locals['auth'] as AuthToken;
+  const team = await store.getTeam(auth.teamId);
+  if (!team) {
+    res.status(404).json({ error: 'Team not found' });
+    return;
+  }
+  res.locals['team'] = team;
+  next();
+}
+
+// Read-only routes are open to any member; the rest are owner-only. Both act on the caller's own team
+const requireTeamMember = [requireAuth, requireOwnTeam, loadTeam];
+const requireTeamAdmin = [requireAuth, requirePermission('manage_team'), requireOwnTeam, loadTeam];
+
+// POST /teams/create — the creator is registered in the same step as the
+// team's owner, so ownership never depends on who registers first
+teamsRouter.post('/create', validate(createTeamSchema), async (req, res) => {
+  const { name, agentName } = req.body as { name?: string; agentName: string };
   const teamId = uuidv4();
   const apiKey = generateApiKey();
+  const agentToken = generateAgentToken();
+  const now = Date.now();
 
   await store.createTeam({
     id: teamId,
+    ...(name !== undefined ? { name } : {}),
     apiKeyHash: hashApiKey(apiKey),
-    createdAt: Date.now(),
+    createdAt: now,
+  });
+  await store.createAgentCredential({
+    teamId,
+    agentName,
+    tokenHash: hashApiKey(agentToken),
+    createdAt: now,
+    keyHash: hashApiKey(apiKey),
+    role: 'owner',
   });
+  await openMailbox(teamId, agentName);
 
   res.status(201).json({
     teamId,
+    name: name ?? null,
     apiKey,
+    agentName,
+    role: 'owner',
+    agentToken,
     message: 'Team created. Share the teamId and apiKey with your collaborators.',
   });
 });
+
+// GET /teams/:teamId — team metadata
+teamsRouter.get('/:teamId', ...requireTeamMember, async (_req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const agents = await store.listAgents(team.id);
+
+  res.json({
+    id: team.id,
+    name: team.name ?? null,
+    createdAt: team.createdAt,
+    members: agents.length,
+    online: agents.filter((a) => a.connected).length,
+    keys: liveKeys(team, Date.now()).length,
+  });
+});
+
+// GET /teams/:teamId/members — every registered agent with its role and presence
+teamsRouter.get('/:teamId/members', ...requireTeamMember, async (_req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const [creds, agents] = await Promise.all([store.listAgentCredentials(team.id), store.listAgents(team.id)]);
+  const byName = new Map(agents.map((a) => [a.name, a]));
+
+  res.json(creds.map((c) => {
+    const agent = byName.get(c.agentName);
+    return {
+      name: c.agentName,
+      role: c.role ?? 'member',
+      registeredAt: c.createdAt,
+      online: agent?.connected ?? false,
+      connectedAt: agent?.connectedAt || null, // 0 until its first connection
+      pendingMessages: agent?.messageBuffer.length ?? 0,
+    };
+  }));
+});
+
+// PATCH /teams/:teamId — rename the team
+teamsRouter.patch('/:teamId', ...requireTeamAdmin, validate(renameTeamSchema), async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const { name } = req.body as { name: string };
+
+  await store.updateTeam({ ...team, name });
+  res.json({ id: team.id, name });
+});
+
+// DELETE /teams/:teamId — disconnect everyone and delete the team with all its data
+teamsRouter.delete('/:teamId', ...requireTeamAdmin, async (_req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+
+  await store.deleteTeam(team.id);
+  await artifacts.deleteTeamArtifacts(team.id);
+  const disconnected = closeTeamSessions(team.id);
+
+  res.json({ ok: true, disconnected });
+});
+
+// DELETE /teams/:teamId/agents/:agentName — kick an agent: revoke its token,
+// drop its membership and mailbox, and close its live stream/MCP sessions
+teamsRouter.delete('/:teamId/agents/:agentName', ...requireTeamAdmin, async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const agentName = req.params['agentName'];
+
+  const creds = await store.listAgentCredentials(team.id);
+  const cred = creds.find((c) => c.agentName === agentName);
+  const agent = await store.getAgent(team.id, agentName);
+  if (!cred && !agent) {
+    res.status(404).json({ error: 'Agent not found' });
+    return;
+  }
+
+  if (cred?.role === 'owner' && creds.filter((c) => c.role === 'owner').length === 1) {
+    res.status(409).json({ error: 'Cannot remove the last owner of a team' });
+    return;
+  }
+
+  await store.removeAgentCredential(team.id, agentName);
+  await store.removeAgent(team.id, agentName);
+  for (const channel of await store.listChannels(team.id)) {
+    if (channel.subscribers.includes(agentName)) await store.unsubscribe(team.id, channel.name, agentName);
+  }
+  const disconnected = closeAgentSessions(team.id, agentName);
+
+  res.json({ ok: true, agentName, disconnected });
+});
+
+// POST /teams/:teamId/agents/:agentName/token — issue a teammate a new token,
+// e.g. after it lost the old one. The old token stops working and its sessions close
+teamsRouter.post('/:teamId/agents/:agentName/token', ...requireTeamAdmin, async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const cred = await store.getAgentCredential(team.id, req.params['agentName']);
+  if (!cred) {
+    res.status(404).json({ error: 'Agent not registered' });
+    return;
+  }
+
+  const agentToken = generateAgentToken();
+  await store.saveAgentCredential({ ...cred, tokenHash: hashApiKey(agentToken) });
+  const disconnected = closeAgentSessions(team.id, cred.agentName);
+
+  res.json({ agentName: cred.agentName, role: cred.role ?? 'member', agentToken, disconnected });
+});
+
+// GET /teams/:teamId/keys — list secondary keys
+teamsRouter.get('/:teamId/keys', ...requireTeamAdmin, async (_req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  res.json(liveKeys(team, Date.now()).map(describeKey));
+});
+
+// POST /teams/:teamId/keys — mint an additional labelled key, optionally expiring
+teamsRouter.post('/:teamId/keys', ...requireTeamAdmin, validate(createTeamKeySchema), async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const { label, expiresInMs, role } = req.body as { label: string; expiresInMs?: number; role: 'member' | 'observer' };
+  const now = Date.now();
+
+  const apiKey = generateApiKey();
+  const key: TeamKeyRecord = {
+    id: uuidv4(),
+    label,
+    hash: hashApiKey(apiKey),
+    createdAt: now,
+    role,
+    ...(expiresInMs !== undefined ? { expiresAt: now + expiresInMs } : {}),
+  };
+
+  await store.updateTeam({ ...team, keys: [...liveKeys(team, now), key] });
+
+  res.status(201).json({ ...describeKey(key), apiKey });
+});
+
+// POST /teams/:teamId/keys/rotate — replace the primary key; the old one keeps
+// working as a secondary key for the grace period so teammates can switch over.
+// Tokens already registered with it stay valid and move to the new key, so that
+// revoking the old one only reaches agents that registered with it since. For a
+// leaked key, revokeCredentials drops those tokens instead and retires the old
+// key at once; the caller's own token moves over so it can finish the cleanup
+teamsRouter.post('/:teamId/keys/rotate', ...requireTeamAdmin, validate(rotateTeamKeySchema), async (req, res) => {
+  const auth = res.locals['auth'] as AuthToken;
+  const team = res.locals['team'] as TeamRecord;
+  const { revokeCredentials = false, graceMs = revokeCredentials ? 0 : rotationGraceMs } = req.body as { graceMs?: number; revokeCredentials?: boolean };
+  const now = Date.now();
+
+  const keys = liveKeys(team, now);
+  let previous: TeamKeyRecord | undefined;
+  if (graceMs > 0) {
+    previous = { id: uuidv4(), label: 'previous primary', hash: team.apiKeyHash, createdAt: now, expiresAt: now + graceMs };
+    keys.push(previous);
+  }
+
+  const apiKey = generateApiKey();
+  const apiKeyHash = hashApiKey(apiKey);
+  await store.updateTeam({ ...team, apiKeyHash, keys });
+
+  let revokedAgents: string[] = [];
+  if (revokeCredentials) {
+    const own = (await store.listAgentCredentials(team.id)).find((c) => c.agentName === auth.agentName && c.keyHash === team.apiKeyHash);
+    if (own) await store.saveAgentCredential({ ...own, keyHash: apiKeyHash });
+    revokedAgents = await revokeKeyCredentials(store, team.id, team.apiKeyHash);
+  } else {
+    await moveKeyCredentials(store, team.id, team.apiKeyHash, apiKeyHash);
+  }
+
+  res.json({ apiKey, previousKey: previous ? describeKey(previous) : null, revokedAgents });
+});
+
+// DELETE /teams/:teamId/keys/:keyId — revoke a secondary key, together with every
+// agent credential registered through it, and disconnect those agents
+teamsRouter.delete('/:teamId/keys/:keyId', ...requireTeamAdmin, async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const key = team.keys?.find((k) => k.id === req.params['keyId']);
+
+  if (!key) {
+    res.status(404).json({ error: 'Key not found' });
+    return;
+  }
+
+  await store.updateTeam({ ...team, keys: liveKeys(team, Date.now()).filter((k) => k.id !== key.id) });
+
+  const revokedAgents = await revokeKeyCredentials(store, team.id, key.hash);
+
+  res.json({ ok: true, revokedAgents });
+});
+
+// PUT /teams/:teamId/agents/:agentName/role — change a teammate's role
+teamsRouter.put('/:teamId/agents/:agentName/role', ...requireTeamAdmin, validate(setRoleSchema), async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const { role } = req.body as { role: Role };
+
+  const creds = await store.listAgentCredentials(team.id);
+  const cred = creds.find((c) => c.agentName === req.params['agentName']);
+  if (!cred) {
+    res.status(404).json({ error: 'Agent not registered' });
+    return;
+  }
+
+  const owners = creds.filter((c) => c.role === 'owner');
+  if (cred.role === 'owner' && role !== 'owner' && owners.length === 1) {
+    res.status(409).json({ error: 'A team must keep at least one owner' });
+    return;
+  }
+
+  await store.saveAgentCredential({ ...cred, role });
+  res.json({ agentName: cred.agentName, role });
+});
+
+// GET /teams/:teamId/message-types — built-in and team-defined message types
+teamsRouter.get('/:teamId/message-types', ...requireTeamMember, async (_req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  res.json(listMessageTypes(team));
+});
+
+// POST /teams/:teamId/message-types — register a custom message type, optionally with a payload schema.
+// Connected agents see it in their tool descriptions on their next connect
+teamsRouter.post('/:teamId/message-types', ...requireTeamAdmin, validate(createMessageTypeSchema), async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const { name, description, payloadSchema } = req.body as { name: string; description: string; payloadSchema?: PayloadSchema };
+
+  const existing = team.messageTypes ?? [];
+  if (isBuiltinType(name) || existing.some((t) => t.name === name)) {
+    res.status(409).json({ error: `Message type "${name}" already exists` });
+    return;
+  }
+  if (existing.length >= maxMessageTypes) {
+    res.status(409).json({ error: `A team can define at most ${maxMessageTypes} message types` });
+    return;
+  }
+
+  const type: MessageTypeRecord = {
+    name,
+    description,
+    ...(payloadSchema ? { payloadSchema } : {}),
+    createdAt: Date.now(),
+  };
+  await store.updateTeam({ ...team, messageTypes: [...existing, type] });
+
+  res.status(201).json({ name, description, builtin: false, ...(payloadSchema ? { payloadSchema } : {}) });
+});
+
+// DELETE /teams/:teamId/message-types/:name — remove a custom type; past messages keep it in history
+teamsRouter.delete('/:teamId/message-types/:name', ...requireTeamAdmin, async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const name = req.params['name'];
+
+  if (isBuiltinType(name)) {
+    res.status(400).json({ error: 'Built-in message types cannot be removed' });
+    return;
+  }
+  const existing = team.messageTypes ?? [];
+  if (!existing.some((t) => t.name === name)) {
+    res.status(404).json({ error: 'Message type not found' });
+    return;
+  }
+
+  await store.updateTeam({ ...team, messageTypes: existing.filter((t) => t.name !== name) });
+  res.json({ ok: true, name });
+});
+
+// GET /teams/:teamId/retention — the team's mailbox retention rules
+teamsRouter.get('/:teamId/retention', ...requireTeamMember, async (_req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  res.json({ rules: team.retention ?? [] });
+});
+
+// PUT /teams/:teamId/retention — replace the rules; the janitor applies them on its next sweep
+teamsRouter.put('/:teamId/retention', ...requireTeamAdmin, validate(setRetentionSchema), async (req, res) => {
+  const team = res.locals['team'] as TeamRecord;
+  const { rules } = req.body as { rules: RetentionRule[] };
+  await store.updateTeam({ ...team, retention: rules });
+  res.json({ rules });
+});
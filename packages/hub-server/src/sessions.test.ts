@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { trackSession, closeAgentSessions, closeTeamSessions } from './sessions.js';
+
+describe('closeAgentSessions', () => {
+  it('closes every tracked session of the agent', () => {
+    const a = vi.fn();
+    const b = vi.fn();
+    trackSession('team-1', 'alice', a);
+    trackSession('team-1', 'alice', b);
+    expect(closeAgentSessions('team-1', 'alice')).toBe(2);
+    expect(a).toHaveBeenCalledOnce();
+    expect(b).toHaveBeenCalledOnce();
+  });
+
+  it('does not touch other agents or teams', () => {
+    const other = vi.fn();
+    trackSession('team-2', 'alice', other);
+    trackSession('team-1', 'bob', other);
+    closeAgentSessions('team-1', 'carol');
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('returns 0 when the agent has no sessions', () => {
+    expect(closeAgentSessions('team-1', 'nobody')).toBe(0);
+  });
+
+  it('untracked sessions are not closed', () => {
+    const close = vi.fn();
+    const untrack = trackSession('team-3', 'dave', close);
+    untrack();
+    expect(closeAgentSessions('team-3', 'dave')).toBe(0);
+    expect(close).not.toHaveBeenCalled();
+  });
+});
+
+describe('closeTeamSessions', () => {
+  it('closes the sessions of every agent in the team only', () => {
+    const inTeam = vi.fn();
+    const otherTeam = vi.fn();
+    trackSession('team-4', 'alice', inTeam);
+    trackSession('team-4', 'bob', inTeam);
+    trackSession('team-40', 'carol', otherTeam);
+    expect(closeTeamSessions('team-4')).toBe(2);
+    expect(inTeam).toHaveBeenCalledTimes(2);
+    expect(otherTeam).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+// Live connections per agent (/agent/stream, /sse and /mcp), so that admin
+// actions such as key revocation can force-disconnect them. In-memory only.
+// Key: `${teamId}:${agentName}`
+const sessions = new Map<string, Set<() => void>>();
+
+/** Registers a close callback for a live session; returns a function that unregisters it. */
+export function trackSession(teamId: string, agentName: string, close: () => void): () => void {
+  const key = `${teamId}:${agentName}`;
+  const set = sessions.get(key) ?? new Set();
+  set.add(close);
+  sessions.set(key, set);
+  return () => {
+    set.delete(close);
+    if (set.size === 0 && sessions.get(key) === set) sessions.delete(key);
+  };
+}
+
+/** Closes every live session of the agent. Returns how many were closed. */
+export function closeAgentSessions(teamId: string, agentName: string): number {
+  const set = sessions.get(`${teamId}:${agentName}`);
+  if (!set) return 0;
+  const closers = [...set];
+  for (const close of closers) close();
+  return closers.length;
+}
+
+/** Closes every live session of every agent in the team. Returns how many were closed. */
+export function closeTeamSessions(teamId: string): number {
+  let closed = 0;
+  for (const key of [...sessions.keys()]) {
+    if (key.startsWith(`${teamId}:`)) closed += closeAgentSessions(teamId, key.slice(teamId.length + 1));
+  }
+  return closed;
+}
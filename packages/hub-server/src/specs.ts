@@ -0,0 +1,20 @@
+import { listServices, serviceVersions, specFromMessage } from '@agent-share/shared';
+import type { AgentMessage, ApiSpecVersion, ServiceSummary } from '@agent-share/shared';
+import { store } from './store/index.js';
+
+// The team's API spec registry. Revisions and diffs are computed by the
+// shared spec logic, which the Nostr transport replays over relay messages.
+
+export async function recordSpec(teamId: string, message: AgentMessage): Promise<void> {
+  const spec = specFromMessage(message);
+  if (spec) await store.appendApiSpec(teamId, spec);
+}
+
+export async function listSpecServices(teamId: string): Promise<ServiceSummary[]> {
+  return listServices(await store.listApiSpecs(teamId));
+}
+
+/** One service's versions; empty if nothing was ever published under that name. */
+export async function loadServiceVersions(teamId: string, service: string): Promise<ApiSpecVersion[]> {
+  return serviceVersions(await store.listApiSpecs(teamId), service);
+}
@@ -1,9 +1,25 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import type { IStore } from './types.js';
+import { numberDecisions } from '@agent-share/shared';
+import type { IStore, ApiSpecRecord, DecisionRecord, TaskRecord } from './types.js';
 import type { AgentMessage } from '../types.js';
 
-function msg(from: string, to: string, id = 'msg-1'): AgentMessage {
-  return { id, from, to, type: 'api_spec', content: 'test', timestamp: Date.now() };
+function msg(from: string, to: string, id = 'msg-1', timestamp = Date.now()): AgentMessage {
+  return { id, from, to, type: 'api_spec', content: 'test', timestamp };
+}
+
+function decision(id: string, decidedAt = 1): DecisionRecord {
+  return { id, title: 'Use REST', context: 'Public API style', decidedBy: 'alice', decidedAt };
+}
+
+function spec(id: string, service = 'users', publishedAt = 1): ApiSpecRecord {
+  return { id, service, method: 'GET', path: '/users/:id', publishedBy: 'alice', publishedAt };
+}
+
+function task(id: string): TaskRecord {
+  return {
+    id, title: 'Write tests', status: 'open', createdBy: 'alice', createdAt: 1, updatedAt: 1, version: 1,
+    history: [{ action: 'created', by: 'alice', at: 1 }],
+  };
 }
 
 /**
@@ -19,6 +35,15 @@ export function runStoreContractTests(
     let store: IStore;
     beforeEach(async () => { store = await factory(); });
 
+    // ─── Lifecycle ──────────────────────────────────────────────────────────
+
+    describe('lifecycle', () => {
+      it('passes its health check once connected', async () => {
+        await store.connect();
+        await expect(store.healthCheck()).resolves.toBeUndefined();
+      });
+    });
+
     // ─── Teams ──────────────────────────────────────────────────────────────
 
     describe('teams', () => {
@@ -50,6 +75,167 @@ export function runStoreContractTests(
         await store.createTeam({ id: 'team-1', apiKeyHash: 'correct-hash', createdAt: 1 });
         expect(await store.findTeamByApiKeyHash('wrong-hash')).toBeNull();
       });
+
+      it('finds a team by a secondary key hash', async () => {
+        await store.createTeam({
+          id: 'team-1', apiKeyHash: 'primary', createdAt: 1,
+          keys: [{ id: 'k1', label: 'ci', hash: 'secondary', createdAt: 2 }],
+        });
+        expect((await store.findTeamByApiKeyHash('secondary'))?.id).toBe('team-1');
+      });
+
+      it('updateTeam replaces the record and re-indexes key hashes', async () => {
+        await store.createTeam({ id: 'team-1', apiKeyHash: 'old-primary', createdAt: 1 });
+        await store.updateTeam({
+          id: 'team-1', apiKeyHash: 'new-primary', createdAt: 1,
+          keys: [{ id: 'k1', label: 'ci', hash: 'ci-key', createdAt: 2 }],
+        });
+        expect(await store.findTeamByApiKeyHash('old-primary')).toBeNull();
+        expect((await store.findTeamByApiKeyHash('new-primary'))?.id).toBe('team-1');
+        expect((await store.findTeamByApiKeyHash('ci-key'))?.id).toBe('team-1');
+        expect((await store.getTeam('team-1'))?.keys).toHaveLength(1);
+      });
+
+      it('updateTeam stops resolving a removed secondary key', async () => {
+        await store.createTeam({
+          id: 'team-1', apiKeyHash: 'primary', createdAt: 1,
+          keys: [{ id: 'k1', label: 'ci', hash: 'ci-key', createdAt: 2 }],
+        });
+        await store.updateTeam({ id: 'team-1', apiKeyHash: 'primary', createdAt: 1, keys: [] });
+        expect(await store.findTeamByApiKeyHash('ci-key')).toBeNull();
+      });
+
+      it('updateTeam for unknown team is a no-op', async () => {
+        await store.updateTeam({ id: 'nope', apiKeyHash: 'h', createdAt: 1 });
+        expect(await store.getTeam('nope')).toBeNull();
+      });
+
+      it('updateTeam persists a rename', async () => {
+        await store.createTeam({ id: 'team-1', name: 'Old', apiKeyHash: 'h1', createdAt: 1 });
+        await store.updateTeam({ id: 'team-1', name: 'New', apiKeyHash: 'h1', createdAt: 1 });
+        expect((await store.getTeam('team-1'))?.name).toBe('New');
+      });
+
+      it('deleteTeam removes the team and everything belonging to it', async () => {
+        await store.createTeam({
+          id: 'team-1', apiKeyHash: 'h1', createdAt: 1,
+          keys: [{ id: 'k1', label: 'ci', hash: 'ci-key', createdAt: 2 }],
+        });
+        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
+        await store.pushMessage('team-1', 'alice', msg('bob', 'alice'), 100);
+        await store.appendDelivery('team-1', 'alice', msg('bob', 'alice'), 100);
+        await store.recordDrops('team-1', 'alice', 'overflow', 1);
+        await store.appendHistory('team-1', msg('bob', 'alice'), 100);
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'tok-a', createdAt: 1 });
+        await store.subscribe('team-1', '#general', 'alice');
+        await store.setContext('team-1', 'staging_url', 'https://staging', 'alice', 1);
+        await store.saveTask('team-1', task('task-1'), 0);
+        await store.appendDecision('team-1', decision('dec-1'));
+        await store.appendApiSpec('team-1', spec('spec-1'));
+
+        await store.deleteTeam('team-1');
+
+        expect(await store.getTeam('team-1')).toBeNull();
+        expect(await store.listTeams()).toHaveLength(0);
+        expect(await store.findTeamByApiKeyHash('h1')).toBeNull();
+        expect(await store.findTeamByApiKeyHash('ci-key')).toBeNull();
+        expect(await store.getAgent('team-1', 'alice')).toBeNull();
+        expect(await store.listAgents('team-1')).toHaveLength(0);
+        expect(await store.flushMessages('team-1', 'alice')).toEqual([]);
+        expect(await store.listDeliveries('team-1', 'alice', 0)).toEqual([]);
+        expect(await store.takeDrops('team-1', 'alice')).toBeNull();
+        expect((await store.queryHistory('team-1', { limit: 10 })).messages).toHaveLength(0);
+        expect(await store.findAgentCredentialByTokenHash('tok-a')).toBeNull();
+        expect(await store.listAgentCredentials('team-1')).toHaveLength(0);
+        expect(await store.listChannels('team-1')).toHaveLength(0);
+        expect(await store.listContext('team-1')).toHaveLength(0);
+        expect(await store.listTasks('team-1')).toHaveLength(0);
+        expect(await store.listDecisions('team-1')).toHaveLength(0);
+        expect(await store.listApiSpecs('team-1')).toHaveLength(0);
+      });
+
+      it('deleteTeam leaves other teams untouched', async () => {
+        await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+        await store.createTeam({ id: 'team-2', apiKeyHash: 'h2', createdAt: 2 });
+        await store.saveAgent({ name: 'carol', teamId: 'team-2', sessionId: 's3', connectedAt: 3, connected: true, messageBuffer: [] });
+        await store.saveAgentCredential({ teamId: 'team-2', agentName: 'carol', tokenHash: 'tok-c', createdAt: 3 });
+
+        await store.deleteTeam('team-1');
+
+        expect((await store.findTeamByApiKeyHash('h2'))?.id).toBe('team-2');
+        expect(await store.listAgents('team-2')).toHaveLength(1);
+        expect((await store.findAgentCredentialByTokenHash('tok-c'))?.agentName).toBe('carol');
+      });
+
+      it('deleteTeam for unknown team is a no-op', async () => {
+        await expect(store.deleteTeam('nope')).resolves.not.toThrow();
+      });
+    });
+
+    // ─── Agent credentials ──────────────────────────────────────────────────
+
+    describe('agent credentials', () => {
+      beforeEach(async () => {
+        await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+      });
+
+      it('saves and retrieves a credential by team and agent name', async () => {
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'tok-a', createdAt: 1 });
+        expect(await store.getAgentCredential('team-1', 'alice')).toMatchObject({ agentName: 'alice', tokenHash: 'tok-a' });
+      });
+
+      it('creates a credential only while the name is free', async () => {
+        expect(await store.createAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'tok-a', createdAt: 1 })).toBe(true);
+        expect(await store.createAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'tok-b', createdAt: 2 })).toBe(false);
+        expect((await store.getAgentCredential('team-1', 'alice'))?.tokenHash).toBe('tok-a');
+        expect(await store.findAgentCredentialByTokenHash('tok-b')).toBeNull();
+      });
+
+      it('lets only one of two concurrent creates claim a name', async () => {
+        const results = await Promise.all(['tok-a', 'tok-b'].map((tokenHash) =>
+          store.createAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash, createdAt: 1 })));
+        expect(results.filter(Boolean)).toHaveLength(1);
+        expect(await store.listAgentCredentials('team-1')).toHaveLength(1);
+      });
+
+      it('returns null for an unregistered agent', async () => {
+        expect(await store.getAgentCredential('team-1', 'nobody')).toBeNull();
+      });
+
+      it('finds a credential by token hash', async () => {
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'tok-a', createdAt: 1 });
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'bob', tokenHash: 'tok-b', createdAt: 2 });
+        expect(await store.findAgentCredentialByTokenHash('tok-b')).toMatchObject({ teamId: 'team-1', agentName: 'bob' });
+      });
+
+      it('returns null for unknown token hash', async () => {
+        expect(await store.findAgentCredentialByTokenHash('nope')).toBeNull();
+      });
+
+      it('re-saving a credential invalidates the previous token', async () => {
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'old', createdAt: 1 });
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'new', createdAt: 2 });
+        expect(await store.findAgentCredentialByTokenHash('old')).toBeNull();
+        expect((await store.findAgentCredentialByTokenHash('new'))?.agentName).toBe('alice');
+      });
+
+      it('lists only credentials belonging to the requested team', async () => {
+        await store.createTeam({ id: 'team-2', apiKeyHash: 'h2', createdAt: 2 });
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'tok-a', createdAt: 1 });
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'bob', tokenHash: 'tok-b', createdAt: 2 });
+        await store.saveAgentCredential({ teamId: 'team-2', agentName: 'carol', tokenHash: 'tok-c', createdAt: 3 });
+        const creds = await store.listAgentCredentials('team-1');
+        expect(creds.map((c) => c.agentName)).toEqual(expect.arrayContaining(['alice', 'bob']));
+        expect(creds).toHaveLength(2);
+      });
+
+      it('removes a credential so its token no longer resolves', async () => {
+        await store.saveAgentCredential({ teamId: 'team-1', agentName: 'alice', tokenHash: 'tok-a', createdAt: 1 });
+        await store.removeAgentCredential('team-1', 'alice');
+        expect(await store.getAgentCredential('team-1', 'alice')).toBeNull();
+        expect(await store.findAgentCredentialByTokenHash('tok-a')).toBeNull();
+        expect(await store.listAgentCredentials('team-1')).toHaveLength(0);
+      });
     });
 
     // ─── Agents ─────────────────────────────────────────────────────────────
@@ -61,7 +247,7 @@ export function runStoreContractTests(
       });
 
       it('saves and retrieves an agent', async () => {
-        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 's1', connectedAt: 1, messageBuffer: [] });
+        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
         const agent = await store.getAgent('team-1', 'alice');
         expect(agent).toMatchObject({ name: 'alice', teamId: 'team-1', sessionId: 's1' });
       });
@@ -71,9 +257,9 @@ export function runStoreContractTests(
       });
 
       it('lists only agents belonging to the requested team', async () => {
-        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 's1', connectedAt: 1, messageBuffer: [] });
-        await store.saveAgent({ name: 'bob',   teamId: 'team-1', sessionId: 's2', connectedAt: 2, messageBuffer: [] });
-        await store.saveAgent({ name: 'carol', teamId: 'team-2', sessionId: 's3', connectedAt: 3, messageBuffer: [] });
+        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
+        await store.saveAgent({ name: 'bob',   teamId: 'team-1', sessionId: 's2', connectedAt: 2, connected: true, messageBuffer: [] });
+        await store.saveAgent({ name: 'carol', teamId: 'team-2', sessionId: 's3', connectedAt: 3, connected: true, messageBuffer: [] });
 
         const t1 = await store.listAgents('team-1');
         expect(t1).toHaveLength(2);
@@ -85,15 +271,28 @@ export function runStoreContractTests(
       });
 
       it('removes an agent', async () => {
-        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 's1', connectedAt: 1, messageBuffer: [] });
+        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
         await store.removeAgent('team-1', 'alice');
         expect(await store.getAgent('team-1', 'alice')).toBeNull();
         expect(await store.listAgents('team-1')).toHaveLength(0);
       });
 
+      it('setAgentConnected marks an agent offline without dropping it', async () => {
+        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
+        await store.setAgentConnected('team-1', 'alice', false, 500);
+        const agent = await store.getAgent('team-1', 'alice');
+        expect(agent).toMatchObject({ name: 'alice', connected: false, lastSeenAt: 500 });
+        expect(await store.listAgents('team-1')).toHaveLength(1);
+      });
+
+      it('setAgentConnected for unknown agent is a no-op', async () => {
+        await store.setAgentConnected('team-1', 'nobody', false, 500);
+        expect(await store.getAgent('team-1', 'nobody')).toBeNull();
+      });
+
       it('overwriting an agent replaces the record', async () => {
-        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 'old', connectedAt: 1, messageBuffer: [] });
-        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 'new', connectedAt: 2, messageBuffer: [] });
+        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 'old', connectedAt: 1, connected: true, messageBuffer: [] });
+        await store.saveAgent({ name: 'alice', teamId: 'team-1', sessionId: 'new', connectedAt: 2, connected: true, messageBuffer: [] });
         expect((await store.getAgent('team-1', 'alice'))?.sessionId).toBe('new');
       });
     });
@@ -103,7 +302,7 @@ export function runStoreContractTests(
     describe('message buffer', () => {
       beforeEach(async () => {
         await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
-        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's1', connectedAt: 1, messageBuffer: [] });
+        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
       });
 
       it('pushes a message into the agent buffer', async () => {
@@ -113,9 +312,11 @@ export function runStoreContractTests(
       });
 
       it('caps buffer at maxBuffer, dropping the oldest', async () => {
+        const evicted = [];
         for (let i = 0; i < 5; i++) {
-          await store.pushMessage('team-1', 'bob', msg('alice', 'bob', `msg-${i}`), 3);
+          evicted.push(...await store.pushMessage('team-1', 'bob', msg('alice', 'bob', `msg-${i}`), 3));
         }
+        expect(evicted.map((m) => m.id)).toEqual(['msg-0', 'msg-1']);
         const agent = await store.getAgent('team-1', 'bob');
         expect(agent?.messageBuffer).toHaveLength(3);
         expect(agent?.messageBuffer[0].id).toBe('msg-2');
@@ -139,26 +340,414 @@ export function runStoreContractTests(
       it('pushMessage to unknown agent is a no-op', async () => {
         await expect(
           store.pushMessage('team-1', 'nobody', msg('alice', 'nobody'), 100)
-        ).resolves.not.toThrow();
+        ).resolves.toEqual([]);
+      });
+
+      it('removeMessages removes the listed messages and returns those it found', async () => {
+        for (const id of ['msg-1', 'msg-2', 'msg-3']) await store.pushMessage('team-1', 'bob', msg('alice', 'bob', id), 100);
+
+        const removed = await store.removeMessages('team-1', 'bob', ['msg-3', 'msg-1', 'gone']);
+        expect(removed.map((m) => m.id).sort()).toEqual(['msg-1', 'msg-3']);
+        expect((await store.getAgent('team-1', 'bob'))?.messageBuffer.map((m) => m.id)).toEqual(['msg-2']);
+        expect(await store.removeMessages('team-1', 'bob', ['msg-1'])).toEqual([]);
       });
 
       it('saveAgent with a populated buffer preserves messages on reconnect', async () => {
         await store.pushMessage('team-1', 'bob', msg('alice', 'bob', 'msg-1'), 100);
         const existing = await store.getAgent('team-1', 'bob');
         // Simulate reconnect: re-save agent with the preserved buffer
-        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 'new-session', connectedAt: 2, messageBuffer: existing?.messageBuffer ?? [] });
+        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 'new-session', connectedAt: 2, connected: true, messageBuffer: existing?.messageBuffer ?? [] });
         const after = await store.getAgent('team-1', 'bob');
         expect(after?.sessionId).toBe('new-session');
         expect(after?.messageBuffer).toHaveLength(1);
         expect(after?.messageBuffer[0].id).toBe('msg-1');
       });
 
+      it('queues messages for an offline agent', async () => {
+        await store.setAgentConnected('team-1', 'bob', false, 2);
+        await store.pushMessage('team-1', 'bob', msg('alice', 'bob', 'msg-1'), 100);
+        const agent = await store.getAgent('team-1', 'bob');
+        expect(agent?.connected).toBe(false);
+        expect(agent?.messageBuffer.map((m) => m.id)).toEqual(['msg-1']);
+      });
+
+      it('setAgentConnected preserves the message buffer', async () => {
+        await store.pushMessage('team-1', 'bob', msg('alice', 'bob', 'msg-1'), 100);
+        await store.setAgentConnected('team-1', 'bob', false, 2);
+        await store.setAgentConnected('team-1', 'bob', true, 3);
+        expect((await store.getAgent('team-1', 'bob'))?.messageBuffer).toHaveLength(1);
+      });
+
+      it('markConnected keeps a message queued while the agent connects', async () => {
+        await store.setAgentConnected('team-1', 'bob', false, 2);
+        await store.pushMessage('team-1', 'bob', msg('alice', 'bob', 'msg-1'), 100);
+        await Promise.all([
+          store.markConnected('team-1', 'bob', 's2', 3),
+          store.pushMessage('team-1', 'bob', msg('alice', 'bob', 'msg-2'), 100),
+        ]);
+        const agent = await store.getAgent('team-1', 'bob');
+        expect(agent).toMatchObject({ sessionId: 's2', connectedAt: 3, connected: true });
+        expect(agent?.messageBuffer.map((m) => m.id)).toEqual(['msg-1', 'msg-2']);
+      });
+
+      it('markConnected creates an agent with an empty mailbox', async () => {
+        await store.markConnected('team-1', 'carol', 's1', 5);
+        expect(await store.getAgent('team-1', 'carol')).toMatchObject({ name: 'carol', teamId: 'team-1', sessionId: 's1', connected: true, messageBuffer: [] });
+        expect((await store.listAgents('team-1')).map((a) => a.name).sort()).toEqual(['bob', 'carol']);
+      });
+
       it('saveAgent with empty buffer clears messages', async () => {
         await store.pushMessage('team-1', 'bob', msg('alice', 'bob', 'msg-1'), 100);
-        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's2', connectedAt: 2, messageBuffer: [] });
+        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's2', connectedAt: 2, connected: true, messageBuffer: [] });
         const after = await store.getAgent('team-1', 'bob');
         expect(after?.messageBuffer).toHaveLength(0);
       });
     });
+
+    // ─── Drop counts ─────────────────────────────────────────────────────────
+
+    describe('drop counts', () => {
+      it('adds up drops by reason until taken', async () => {
+        await store.recordDrops('team-1', 'bob', 'overflow', 2);
+        await store.recordDrops('team-1', 'bob', 'expired', 1);
+        await store.recordDrops('team-1', 'bob', 'overflow', 3);
+
+        expect(await store.takeDrops('team-1', 'bob')).toEqual({ overflow: 5, expired: 1 });
+        expect(await store.takeDrops('team-1', 'bob')).toBeNull();
+      });
+
+      it('keeps counts per agent', async () => {
+        await store.recordDrops('team-1', 'bob', 'retention', 1);
+        expect(await store.takeDrops('team-1', 'carol')).toBeNull();
+        expect(await store.takeDrops('team-1', 'bob')).toEqual({ retention: 1 });
+      });
+
+      it('drops the counts with the agent', async () => {
+        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: false, messageBuffer: [] });
+        await store.recordDrops('team-1', 'bob', 'overflow', 1);
+        await store.removeAgent('team-1', 'bob');
+        expect(await store.takeDrops('team-1', 'bob')).toBeNull();
+      });
+    });
+
+    // ─── Delivery log ────────────────────────────────────────────────────────
+
+    describe('delivery log', () => {
+      it('numbers deliveries per agent and lists those after a seq', async () => {
+        expect(await store.appendDelivery('team-1', 'bob', msg('alice', 'bob', 'msg-1', 1), 100)).toBe(1);
+        expect(await store.appendDelivery('team-1', 'bob', msg('alice', 'bob', 'msg-2', 2), 100)).toBe(2);
+        expect(await store.appendDelivery('team-1', 'carol', msg('alice', 'carol', 'msg-3', 3), 100)).toBe(1);
+
+        expect(await store.listDeliveries('team-1', 'bob', 1)).toEqual([{ seq: 2, message: msg('alice', 'bob', 'msg-2', 2) }]);
+        expect((await store.listDeliveries('team-1', 'bob', 0)).map((d) => d.seq)).toEqual([1, 2]);
+      });
+
+      it('caps the log at maxLog without restarting the sequence', async () => {
+        for (let i = 1; i <= 5; i++) {
+          await store.appendDelivery('team-1', 'bob', msg('alice', 'bob', `msg-${i}`), 3);
+        }
+        const log = await store.listDeliveries('team-1', 'bob', 0);
+        expect(log.map((d) => [d.seq, d.message.id])).toEqual([[3, 'msg-3'], [4, 'msg-4'], [5, 'msg-5']]);
+      });
+
+      it('drops the log with the agent', async () => {
+        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
+        await store.appendDelivery('team-1', 'bob', msg('alice', 'bob'), 100);
+        await store.removeAgent('team-1', 'bob');
+        expect(await store.listDeliveries('team-1', 'bob', 0)).toEqual([]);
+      });
+
+      it('keeps counting seqs for a name removed and registered again', async () => {
+        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
+        await store.appendDelivery('team-1', 'bob', msg('alice', 'bob', 'msg-1'), 100);
+        await store.appendDelivery('team-1', 'bob', msg('alice', 'bob', 'msg-2'), 100);
+        await store.removeAgent('team-1', 'bob');
+        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's2', connectedAt: 2, connected: true, messageBuffer: [] });
+        expect(await store.appendDelivery('team-1', 'bob', msg('alice', 'bob', 'msg-3'), 100)).toBe(3);
+        expect((await store.listDeliveries('team-1', 'bob', 2)).map((d) => d.message.id)).toEqual(['msg-3']);
+      });
+    });
+
+    // ─── Channels ────────────────────────────────────────────────────────────
+
+    describe('channels', () => {
+      it('returns no subscribers for an unknown channel', async () => {
+        expect(await store.listSubscribers('team-1', '#nope')).toEqual([]);
+        expect(await store.listChannels('team-1')).toEqual([]);
+      });
+
+      it('creates a channel on first subscribe', async () => {
+        await store.subscribe('team-1', '#backend-api', 'alice');
+        await store.subscribe('team-1', '#backend-api', 'bob');
+        expect((await store.listSubscribers('team-1', '#backend-api')).sort()).toEqual(['alice', 'bob']);
+        const channels = await store.listChannels('team-1');
+        expect(channels).toHaveLength(1);
+        expect(channels[0].name).toBe('#backend-api');
+        expect(channels[0].subscribers.sort()).toEqual(['alice', 'bob']);
+      });
+
+      it('subscribing twice is idempotent', async () => {
+        await store.subscribe('team-1', '#general', 'alice');
+        await store.subscribe('team-1', '#general', 'alice');
+        expect(await store.listSubscribers('team-1', '#general')).toEqual(['alice']);
+      });
+
+      it('unsubscribe removes the agent and drops empty channels', async () => {
+        await store.subscribe('team-1', '#general', 'alice');
+        await store.subscribe('team-1', '#general', 'bob');
+        await store.unsubscribe('team-1', '#general', 'alice');
+        expect(await store.listSubscribers('team-1', '#general')).toEqual(['bob']);
+        await store.unsubscribe('team-1', '#general', 'bob');
+        expect(await store.listChannels('team-1')).toEqual([]);
+      });
+
+      it('unsubscribe is a no-op for a non-subscriber', async () => {
+        await store.unsubscribe('team-1', '#general', 'ghost');
+        expect(await store.listChannels('team-1')).toEqual([]);
+      });
+
+      it('keeps channels separate per team', async () => {
+        await store.subscribe('team-1', '#general', 'alice');
+        await store.subscribe('team-2', '#general', 'carol');
+        expect(await store.listSubscribers('team-1', '#general')).toEqual(['alice']);
+        expect(await store.listSubscribers('team-2', '#general')).toEqual(['carol']);
+      });
+    });
+
+    // ─── Context ─────────────────────────────────────────────────────────────
+
+    describe('context', () => {
+      it('returns null for an unknown key', async () => {
+        expect(await store.getContext('team-1', 'nope')).toBeNull();
+        expect(await store.listContext('team-1')).toEqual([]);
+      });
+
+      it('creates an entry at version 1 and bumps it on every write', async () => {
+        const first = await store.setContext('team-1', 'auth_header', 'Bearer', 'alice', 100);
+        expect(first).toEqual({ ok: true, entry: { key: 'auth_header', value: 'Bearer', version: 1, updatedBy: 'alice', updatedAt: 100 } });
+
+        await store.setContext('team-1', 'auth_header', 'X-Api-Key', 'bob', 200);
+        expect(await store.getContext('team-1', 'auth_header')).toEqual(
+          { key: 'auth_header', value: 'X-Api-Key', version: 2, updatedBy: 'bob', updatedAt: 200 },
+        );
+      });
+
+      it('writes when expectedVersion matches', async () => {
+        expect((await store.setContext('team-1', 'k', 'a', 'alice', 1, 0)).ok).toBe(true);
+        const second = await store.setContext('team-1', 'k', 'b', 'bob', 2, 1);
+        expect(second.ok && second.entry.version).toBe(2);
+      });
+
+      it('rejects a stale expectedVersion and returns the current entry', async () => {
+        await store.setContext('team-1', 'k', 'a', 'alice', 1);
+        await store.setContext('team-1', 'k', 'b', 'bob', 2);
+
+        const stale = await store.setContext('team-1', 'k', 'c', 'carol', 3, 1);
+        expect(stale).toEqual({ ok: false, current: { key: 'k', value: 'b', version: 2, updatedBy: 'bob', updatedAt: 2 } });
+        expect((await store.getContext('team-1', 'k'))?.value).toBe('b');
+      });
+
+      it('treats expectedVersion 0 as "only if absent"', async () => {
+        await store.setContext('team-1', 'k', 'a', 'alice', 1);
+        const result = await store.setContext('team-1', 'k', 'b', 'bob', 2, 0);
+        expect(result.ok).toBe(false);
+
+        const missing = await store.setContext('team-1', 'other', 'x', 'bob', 2, 3);
+        expect(missing).toEqual({ ok: false, current: null });
+      });
+
+      it('lists entries sorted by key and keeps teams separate', async () => {
+        await store.setContext('team-1', 'staging_url', 's', 'alice', 1);
+        await store.setContext('team-1', 'auth_header', 'a', 'alice', 1);
+        await store.setContext('team-2', 'auth_header', 'other', 'carol', 1);
+        expect((await store.listContext('team-1')).map((e) => e.key)).toEqual(['auth_header', 'staging_url']);
+        expect((await store.getContext('team-2', 'auth_header'))?.value).toBe('other');
+      });
+    });
+
+    // ─── Tasks ───────────────────────────────────────────────────────────────
+
+    describe('tasks', () => {
+      it('returns null for an unknown task', async () => {
+        expect(await store.getTask('team-1', 'nope')).toBeNull();
+        expect(await store.listTasks('team-1')).toEqual([]);
+      });
+
+      it('creates a task with expectedVersion 0', async () => {
+        expect(await store.saveTask('team-1', task('task-1'), 0)).toEqual({ ok: true });
+        expect(await store.getTask('team-1', 'task-1')).toEqual(task('task-1'));
+      });
+
+      it('refuses to create a task that already exists', async () => {
+        await store.saveTask('team-1', task('task-1'), 0);
+        const again = await store.saveTask('team-1', { ...task('task-1'), title: 'Other' }, 0);
+        expect(again).toEqual({ ok: false, current: task('task-1') });
+      });
+
+      it('updates only from the expected version', async () => {
+        await store.saveTask('team-1', task('task-1'), 0);
+        const claimed: TaskRecord = { ...task('task-1'), status: 'claimed', assignee: 'alice', version: 2 };
+        expect(await store.saveTask('team-1', claimed, 1)).toEqual({ ok: true });
+
+        const late = await store.saveTask('team-1', { ...claimed, assignee: 'bob' }, 1);
+        expect(late).toEqual({ ok: false, current: claimed });
+        expect((await store.getTask('team-1', 'task-1'))?.assignee).toBe('alice');
+      });
+
+      it('lists tasks oldest first and keeps teams separate', async () => {
+        await store.saveTask('team-1', { ...task('task-2'), createdAt: 20 }, 0);
+        await store.saveTask('team-1', { ...task('task-1'), createdAt: 10 }, 0);
+        await store.saveTask('team-2', task('task-3'), 0);
+        expect((await store.listTasks('team-1')).map((t) => t.id)).toEqual(['task-1', 'task-2']);
+        expect(await store.getTask('team-2', 'task-1')).toBeNull();
+      });
+    });
+
+    // ─── Decisions ───────────────────────────────────────────────────────────
+
+    describe('decisions', () => {
+      it('returns an empty log for a team with no decisions', async () => {
+        expect(await store.listDecisions('team-1')).toEqual([]);
+      });
+
+      it('keeps decisions in the order appended', async () => {
+        await store.appendDecision('team-1', decision('dec-2', 20));
+        await store.appendDecision('team-1', { ...decision('dec-1', 10), supersedes: 'dec-2', alternatives: ['gRPC'] });
+        const log = await store.listDecisions('team-1');
+        expect(log.map((d) => d.id)).toEqual(['dec-2', 'dec-1']);
+        expect(log[1]).toEqual({ ...decision('dec-1', 10), supersedes: 'dec-2', alternatives: ['gRPC'] });
+      });
+
+      it('gives concurrent appends distinct ADR numbers', async () => {
+        const ids = Array.from({ length: 10 }, (_, i) => `dec-${i}`);
+        await Promise.all(ids.map((id) => store.appendDecision('team-1', decision(id))));
+        const numbered = numberDecisions(await store.listDecisions('team-1'));
+        expect(numbered.map((d) => d.id).sort()).toEqual([...ids].sort());
+        expect(new Set(numbered.map((d) => d.number)).size).toBe(ids.length);
+      });
+
+      it('keeps logs separate per team', async () => {
+        await store.appendDecision('team-1', decision('dec-1'));
+        await store.appendDecision('team-2', decision('dec-2'));
+        expect((await store.listDecisions('team-2')).map((d) => d.id)).toEqual(['dec-2']);
+      });
+    });
+
+    // ─── API specs ───────────────────────────────────────────────────────────
+
+    describe('API specs', () => {
+      it('keeps specs from every service in the order appended', async () => {
+        await store.appendApiSpec('team-1', spec('spec-2', 'users', 20));
+        await store.appendApiSpec('team-1', { ...spec('spec-1', 'billing', 10), removed: true, response: { type: 'object' } });
+        const log = await store.listApiSpecs('team-1');
+        expect(log.map((s) => s.id)).toEqual(['spec-2', 'spec-1']);
+        expect(log[1]).toEqual({ ...spec('spec-1', 'billing', 10), removed: true, response: { type: 'object' } });
+      });
+
+      it('keeps registries separate per team', async () => {
+        await store.appendApiSpec('team-1', spec('spec-1'));
+        await store.appendApiSpec('team-2', spec('spec-2'));
+        expect((await store.listApiSpecs('team-2')).map((s) => s.id)).toEqual(['spec-2']);
+      });
+    });
+
+    // ─── Message history ─────────────────────────────────────────────────────
+
+    describe('message history', () => {
+      beforeEach(async () => {
+        await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+        await store.createTeam({ id: 'team-2', apiKeyHash: 'h2', createdAt: 2 });
+      });
+
+      it('returns an empty page for a team with no history', async () => {
+        expect(await store.queryHistory('team-1', { limit: 10 })).toEqual({ messages: [], nextCursor: null });
+      });
+
+      it('returns appended messages newest first', async () => {
+        await store.appendHistory('team-1', msg('alice', 'bob', 'msg-1', 1), 100);
+        await store.appendHistory('team-1', msg('alice', 'bob', 'msg-2', 2), 100);
+        const page = await store.queryHistory('team-1', { limit: 10 });
+        expect(page.messages.map((m) => m.id)).toEqual(['msg-2', 'msg-1']);
+        expect(page.nextCursor).toBeNull();
+      });
+
+      it('is not affected by flushMessages', async () => {
+        await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's1', connectedAt: 1, connected: true, messageBuffer: [] });
+        const m = msg('alice', 'bob');
+        await store.pushMessage('team-1', 'bob', m, 100);
+        await store.appendHistory('team-1', m, 100);
+        await store.flushMessages('team-1', 'bob');
+        expect((await store.queryHistory('team-1', { limit: 10 })).messages).toHaveLength(1);
+      });
+
+      it('keeps history separate per team', async () => {
+        await store.appendHistory('team-1', msg('alice', 'bob', 'msg-1'), 100);
+        await store.appendHistory('team-2', msg('carol', 'dave', 'msg-2'), 100);
+        const page = await store.queryHistory('team-2', { limit: 10 });
+        expect(page.messages.map((m) => m.id)).toEqual(['msg-2']);
+      });
+
+      it('caps history at maxHistory, dropping the oldest', async () => {
+        for (let i = 0; i < 5; i++) {
+          await store.appendHistory('team-1', msg('alice', 'bob', `msg-${i}`, i), 3);
+        }
+        const page = await store.queryHistory('team-1', { limit: 10 });
+        expect(page.messages.map((m) => m.id)).toEqual(['msg-4', 'msg-3', 'msg-2']);
+      });
+
+      it('filters by from, to and type', async () => {
+        await store.appendHistory('team-1', msg('alice', 'bob', 'msg-1'), 100);
+        await store.appendHistory('team-1', msg('carol', 'bob', 'msg-2'), 100);
+        await store.appendHistory('team-1', { ...msg('alice', 'broadcast', 'msg-3'), type: 'decision' }, 100);
+
+        const fromAlice = await store.queryHistory('team-1', { from: 'alice', limit: 10 });
+        expect(fromAlice.messages.map((m) => m.id)).toEqual(['msg-3', 'msg-1']);
+
+        const toBob = await store.queryHistory('team-1', { to: 'bob', limit: 10 });
+        expect(toBob.messages.map((m) => m.id)).toEqual(['msg-2', 'msg-1']);
+
+        const decisions = await store.queryHistory('team-1', { type: 'decision', limit: 10 });
+        expect(decisions.messages.map((m) => m.id)).toEqual(['msg-3']);
+      });
+
+      it('matches the to filter against any entry of a recipient list', async () => {
+        await store.appendHistory('team-1', { ...msg('alice', 'bob', 'msg-1'), to: ['bob', 'carol'] }, 100);
+        await store.appendHistory('team-1', msg('alice', 'dave', 'msg-2'), 100);
+
+        const toCarol = await store.queryHistory('team-1', { to: 'carol', limit: 10 });
+        expect(toCarol.messages.map((m) => m.id)).toEqual(['msg-1']);
+        expect(toCarol.messages[0].to).toEqual(['bob', 'carol']);
+      });
+
+      it('filters by inclusive time range', async () => {
+        for (let i = 1; i <= 5; i++) {
+          await store.appendHistory('team-1', msg('alice', 'bob', `msg-${i}`, i * 100), 100);
+        }
+        const page = await store.queryHistory('team-1', { since: 200, until: 400, limit: 10 });
+        expect(page.messages.map((m) => m.id)).toEqual(['msg-4', 'msg-3', 'msg-2']);
+      });
+
+      it('paginates with a cursor until exhausted', async () => {
+        for (let i = 1; i <= 5; i++) {
+          await store.appendHistory('team-1', msg('alice', 'bob', `msg-${i}`, i), 100);
+        }
+        const first = await store.queryHistory('team-1', { limit: 2 });
+        expect(first.messages.map((m) => m.id)).toEqual(['msg-5', 'msg-4']);
+        expect(first.nextCursor).toBe('msg-4');
+
+        const second = await store.queryHistory('team-1', { limit: 2, cursor: first.nextCursor! });
+        expect(second.messages.map((m) => m.id)).toEqual(['msg-3', 'msg-2']);
+
+        const third = await store.queryHistory('team-1', { limit: 2, cursor: second.nextCursor! });
+        expect(third.messages.map((m) => m.id)).toEqual(['msg-1']);
+        expect(third.nextCursor).toBeNull();
+      });
+
+      it('returns an empty page for an unknown cursor', async () => {
+        await store.appendHistory('team-1', msg('alice', 'bob', 'msg-1'), 100);
+        const page = await store.queryHistory('team-1', { limit: 10, cursor: 'gone' });
+        expect(page).toEqual({ messages: [], nextCursor: null });
+      });
+    });
   });
 }
@@ -0,0 +1,29 @@
+import { addressList } from '@agent-share/shared';
+import type { AgentMessage } from '../types.js';
+import type { HistoryQuery, HistoryPage } from './types.js';
+
+/**
+ * Applies a HistoryQuery to a team's full message log (oldest first).
+ * Shared by every IStore so filtering and cursor semantics stay identical.
+ */
+export function paginateHistory(log: AgentMessage[], query: HistoryQuery): HistoryPage {
+  let newestFirst = [...log].reverse();
+
+  if (query.cursor) {
+    const idx = newestFirst.findIndex((m) => m.id === query.cursor);
+    // Cursor fell off the end of a capped log — nothing older remains
+    newestFirst = idx === -1 ? [] : newestFirst.slice(idx + 1);
+  }
+
+  const matches = newestFirst.filter((m) =>
+    (query.from === undefined || m.from === query.from) &&
+    (query.to === undefined || addressList(m.to).includes(query.to)) &&
+    (query.type === undefined || m.type === query.type) &&
+    (query.since === undefined || m.timestamp >= query.since) &&
+    (query.until === undefined || m.timestamp <= query.until)
+  );
+
+  const messages = matches.slice(0, query.limit);
+  const nextCursor = matches.length > query.limit ? messages[messages.length - 1].id : null;
+  return { messages, nextCursor };
+}
@@ -1,13 +1,38 @@
 import type { AgentMessage } from '../types.js';
+import { MemoryStore } from './memory.js';
 import { VolumeStore } from './volume.js';
+import { RedisStore } from './redis.js';
+import { SqliteStore } from './sqlite.js';
 import type { IStore } from './types.js';
+import { instrumentStore } from '../metrics.js';
+import { ConfigLoader, Sections, Keys } from '../config/index.js';
 
-export type { IStore, TeamRecord, AgentRecord } from './types.js';
+export type { IStore, TeamRecord, TeamKeyRecord, AgentRecord, AgentCredentialRecord, ChannelRecord, ContextEntry, ContextWriteResult, TaskRecord, TaskStatus, TaskEvent, TaskWriteResult, DecisionRecord, ApiSpecRecord, MessageTypeRecord, RetentionRule, DropReason, DropCounts, HistoryQuery, HistoryPage } from './types.js';
 
-// Active store — swap this import for a different implementation (Memory, Redis, etc.)
-export const store: IStore = new VolumeStore();
+const config = new ConfigLoader(process.env.NODE_ENV === 'production' ? 'prod' : process.env.NODE_ENV === 'development' ? 'dev' : undefined);
 
-// In-memory push callbacks for live /agent/stream SSE connections.
+// Backends selectable with `[store] backend`; register new IStore implementations here
+const backends: Record<string, () => IStore> = {
+  memory: () => new MemoryStore(),
+  volume: () => new VolumeStore(
+    config.get(Sections.STORE, Keys.VOLUME_PATH, '/data/agent-hub.json'),
+    config.get<number>(Sections.STORE, Keys.VOLUME_COMPACT_OPS, 1000),
+  ),
+  redis: () => new RedisStore(config.get(Sections.STORE, Keys.REDIS_URL, 'redis://localhost:6379')),
+  sqlite: () => new SqliteStore(config.get(Sections.STORE, Keys.SQLITE_PATH, '/data/agent-hub.db')),
+};
+
+export const storeBackend = config.get(Sections.STORE, Keys.BACKEND, 'volume');
+
+if (!backends[storeBackend]) {
+  throw new Error(`Unknown [store] backend "${storeBackend}" — expected one of: ${Object.keys(backends).join(', ')}`);
+}
+
+// Active store, timed per operation for /metrics. Call store.connect() before serving requests
+export const store: IStore = instrumentStore(backends[storeBackend](), storeBackend);
+
+// In-memory push callbacks for live /agent/stream and /agent/ws connections.
 // These are never persisted — they hold Node.js function references.
+// `notice` marks hub notices, which need no acknowledgement (see notices.ts).
 // Key: `${teamId}:${agentName}`
-export const connections = new Map<string, (msg: AgentMessage) => void>();
+export const connections = new Map<string, (msg: AgentMessage, notice?: boolean) => void>();
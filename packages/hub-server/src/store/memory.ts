@@ -1,9 +1,25 @@
 import type { AgentMessage } from '../types.js';
-import type { IStore, TeamRecord, AgentRecord } from './types.js';
+import type { IStore, TeamRecord, AgentRecord, AgentCredentialRecord, ChannelRecord, ContextEntry, ContextWriteResult, TaskRecord, TaskWriteResult, DecisionRecord, ApiSpecRecord, DeliveryRecord, DropReason, DropCounts, HistoryQuery, HistoryPage } from './types.js';
+import { paginateHistory } from './history.js';
 
 export class MemoryStore implements IStore {
   private teams = new Map<string, TeamRecord>();
   private agents = new Map<string, AgentRecord>(); // key: `${teamId}:${agentName}`
+  private history = new Map<string, AgentMessage[]>(); // key: teamId
+  private deliveries = new Map<string, { seq: number; log: DeliveryRecord[] }>(); // key: `${teamId}:${agentName}`
+  private drops = new Map<string, DropCounts>(); // key: `${teamId}:${agentName}`
+  private credentials = new Map<string, AgentCredentialRecord>(); // key: `${teamId}:${agentName}`
+  private channels = new Map<string, Map<string, Set<string>>>(); // teamId → channel → subscribers
+  private context = new Map<string, Map<string, ContextEntry>>(); // teamId → key → entry
+  private tasks = new Map<string, Map<string, TaskRecord>>(); // teamId → id → task
+  private decisions = new Map<string, DecisionRecord[]>(); // key: teamId
+  private specs = new Map<string, ApiSpecRecord[]>(); // key: teamId
+
+  async connect(): Promise<void> {}
+
+  async healthCheck(): Promise<void> {}
+
+  async close(): Promise<void> {}
 
   async createTeam(team: TeamRecord): Promise<void> {
     this.teams.set(team.id, team);
@@ -18,7 +34,63 @@ export class MemoryStore implements IStore {
   }
 
   async findTeamByApiKeyHash(hash: string): Promise<TeamRecord | null> {
-    return [...this.teams.values()].find((t) => t.apiKeyHash === hash) ?? null;
+    return [...this.teams.values()].find((t) =>
+      t.apiKeyHash === hash || t.keys?.some((k) => k.hash === hash)
+    ) ?? null;
+  }
+
+  async updateTeam(team: TeamRecord): Promise<void> {
+    if (!this.teams.has(team.id)) return;
+    this.teams.set(team.id, team);
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    this.teams.delete(teamId);
+    this.history.delete(teamId);
+    this.channels.delete(teamId);
+    this.context.delete(teamId);
+    this.tasks.delete(teamId);
+    this.decisions.delete(teamId);
+    this.specs.delete(teamId);
+    for (const [key, agent] of this.agents) {
+      if (agent.teamId === teamId) this.agents.delete(key);
+    }
+    for (const key of this.deliveries.keys()) {
+      if (key.startsWith(`${teamId}:`)) this.deliveries.delete(key);
+    }
+    for (const key of this.drops.keys()) {
+      if (key.startsWith(`${teamId}:`)) this.drops.delete(key);
+    }
+    for (const [key, cred] of this.credentials) {
+      if (cred.teamId === teamId) this.credentials.delete(key);
+    }
+  }
+
+  async createAgentCredential(cred: AgentCredentialRecord): Promise<boolean> {
+    const key = `${cred.teamId}:${cred.agentName}`;
+    if (this.credentials.has(key)) return false;
+    this.credentials.set(key, cred);
+    return true;
+  }
+
+  async saveAgentCredential(cred: AgentCredentialRecord): Promise<void> {
+    this.credentials.set(`${cred.teamId}:${cred.agentName}`, cred);
+  }
+
+  async getAgentCredential(teamId: string, agentName: string): Promise<AgentCredentialRecord | null> {
+    return this.credentials.get(`${teamId}:${agentName}`) ?? null;
+  }
+
+  async findAgentCredentialByTokenHash(hash: string): Promise<AgentCredentialRecord | null> {
+    return [...this.credentials.values()].find((c) => c.tokenHash === hash) ?? null;
+  }
+
+  async listAgentCredentials(teamId: string): Promise<AgentCredentialRecord[]> {
+    return [...this.credentials.values()].filter((c) => c.teamId === teamId);
+  }
+
+  async removeAgentCredential(teamId: string, agentName: string): Promise<void> {
+    this.credentials.delete(`${teamId}:${agentName}`);
   }
 
   async saveAgent(agent: AgentRecord): Promise<void> {
@@ -35,13 +107,29 @@ export class MemoryStore implements IStore {
 
   async removeAgent(teamId: string, agentName: string): Promise<void> {
     this.agents.delete(`${teamId}:${agentName}`);
+    const deliveries = this.deliveries.get(`${teamId}:${agentName}`);
+    if (deliveries) deliveries.log = []; // the seq keeps counting
+    this.drops.delete(`${teamId}:${agentName}`);
   }
 
-  async pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<void> {
+  async setAgentConnected(teamId: string, agentName: string, connected: boolean, at: number): Promise<void> {
     const agent = this.agents.get(`${teamId}:${agentName}`);
     if (!agent) return;
+    agent.connected = connected;
+    agent.lastSeenAt = at;
+  }
+
+  async markConnected(teamId: string, agentName: string, sessionId: string, at: number): Promise<void> {
+    const agent = this.agents.get(`${teamId}:${agentName}`);
+    if (agent) Object.assign(agent, { sessionId, connectedAt: at, connected: true });
+    else this.agents.set(`${teamId}:${agentName}`, { name: agentName, teamId, sessionId, connectedAt: at, connected: true, messageBuffer: [] });
+  }
+
+  async pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<AgentMessage[]> {
+    const agent = this.agents.get(`${teamId}:${agentName}`);
+    if (!agent) return [];
     agent.messageBuffer.push(msg);
-    if (agent.messageBuffer.length > maxBuffer) agent.messageBuffer.shift();
+    return agent.messageBuffer.splice(0, Math.max(0, agent.messageBuffer.length - maxBuffer));
   }
 
   async flushMessages(teamId: string, agentName: string): Promise<AgentMessage[]> {
@@ -51,4 +139,127 @@ export class MemoryStore implements IStore {
     agent.messageBuffer.length = 0;
     return msgs;
   }
+
+  async removeMessages(teamId: string, agentName: string, ids: string[]): Promise<AgentMessage[]> {
+    const agent = this.agents.get(`${teamId}:${agentName}`);
+    if (!agent) return [];
+    const remove = new Set(ids);
+    const removed = agent.messageBuffer.filter((m) => remove.has(m.id));
+    agent.messageBuffer = agent.messageBuffer.filter((m) => !remove.has(m.id));
+    return removed;
+  }
+
+  async recordDrops(teamId: string, agentName: string, reason: DropReason, count: number): Promise<void> {
+    const key = `${teamId}:${agentName}`;
+    const counts = this.drops.get(key) ?? {};
+    counts[reason] = (counts[reason] ?? 0) + count;
+    this.drops.set(key, counts);
+  }
+
+  async takeDrops(teamId: string, agentName: string): Promise<DropCounts | null> {
+    const key = `${teamId}:${agentName}`;
+    const counts = this.drops.get(key) ?? null;
+    this.drops.delete(key);
+    return counts;
+  }
+
+  async appendDelivery(teamId: string, agentName: string, msg: AgentMessage, maxLog: number): Promise<number> {
+    const key = `${teamId}:${agentName}`;
+    const entry = this.deliveries.get(key) ?? { seq: 0, log: [] };
+    entry.log.push({ seq: ++entry.seq, message: msg });
+    if (entry.log.length > maxLog) entry.log.splice(0, entry.log.length - maxLog);
+    this.deliveries.set(key, entry);
+    return entry.seq;
+  }
+
+  async listDeliveries(teamId: string, agentName: string, afterSeq: number): Promise<DeliveryRecord[]> {
+    return (this.deliveries.get(`${teamId}:${agentName}`)?.log ?? []).filter((d) => d.seq > afterSeq);
+  }
+
+  async subscribe(teamId: string, channel: string, agentName: string): Promise<void> {
+    const teamChannels = this.channels.get(teamId) ?? new Map<string, Set<string>>();
+    const subscribers = teamChannels.get(channel) ?? new Set<string>();
+    subscribers.add(agentName);
+    teamChannels.set(channel, subscribers);
+    this.channels.set(teamId, teamChannels);
+  }
+
+  async unsubscribe(teamId: string, channel: string, agentName: string): Promise<void> {
+    const teamChannels = this.channels.get(teamId);
+    const subscribers = teamChannels?.get(channel);
+    if (!subscribers) return;
+    subscribers.delete(agentName);
+    if (subscribers.size === 0) teamChannels!.delete(channel);
+  }
+
+  async listSubscribers(teamId: string, channel: string): Promise<string[]> {
+    return [...(this.channels.get(teamId)?.get(channel) ?? [])];
+  }
+
+  async listChannels(teamId: string): Promise<ChannelRecord[]> {
+    return [...(this.channels.get(teamId) ?? new Map<string, Set<string>>())]
+      .map(([name, subscribers]) => ({ name, subscribers: [...subscribers] }));
+  }
+
+  async setContext(teamId: string, key: string, value: string, updatedBy: string, at: number, expectedVersion?: number): Promise<ContextWriteResult> {
+    const entries = this.context.get(teamId) ?? new Map<string, ContextEntry>();
+    const current = entries.get(key) ?? null;
+    if (expectedVersion !== undefined && (current?.version ?? 0) !== expectedVersion) return { ok: false, current };
+    const entry: ContextEntry = { key, value, version: (current?.version ?? 0) + 1, updatedBy, updatedAt: at };
+    entries.set(key, entry);
+    this.context.set(teamId, entries);
+    return { ok: true, entry };
+  }
+
+  async getContext(teamId: string, key: string): Promise<ContextEntry | null> {
+    return this.context.get(teamId)?.get(key) ?? null;
+  }
+
+  async listContext(teamId: string): Promise<ContextEntry[]> {
+    return [...(this.context.get(teamId)?.values() ?? [])].sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async saveTask(teamId: string, task: TaskRecord, expectedVersion: number): Promise<TaskWriteResult> {
+    const tasks = this.tasks.get(teamId) ?? new Map<string, TaskRecord>();
+    const current = tasks.get(task.id) ?? null;
+    if ((current?.version ?? 0) !== expectedVersion) return { ok: false, current };
+    tasks.set(task.id, task);
+    this.tasks.set(teamId, tasks);
+    return { ok: true };
+  }
+
+  async getTask(teamId: string, id: string): Promise<TaskRecord | null> {
+    return this.tasks.get(teamId)?.get(id) ?? null;
+  }
+
+  async listTasks(teamId: string): Promise<TaskRecord[]> {
+    return [...(this.tasks.get(teamId)?.values() ?? [])].sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async appendDecision(teamId: string, decision: DecisionRecord): Promise<void> {
+    this.decisions.set(teamId, [...(this.decisions.get(teamId) ?? []), decision]);
+  }
+
+  async listDecisions(teamId: string): Promise<DecisionRecord[]> {
+    return [...(this.decisions.get(teamId) ?? [])];
+  }
+
+  async appendApiSpec(teamId: string, spec: ApiSpecRecord): Promise<void> {
+    this.specs.set(teamId, [...(this.specs.get(teamId) ?? []), spec]);
+  }
+
+  async listApiSpecs(teamId: string): Promise<ApiSpecRecord[]> {
+    return [...(this.specs.get(teamId) ?? [])];
+  }
+
+  async appendHistory(teamId: string, msg: AgentMessage, maxHistory: number): Promise<void> {
+    const log = this.history.get(teamId) ?? [];
+    log.push(msg);
+    if (log.length > maxHistory) log.splice(0, log.length - maxHistory);
+    this.history.set(teamId, log);
+  }
+
+  async queryHistory(teamId: string, query: HistoryQuery): Promise<HistoryPage> {
+    return paginateHistory(this.history.get(teamId) ?? [], query);
+  }
 }
@@ -1,9 +1,58 @@
 import { Redis } from 'ioredis';
-import type { IStore, TeamRecord, AgentRecord } from './types.js';
+import type { IStore, TeamRecord, AgentRecord, AgentCredentialRecord, ChannelRecord, ContextEntry, ContextWriteResult, TaskRecord, TaskWriteResult, DecisionRecord, ApiSpecRecord, DeliveryRecord, DropReason, DropCounts, HistoryQuery, HistoryPage } from './types.js';
 import type { AgentMessage } from '../types.js';
+import { paginateHistory } from './history.js';
 
 type AgentMeta = Omit<AgentRecord, 'messageBuffer'>;
 
+// KEYS[1] = context hash; ARGV = key, value, updatedBy, updatedAt, expectedVersion (-1 = unconditional).
+// Returns {1, newEntry} on success or {0, currentEntry|false} on a version mismatch
+const SET_CONTEXT_SCRIPT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+local version = 0
+if raw then version = cjson.decode(raw).version end
+local expected = tonumber(ARGV[5])
+if expected >= 0 and expected ~= version then return {0, raw} end
+local entry = cjson.encode({ key = ARGV[1], value = ARGV[2], version = version + 1, updatedBy = ARGV[3], updatedAt = tonumber(ARGV[4]) })
+redis.call('HSET', KEYS[1], ARGV[1], entry)
+return {1, entry}
+`;
+
+// KEYS[1] = tasks hash; ARGV = task id, task JSON, expectedVersion.
+// Returns {1} on success or {0, currentTask|false} on a version mismatch
+const SAVE_TASK_SCRIPT = `
+local raw = redis.call('HGET', KEYS[1], ARGV[1])
+local version = 0
+if raw then version = cjson.decode(raw).version end
+if tonumber(ARGV[3]) ~= version then return {0, raw} end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+return {1}
+`;
+
+// KEYS[1] = delivery sequence counter, KEYS[2] = delivery log; ARGV = message JSON, maxLog.
+// Numbers and appends in one step so the log stays in sequence order. Returns the seq
+const APPEND_DELIVERY_SCRIPT = `
+local seq = redis.call('INCR', KEYS[1])
+redis.call('RPUSH', KEYS[2], '{"seq":' .. seq .. ',"message":' .. ARGV[1] .. '}')
+redis.call('LTRIM', KEYS[2], -tonumber(ARGV[2]), -1)
+return seq
+`;
+
+// KEYS[1] = message buffer; ARGV = ids of the messages to remove.
+// Rewrites the buffer without them and returns the removed messages
+const REMOVE_MESSAGES_SCRIPT = `
+local remove, removed, kept = {}, {}, {}
+for _, id in ipairs(ARGV) do remove[id] = true end
+for _, raw in ipairs(redis.call('LRANGE', KEYS[1], 0, -1)) do
+  if remove[cjson.decode(raw).id] then table.insert(removed, raw) else table.insert(kept, raw) end
+end
+if #removed > 0 then
+  redis.call('DEL', KEYS[1])
+  for _, raw in ipairs(kept) do redis.call('RPUSH', KEYS[1], raw) end
+end
+return removed
+`;
+
 export class RedisStore implements IStore {
   readonly client: Redis;
 
@@ -12,7 +61,24 @@ export class RedisStore implements IStore {
   }
 
   async connect(): Promise<void> {
-    await this.client.connect();
+    // A failed connect() only rejects with "Connection is closed"; the cause
+    // arrives as an error event
+    let cause: Error | undefined;
+    const onError = (err: Error) => { cause ??= err; };
+    this.client.on('error', onError);
+    try {
+      await this.client.connect();
+    } catch (err) {
+      throw cause ?? err;
+    } finally {
+      this.client.off('error', onError);
+    }
+    await this.healthCheck();
+  }
+
+  async healthCheck(): Promise<void> {
+    const reply = await this.client.ping();
+    if (reply !== 'PONG') throw new Error(`Unexpected PING reply: ${reply}`);
   }
 
   async close(): Promise<void> {
@@ -28,6 +94,19 @@ export class RedisStore implements IStore {
     agent:    (teamId: string, name: string) => `agent:${teamId}:${name}`,
     agents:   (teamId: string)             => `agents:${teamId}`,
     msgs:     (teamId: string, name: string) => `msgs:${teamId}:${name}`,
+    deliveries: (teamId: string, name: string) => `deliveries:${teamId}:${name}`,
+    deliverySeq: (teamId: string, name: string) => `deliveryseq:${teamId}:${name}`,
+    drops:    (teamId: string, name: string) => `drops:${teamId}:${name}`,
+    history:  (teamId: string)             => `history:${teamId}`,
+    cred:     (teamId: string, name: string) => `agentcred:${teamId}:${name}`,
+    creds:    (teamId: string)             => `agentcreds:${teamId}`,
+    channel:  (teamId: string, name: string) => `channel:${teamId}:${name}`,
+    channels: (teamId: string)             => `channels:${teamId}`,
+    context:  (teamId: string)             => `context:${teamId}`,
+    tasks:    (teamId: string)             => `tasks:${teamId}`,
+    decisions: (teamId: string)            => `decisions:${teamId}`,
+    specs:    (teamId: string)             => `specs:${teamId}`,
+    credHash: (hash: string)               => `agentcredhash:${hash}`,
   };
 
   // ─── Teams ────────────────────────────────────────────────────────────────
@@ -36,7 +115,7 @@ export class RedisStore implements IStore {
     const pipe = this.client.pipeline();
     pipe.set(this.k.team(team.id), JSON.stringify(team));
     pipe.sadd(this.k.teams(), team.id);
-    pipe.set(this.k.teamHash(team.apiKeyHash), team.id);
+    for (const hash of this.keyHashes(team)) pipe.set(this.k.teamHash(hash), team.id);
     await pipe.exec();
   }
 
@@ -62,6 +141,115 @@ export class RedisStore implements IStore {
     return this.getTeam(teamId);
   }
 
+  async updateTeam(team: TeamRecord): Promise<void> {
+    const previous = await this.getTeam(team.id);
+    if (!previous) return;
+    const current = new Set(this.keyHashes(team));
+    const pipe = this.client.pipeline();
+    pipe.set(this.k.team(team.id), JSON.stringify(team));
+    // Drop index entries for revoked/rotated-out keys so they stop resolving
+    for (const hash of this.keyHashes(previous)) {
+      if (!current.has(hash)) pipe.del(this.k.teamHash(hash));
+    }
+    for (const hash of current) pipe.set(this.k.teamHash(hash), team.id);
+    await pipe.exec();
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    const team = await this.getTeam(teamId);
+    if (!team) return;
+    const [agentNames, creds, channels] = await Promise.all([
+      this.client.smembers(this.k.agents(teamId)),
+      this.listAgentCredentials(teamId),
+      this.client.smembers(this.k.channels(teamId)),
+    ]);
+    const pipe = this.client.pipeline();
+    pipe.del(this.k.team(teamId));
+    pipe.srem(this.k.teams(), teamId);
+    for (const hash of this.keyHashes(team)) pipe.del(this.k.teamHash(hash));
+    for (const name of agentNames) {
+      pipe.del(this.k.agent(teamId, name));
+      pipe.del(this.k.msgs(teamId, name));
+      pipe.del(this.k.deliveries(teamId, name));
+      pipe.del(this.k.deliverySeq(teamId, name));
+      pipe.del(this.k.drops(teamId, name));
+    }
+    pipe.del(this.k.agents(teamId));
+    pipe.del(this.k.history(teamId));
+    for (const cred of creds) {
+      pipe.del(this.k.cred(teamId, cred.agentName));
+      pipe.del(this.k.credHash(cred.tokenHash));
+    }
+    pipe.del(this.k.creds(teamId));
+    for (const channel of channels) pipe.del(this.k.channel(teamId, channel));
+    pipe.del(this.k.channels(teamId));
+    pipe.del(this.k.context(teamId));
+    pipe.del(this.k.tasks(teamId));
+    pipe.del(this.k.decisions(teamId));
+    pipe.del(this.k.specs(teamId));
+    await pipe.exec();
+  }
+
+  private keyHashes(team: TeamRecord): string[] {
+    return [team.apiKeyHash, ...(team.keys ?? []).map((k) => k.hash)];
+  }
+
+  // ─── Agent credentials ────────────────────────────────────────────────────
+
+  async createAgentCredential(cred: AgentCredentialRecord): Promise<boolean> {
+    // SET NX claims the name; the token index and team set follow
+    const claimed = await this.client.set(this.k.cred(cred.teamId, cred.agentName), JSON.stringify(cred), 'NX');
+    if (claimed !== 'OK') return false;
+    const pipe = this.client.pipeline();
+    pipe.set(this.k.credHash(cred.tokenHash), JSON.stringify([cred.teamId, cred.agentName]));
+    pipe.sadd(this.k.creds(cred.teamId), cred.agentName);
+    await pipe.exec();
+    return true;
+  }
+
+  async saveAgentCredential(cred: AgentCredentialRecord): Promise<void> {
+    const previous = await this.getAgentCredential(cred.teamId, cred.agentName);
+    const pipe = this.client.pipeline();
+    if (previous) pipe.del(this.k.credHash(previous.tokenHash));
+    pipe.set(this.k.cred(cred.teamId, cred.agentName), JSON.stringify(cred));
+    pipe.set(this.k.credHash(cred.tokenHash), JSON.stringify([cred.teamId, cred.agentName]));
+    pipe.sadd(this.k.creds(cred.teamId), cred.agentName);
+    await pipe.exec();
+  }
+
+  async getAgentCredential(teamId: string, agentName: string): Promise<AgentCredentialRecord | null> {
+    const raw = await this.client.get(this.k.cred(teamId, agentName));
+    return raw ? (JSON.parse(raw) as AgentCredentialRecord) : null;
+  }
+
+  async findAgentCredentialByTokenHash(hash: string): Promise<AgentCredentialRecord | null> {
+    const raw = await this.client.get(this.k.credHash(hash));
+    if (!raw) return null;
+    const [teamId, agentName] = JSON.parse(raw) as [string, string];
+    return this.getAgentCredential(teamId, agentName);
+  }
+
+  async listAgentCredentials(teamId: string): Promise<AgentCredentialRecord[]> {
+    const names = await this.client.smembers(this.k.creds(teamId));
+    if (names.length === 0) return [];
+    const pipe = this.client.pipeline();
+    for (const name of names) pipe.get(this.k.cred(teamId, name));
+    const results = await pipe.exec() ?? [];
+    return results
+      .map(([, raw]: [Error | null, unknown]) => (raw ? JSON.parse(raw as string) as AgentCredentialRecord : null))
+      .filter(Boolean) as AgentCredentialRecord[];
+  }
+
+  async removeAgentCredential(teamId: string, agentName: string): Promise<void> {
+    const cred = await this.getAgentCredential(teamId, agentName);
+    if (!cred) return;
+    const pipe = this.client.pipeline();
+    pipe.del(this.k.cred(teamId, agentName));
+    pipe.del(this.k.credHash(cred.tokenHash));
+    pipe.srem(this.k.creds(teamId), agentName);
+    await pipe.exec();
+  }
+
   // ─── Agents ───────────────────────────────────────────────────────────────
 
   async saveAgent(agent: AgentRecord): Promise<void> {
@@ -113,19 +301,43 @@ export class RedisStore implements IStore {
     const pipe = this.client.pipeline();
     pipe.del(this.k.agent(teamId, agentName));
     pipe.del(this.k.msgs(teamId, agentName));
+    pipe.del(this.k.deliveries(teamId, agentName)); // deliveryseq stays, so the seq keeps counting
+    pipe.del(this.k.drops(teamId, agentName));
     pipe.srem(this.k.agents(teamId), agentName);
     await pipe.exec();
   }
 
+  async setAgentConnected(teamId: string, agentName: string, connected: boolean, at: number): Promise<void> {
+    const raw = await this.client.get(this.k.agent(teamId, agentName));
+    if (!raw) return;
+    const meta = JSON.parse(raw) as AgentMeta;
+    // Only touches the metadata key — the message buffer is left untouched
+    await this.client.set(this.k.agent(teamId, agentName), JSON.stringify({ ...meta, connected, lastSeenAt: at }));
+  }
+
+  async markConnected(teamId: string, agentName: string, sessionId: string, at: number): Promise<void> {
+    const raw = await this.client.get(this.k.agent(teamId, agentName));
+    const meta: AgentMeta = raw ? JSON.parse(raw) as AgentMeta : { name: agentName, teamId, sessionId, connectedAt: at, connected: true };
+    // Metadata and the agent set only — the message list is never rewritten
+    await this.client.pipeline()
+      .set(this.k.agent(teamId, agentName), JSON.stringify({ ...meta, sessionId, connectedAt: at, connected: true }))
+      .sadd(this.k.agents(teamId), agentName)
+      .exec();
+  }
+
   // ─── Message buffer ────────────────────────────────────────────────────────
 
-  async pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<void> {
+  async pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<AgentMessage[]> {
     const exists = await this.client.exists(this.k.agent(teamId, agentName));
-    if (!exists) return;
-    const pipe = this.client.pipeline();
-    pipe.rpush(this.k.msgs(teamId, agentName), JSON.stringify(msg));
-    pipe.ltrim(this.k.msgs(teamId, agentName), -maxBuffer, -1);
-    await pipe.exec();
+    if (!exists) return [];
+    // MULTI so the messages read as evicted are exactly the ones trimmed
+    const results = await this.client.multi()
+      .rpush(this.k.msgs(teamId, agentName), JSON.stringify(msg))
+      .lrange(this.k.msgs(teamId, agentName), 0, -maxBuffer - 1)
+      .ltrim(this.k.msgs(teamId, agentName), -maxBuffer, -1)
+      .exec() ?? [];
+    const evicted = (results[1]?.[1] as string[]) ?? [];
+    return evicted.map((r) => JSON.parse(r) as AgentMessage);
   }
 
   async flushMessages(teamId: string, agentName: string): Promise<AgentMessage[]> {
@@ -136,4 +348,148 @@ export class RedisStore implements IStore {
     const raws = (results[0][1] as string[]) ?? [];
     return raws.map((r) => JSON.parse(r) as AgentMessage);
   }
+
+  async removeMessages(teamId: string, agentName: string, ids: string[]): Promise<AgentMessage[]> {
+    if (ids.length === 0) return [];
+    const removed = await this.client.eval(REMOVE_MESSAGES_SCRIPT, 1, this.k.msgs(teamId, agentName), ...ids) as string[];
+    return removed.map((r) => JSON.parse(r) as AgentMessage);
+  }
+
+  // ─── Drop counts ──────────────────────────────────────────────────────────
+
+  async recordDrops(teamId: string, agentName: string, reason: DropReason, count: number): Promise<void> {
+    await this.client.hincrby(this.k.drops(teamId, agentName), reason, count);
+  }
+
+  async takeDrops(teamId: string, agentName: string): Promise<DropCounts | null> {
+    const results = await this.client.multi()
+      .hgetall(this.k.drops(teamId, agentName))
+      .del(this.k.drops(teamId, agentName))
+      .exec() ?? [];
+    const raw = (results[0]?.[1] as Record<string, string>) ?? {};
+    if (Object.keys(raw).length === 0) return null;
+    return Object.fromEntries(Object.entries(raw).map(([reason, n]) => [reason, Number(n)])) as DropCounts;
+  }
+
+  // ─── Delivery log ─────────────────────────────────────────────────────────
+
+  async appendDelivery(teamId: string, agentName: string, msg: AgentMessage, maxLog: number): Promise<number> {
+    return await this.client.eval(
+      APPEND_DELIVERY_SCRIPT, 2, this.k.deliverySeq(teamId, agentName), this.k.deliveries(teamId, agentName),
+      JSON.stringify(msg), maxLog,
+    ) as number;
+  }
+
+  async listDeliveries(teamId: string, agentName: string, afterSeq: number): Promise<DeliveryRecord[]> {
+    const raws = await this.client.lrange(this.k.deliveries(teamId, agentName), 0, -1);
+    return raws.map((r) => JSON.parse(r) as DeliveryRecord).filter((d) => d.seq > afterSeq);
+  }
+
+  // ─── Channels ─────────────────────────────────────────────────────────────
+
+  async subscribe(teamId: string, channel: string, agentName: string): Promise<void> {
+    const pipe = this.client.pipeline();
+    pipe.sadd(this.k.channel(teamId, channel), agentName);
+    pipe.sadd(this.k.channels(teamId), channel);
+    await pipe.exec();
+  }
+
+  async unsubscribe(teamId: string, channel: string, agentName: string): Promise<void> {
+    await this.client.srem(this.k.channel(teamId, channel), agentName);
+    if (await this.client.scard(this.k.channel(teamId, channel)) === 0) {
+      await this.client.srem(this.k.channels(teamId), channel);
+    }
+  }
+
+  async listSubscribers(teamId: string, channel: string): Promise<string[]> {
+    return this.client.smembers(this.k.channel(teamId, channel));
+  }
+
+  async listChannels(teamId: string): Promise<ChannelRecord[]> {
+    const names = await this.client.smembers(this.k.channels(teamId));
+    if (names.length === 0) return [];
+    const pipe = this.client.pipeline();
+    for (const name of names) pipe.smembers(this.k.channel(teamId, name));
+    const results = await pipe.exec() ?? [];
+    return names.map((name, i) => ({ name, subscribers: (results[i][1] as string[]) ?? [] }));
+  }
+
+  // ─── Context ──────────────────────────────────────────────────────────────
+
+  async setContext(teamId: string, key: string, value: string, updatedBy: string, at: number, expectedVersion?: number): Promise<ContextWriteResult> {
+    // The version check and the write must happen atomically, so they run server-side
+    const [written, raw] = await this.client.eval(
+      SET_CONTEXT_SCRIPT, 1, this.k.context(teamId),
+      key, value, updatedBy, at, expectedVersion ?? -1,
+    ) as [number, string | null];
+    if (written) return { ok: true, entry: JSON.parse(raw!) as ContextEntry };
+    return { ok: false, current: raw ? JSON.parse(raw) as ContextEntry : null };
+  }
+
+  async getContext(teamId: string, key: string): Promise<ContextEntry | null> {
+    const raw = await this.client.hget(this.k.context(teamId), key);
+    return raw ? (JSON.parse(raw) as ContextEntry) : null;
+  }
+
+  async listContext(teamId: string): Promise<ContextEntry[]> {
+    const raws = await this.client.hvals(this.k.context(teamId));
+    return raws.map((r) => JSON.parse(r) as ContextEntry).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  // ─── Tasks ────────────────────────────────────────────────────────────────
+
+  async saveTask(teamId: string, task: TaskRecord, expectedVersion: number): Promise<TaskWriteResult> {
+    const [written, raw] = await this.client.eval(
+      SAVE_TASK_SCRIPT, 1, this.k.tasks(teamId),
+      task.id, JSON.stringify(task), expectedVersion,
+    ) as [number, string | null];
+    if (written) return { ok: true };
+    return { ok: false, current: raw ? JSON.parse(raw) as TaskRecord : null };
+  }
+
+  async getTask(teamId: string, id: string): Promise<TaskRecord | null> {
+    const raw = await this.client.hget(this.k.tasks(teamId), id);
+    return raw ? (JSON.parse(raw) as TaskRecord) : null;
+  }
+
+  async listTasks(teamId: string): Promise<TaskRecord[]> {
+    const raws = await this.client.hvals(this.k.tasks(teamId));
+    return raws.map((r) => JSON.parse(r) as TaskRecord).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // ─── Decisions ────────────────────────────────────────────────────────────
+
+  async appendDecision(teamId: string, decision: DecisionRecord): Promise<void> {
+    await this.client.rpush(this.k.decisions(teamId), JSON.stringify(decision));
+  }
+
+  async listDecisions(teamId: string): Promise<DecisionRecord[]> {
+    const raws = await this.client.lrange(this.k.decisions(teamId), 0, -1);
+    return raws.map((r) => JSON.parse(r) as DecisionRecord);
+  }
+
+  // ─── API specs ────────────────────────────────────────────────────────────
+
+  async appendApiSpec(teamId: string, spec: ApiSpecRecord): Promise<void> {
+    await this.client.rpush(this.k.specs(teamId), JSON.stringify(spec));
+  }
+
+  async listApiSpecs(teamId: string): Promise<ApiSpecRecord[]> {
+    const raws = await this.client.lrange(this.k.specs(teamId), 0, -1);
+    return raws.map((r) => JSON.parse(r) as ApiSpecRecord);
+  }
+
+  // ─── Message history ───────────────────────────────────────────────────────
+
+  async appendHistory(teamId: string, msg: AgentMessage, maxHistory: number): Promise<void> {
+    const pipe = this.client.pipeline();
+    pipe.rpush(this.k.history(teamId), JSON.stringify(msg));
+    pipe.ltrim(this.k.history(teamId), -maxHistory, -1);
+    await pipe.exec();
+  }
+
+  async queryHistory(teamId: string, query: HistoryQuery): Promise<HistoryPage> {
+    const raws = await this.client.lrange(this.k.history(teamId), 0, -1);
+    return paginateHistory(raws.map((r) => JSON.parse(r) as AgentMessage), query);
+  }
 }
@@ -0,0 +1,53 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import Database from 'better-sqlite3';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { SqliteStore } from './sqlite.js';
+import { runStoreContractTests } from './contract.js';
+
+// Use a unique temp database per test; clean it (and its WAL files) up after each test
+let tmpPath = '';
+let opened: SqliteStore | undefined;
+
+afterEach(async () => {
+  await opened?.close();
+  opened = undefined;
+  for (const suffix of ['', '-wal', '-shm']) rmSync(`${tmpPath}${suffix}`, { force: true });
+});
+
+function tempStore(): SqliteStore {
+  tmpPath = join(tmpdir(), `agent-hub-test-${Date.now()}-${Math.random().toString(36).slice(2)}.db`);
+  opened = new SqliteStore(tmpPath);
+  return opened;
+}
+
+runStoreContractTests('SqliteStore', async () => tempStore());
+
+describe('SqliteStore schema', () => {
+  it('migrates a new database and opens it in WAL mode', async () => {
+    const store = tempStore();
+    await store.connect();
+    const db = new Database(tmpPath, { readonly: true });
+    expect(db.pragma('user_version', { simple: true })).toBe(2);
+    expect(db.pragma('journal_mode', { simple: true })).toBe('wal');
+    db.close();
+  });
+
+  it('keeps data across reopening', async () => {
+    const store = tempStore();
+    await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+    await store.close();
+    expect((await new SqliteStore(tmpPath).findTeamByApiKeyHash('h1'))?.id).toBe('team-1');
+  });
+
+  it('refuses a database migrated by a newer hub', async () => {
+    const store = tempStore();
+    await store.connect();
+    await store.close();
+    const db = new Database(tmpPath);
+    db.pragma('user_version = 99');
+    db.close();
+    await expect(new SqliteStore(tmpPath).connect()).rejects.toThrow('schema version 99');
+  });
+});
@@ -0,0 +1,427 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { IStore, TeamRecord, AgentRecord, AgentCredentialRecord, ChannelRecord, ContextEntry, ContextWriteResult, TaskRecord, TaskWriteResult, DecisionRecord, ApiSpecRecord, DeliveryRecord, DropReason, DropCounts, HistoryQuery, HistoryPage } from './types.js';
+import type { AgentMessage } from '../types.js';
+import { paginateHistory } from './history.js';
+
+type AgentMeta = Omit<AgentRecord, 'messageBuffer'>;
+
+// Schema migrations, applied in order. `PRAGMA user_version` records how many
+// have run, so append new ones — never edit one that has shipped.
+// Records are stored as JSON in `data`; the other columns exist to be indexed.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE teams (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+  -- primary and secondary API key hashes, for findTeamByApiKeyHash
+  CREATE TABLE team_keys (hash TEXT PRIMARY KEY, team_id TEXT NOT NULL);
+  CREATE INDEX team_keys_by_team ON team_keys (team_id);
+
+  CREATE TABLE credentials (
+    team_id TEXT NOT NULL, agent_name TEXT NOT NULL, token_hash TEXT NOT NULL UNIQUE, data TEXT NOT NULL,
+    PRIMARY KEY (team_id, agent_name)
+  );
+
+  -- the primary key doubles as the agents-by-team index
+  CREATE TABLE agents (team_id TEXT NOT NULL, name TEXT NOT NULL, data TEXT NOT NULL, PRIMARY KEY (team_id, name));
+
+  CREATE TABLE messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT, team_id TEXT NOT NULL, agent_name TEXT NOT NULL, data TEXT NOT NULL
+  );
+  CREATE INDEX messages_by_recipient ON messages (team_id, agent_name, seq);
+
+  CREATE TABLE delivery_seqs (team_id TEXT NOT NULL, agent_name TEXT NOT NULL, seq INTEGER NOT NULL, PRIMARY KEY (team_id, agent_name));
+  CREATE TABLE deliveries (
+    team_id TEXT NOT NULL, agent_name TEXT NOT NULL, seq INTEGER NOT NULL, data TEXT NOT NULL,
+    PRIMARY KEY (team_id, agent_name, seq)
+  );
+
+  CREATE TABLE history (seq INTEGER PRIMARY KEY AUTOINCREMENT, team_id TEXT NOT NULL, data TEXT NOT NULL);
+  CREATE INDEX history_by_team ON history (team_id, seq);
+
+  CREATE TABLE subscriptions (team_id TEXT NOT NULL, channel TEXT NOT NULL, agent_name TEXT NOT NULL, PRIMARY KEY (team_id, channel, agent_name));
+
+  CREATE TABLE context (team_id TEXT NOT NULL, key TEXT NOT NULL, data TEXT NOT NULL, PRIMARY KEY (team_id, key));
+
+  CREATE TABLE tasks (team_id TEXT NOT NULL, id TEXT NOT NULL, data TEXT NOT NULL, PRIMARY KEY (team_id, id));
+
+  CREATE TABLE decisions (seq INTEGER PRIMARY KEY AUTOINCREMENT, team_id TEXT NOT NULL, data TEXT NOT NULL);
+  CREATE INDEX decisions_by_team ON decisions (team_id, seq);
+
+  CREATE TABLE specs (seq INTEGER PRIMARY KEY AUTOINCREMENT, team_id TEXT NOT NULL, data TEXT NOT NULL);
+  CREATE INDEX specs_by_team ON specs (team_id, seq);
+  `,
+  `
+  CREATE TABLE drops (
+    team_id TEXT NOT NULL, agent_name TEXT NOT NULL, reason TEXT NOT NULL, count INTEGER NOT NULL,
+    PRIMARY KEY (team_id, agent_name, reason)
+  );
+  `,
+];
+
+// Tables holding per-team rows, cleared by deleteTeam
+const TEAM_TABLES = ['team_keys', 'credentials', 'agents', 'messages', 'drops', 'delivery_seqs', 'deliveries', 'history', 'subscriptions', 'context', 'tasks', 'decisions', 'specs'];
+
+/**
+ * Single-file SQLite store for self-hosted hubs: transactional writes without
+ * running Redis. The database is opened (and migrated) on first use, in WAL
+ * mode so reads do not block behind a write.
+ */
+export class SqliteStore implements IStore {
+  private readonly path: string;
+  private handle?: Database.Database;
+
+  constructor(path: string = process.env['SQLITE_DATA_PATH'] ?? '/data/agent-hub.db') {
+    this.path = path;
+  }
+
+  // ─── Lifecycle ────────────────────────────────────────────────────────────
+
+  private get db(): Database.Database {
+    return this.handle ??= this.open();
+  }
+
+  private open(): Database.Database {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const db = new Database(this.path);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    const applied = db.pragma('user_version', { simple: true }) as number;
+    for (let version = applied; version < MIGRATIONS.length; version++) {
+      db.transaction(() => {
+        db.exec(MIGRATIONS[version]);
+        db.pragma(`user_version = ${version + 1}`);
+      })();
+    }
+    return db;
+  }
+
+  async connect(): Promise<void> {
+    await this.healthCheck();
+  }
+
+  async healthCheck(): Promise<void> {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version > MIGRATIONS.length) {
+      throw new Error(`${this.path} has schema version ${version}, newer than this hub supports (${MIGRATIONS.length})`);
+    }
+    this.db.prepare('SELECT 1').get();
+  }
+
+  async close(): Promise<void> {
+    this.handle?.close();
+    this.handle = undefined;
+  }
+
+  // ─── Row helpers ──────────────────────────────────────────────────────────
+
+  private row<T>(sql: string, ...params: unknown[]): T | null {
+    const found = this.db.prepare(sql).get(...params) as { data: string } | undefined;
+    return found ? (JSON.parse(found.data) as T) : null;
+  }
+
+  private rows<T>(sql: string, ...params: unknown[]): T[] {
+    return (this.db.prepare(sql).all(...params) as { data: string }[]).map((r) => JSON.parse(r.data) as T);
+  }
+
+  // ─── Teams ────────────────────────────────────────────────────────────────
+
+  async createTeam(team: TeamRecord): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare('INSERT OR REPLACE INTO teams (id, data) VALUES (?, ?)').run(team.id, JSON.stringify(team));
+      this.indexKeys(team);
+    })();
+  }
+
+  async getTeam(teamId: string): Promise<TeamRecord | null> {
+    return this.row<TeamRecord>('SELECT data FROM teams WHERE id = ?', teamId);
+  }
+
+  async listTeams(): Promise<TeamRecord[]> {
+    return this.rows<TeamRecord>('SELECT data FROM teams');
+  }
+
+  async findTeamByApiKeyHash(hash: string): Promise<TeamRecord | null> {
+    return this.row<TeamRecord>('SELECT t.data FROM team_keys k JOIN teams t ON t.id = k.team_id WHERE k.hash = ?', hash);
+  }
+
+  async updateTeam(team: TeamRecord): Promise<void> {
+    this.db.transaction(() => {
+      const updated = this.db.prepare('UPDATE teams SET data = ? WHERE id = ?').run(JSON.stringify(team), team.id);
+      if (updated.changes === 0) return;
+      // Drop index entries for revoked/rotated-out keys so they stop resolving
+      this.db.prepare('DELETE FROM team_keys WHERE team_id = ?').run(team.id);
+      this.indexKeys(team);
+    })();
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM teams WHERE id = ?').run(teamId);
+      for (const table of TEAM_TABLES) this.db.prepare(`DELETE FROM ${table} WHERE team_id = ?`).run(teamId);
+    })();
+  }
+
+  private indexKeys(team: TeamRecord): void {
+    const insert = this.db.prepare('INSERT OR REPLACE INTO team_keys (hash, team_id) VALUES (?, ?)');
+    for (const hash of [team.apiKeyHash, ...(team.keys ?? []).map((k) => k.hash)]) insert.run(hash, team.id);
+  }
+
+  // ─── Agent credentials ────────────────────────────────────────────────────
+
+  async createAgentCredential(cred: AgentCredentialRecord): Promise<boolean> {
+    const { changes } = this.db.prepare('INSERT OR IGNORE INTO credentials (team_id, agent_name, token_hash, data) VALUES (?, ?, ?, ?)')
+      .run(cred.teamId, cred.agentName, cred.tokenHash, JSON.stringify(cred));
+    return changes === 1;
+  }
+
+  async saveAgentCredential(cred: AgentCredentialRecord): Promise<void> {
+    this.db.prepare('INSERT OR REPLACE INTO credentials (team_id, agent_name, token_hash, data) VALUES (?, ?, ?, ?)')
+      .run(cred.teamId, cred.agentName, cred.tokenHash, JSON.stringify(cred));
+  }
+
+  async getAgentCredential(teamId: string, agentName: string): Promise<AgentCredentialRecord | null> {
+    return this.row<AgentCredentialRecord>('SELECT data FROM credentials WHERE team_id = ? AND agent_name = ?', teamId, agentName);
+  }
+
+  async findAgentCredentialByTokenHash(hash: string): Promise<AgentCredentialRecord | null> {
+    return this.row<AgentCredentialRecord>('SELECT data FROM credentials WHERE token_hash = ?', hash);
+  }
+
+  async listAgentCredentials(teamId: string): Promise<AgentCredentialRecord[]> {
+    return this.rows<AgentCredentialRecord>('SELECT data FROM credentials WHERE team_id = ?', teamId);
+  }
+
+  async removeAgentCredential(teamId: string, agentName: string): Promise<void> {
+    this.db.prepare('DELETE FROM credentials WHERE team_id = ? AND agent_name = ?').run(teamId, agentName);
+  }
+
+  // ─── Agents ───────────────────────────────────────────────────────────────
+
+  async saveAgent(agent: AgentRecord): Promise<void> {
+    const { messageBuffer, ...meta } = agent;
+    this.db.transaction(() => {
+      this.db.prepare('INSERT OR REPLACE INTO agents (team_id, name, data) VALUES (?, ?, ?)')
+        .run(agent.teamId, agent.name, JSON.stringify(meta));
+      // Always replace the message buffer with exactly what was provided
+      this.db.prepare('DELETE FROM messages WHERE team_id = ? AND agent_name = ?').run(agent.teamId, agent.name);
+      const insert = this.db.prepare('INSERT INTO messages (team_id, agent_name, data) VALUES (?, ?, ?)');
+      for (const msg of messageBuffer) insert.run(agent.teamId, agent.name, JSON.stringify(msg));
+    })();
+  }
+
+  async getAgent(teamId: string, agentName: string): Promise<AgentRecord | null> {
+    const meta = this.row<AgentMeta>('SELECT data FROM agents WHERE team_id = ? AND name = ?', teamId, agentName);
+    return meta ? { ...meta, messageBuffer: this.buffer(teamId, agentName) } : null;
+  }
+
+  async listAgents(teamId: string): Promise<AgentRecord[]> {
+    return this.rows<AgentMeta>('SELECT data FROM agents WHERE team_id = ?', teamId)
+      .map((meta) => ({ ...meta, messageBuffer: this.buffer(teamId, meta.name) }));
+  }
+
+  async removeAgent(teamId: string, agentName: string): Promise<void> {
+    this.db.transaction(() => {
+      // delivery_seqs stays, so the seq keeps counting
+      for (const table of ['messages', 'drops', 'deliveries']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE team_id = ? AND agent_name = ?`).run(teamId, agentName);
+      }
+      this.db.prepare('DELETE FROM agents WHERE team_id = ? AND name = ?').run(teamId, agentName);
+    })();
+  }
+
+  async setAgentConnected(teamId: string, agentName: string, connected: boolean, at: number): Promise<void> {
+    this.db.transaction(() => {
+      const meta = this.row<AgentMeta>('SELECT data FROM agents WHERE team_id = ? AND name = ?', teamId, agentName);
+      if (!meta) return;
+      this.db.prepare('UPDATE agents SET data = ? WHERE team_id = ? AND name = ?')
+        .run(JSON.stringify({ ...meta, connected, lastSeenAt: at }), teamId, agentName);
+    })();
+  }
+
+  async markConnected(teamId: string, agentName: string, sessionId: string, at: number): Promise<void> {
+    this.db.transaction(() => {
+      const meta = this.row<AgentMeta>('SELECT data FROM agents WHERE team_id = ? AND name = ?', teamId, agentName);
+      this.db.prepare('INSERT OR REPLACE INTO agents (team_id, name, data) VALUES (?, ?, ?)')
+        .run(teamId, agentName, JSON.stringify({ name: agentName, teamId, ...meta, sessionId, connectedAt: at, connected: true }));
+    })();
+  }
+
+  private buffer(teamId: string, agentName: string): AgentMessage[] {
+    return this.rows<AgentMessage>('SELECT data FROM messages WHERE team_id = ? AND agent_name = ? ORDER BY seq', teamId, agentName);
+  }
+
+  // ─── Message buffer ────────────────────────────────────────────────────────
+
+  async pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<AgentMessage[]> {
+    return this.db.transaction((): AgentMessage[] => {
+      if (!this.db.prepare('SELECT 1 FROM agents WHERE team_id = ? AND name = ?').get(teamId, agentName)) return [];
+      this.db.prepare('INSERT INTO messages (team_id, agent_name, data) VALUES (?, ?, ?)').run(teamId, agentName, JSON.stringify(msg));
+      const evicted = this.db.prepare(`
+        SELECT seq, data FROM messages WHERE team_id = ? AND agent_name = ? AND seq NOT IN (
+          SELECT seq FROM messages WHERE team_id = ? AND agent_name = ? ORDER BY seq DESC LIMIT ?
+        ) ORDER BY seq`).all(teamId, agentName, teamId, agentName, maxBuffer) as { seq: number; data: string }[];
+      const remove = this.db.prepare('DELETE FROM messages WHERE seq = ?');
+      for (const { seq } of evicted) remove.run(seq);
+      return evicted.map((r) => JSON.parse(r.data) as AgentMessage);
+    })();
+  }
+
+  async flushMessages(teamId: string, agentName: string): Promise<AgentMessage[]> {
+    return this.db.transaction(() => {
+      const msgs = this.buffer(teamId, agentName);
+      this.db.prepare('DELETE FROM messages WHERE team_id = ? AND agent_name = ?').run(teamId, agentName);
+      return msgs;
+    })();
+  }
+
+  async removeMessages(teamId: string, agentName: string, ids: string[]): Promise<AgentMessage[]> {
+    return this.db.transaction((): AgentMessage[] => {
+      const remove = new Set(ids);
+      const queued = this.db.prepare('SELECT seq, data FROM messages WHERE team_id = ? AND agent_name = ? ORDER BY seq')
+        .all(teamId, agentName) as { seq: number; data: string }[];
+      const removed = queued.map((r) => ({ seq: r.seq, message: JSON.parse(r.data) as AgentMessage })).filter((r) => remove.has(r.message.id));
+      const del = this.db.prepare('DELETE FROM messages WHERE seq = ?');
+      for (const { seq } of removed) del.run(seq);
+      return removed.map((r) => r.message);
+    })();
+  }
+
+  // ─── Drop counts ──────────────────────────────────────────────────────────
+
+  async recordDrops(teamId: string, agentName: string, reason: DropReason, count: number): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO drops (team_id, agent_name, reason, count) VALUES (?, ?, ?, ?)
+      ON CONFLICT (team_id, agent_name, reason) DO UPDATE SET count = count + excluded.count`).run(teamId, agentName, reason, count);
+  }
+
+  async takeDrops(teamId: string, agentName: string): Promise<DropCounts | null> {
+    return this.db.transaction((): DropCounts | null => {
+      const found = this.db.prepare('SELECT reason, count FROM drops WHERE team_id = ? AND agent_name = ?')
+        .all(teamId, agentName) as { reason: DropReason; count: number }[];
+      if (found.length === 0) return null;
+      this.db.prepare('DELETE FROM drops WHERE team_id = ? AND agent_name = ?').run(teamId, agentName);
+      return Object.fromEntries(found.map((r) => [r.reason, r.count]));
+    })();
+  }
+
+  // ─── Delivery log ─────────────────────────────────────────────────────────
+
+  async appendDelivery(teamId: string, agentName: string, msg: AgentMessage, maxLog: number): Promise<number> {
+    return this.db.transaction(() => {
+      const { seq } = this.db.prepare(`
+        INSERT INTO delivery_seqs (team_id, agent_name, seq) VALUES (?, ?, 1)
+        ON CONFLICT (team_id, agent_name) DO UPDATE SET seq = seq + 1
+        RETURNING seq`).get(teamId, agentName) as { seq: number };
+      this.db.prepare('INSERT INTO deliveries (team_id, agent_name, seq, data) VALUES (?, ?, ?, ?)')
+        .run(teamId, agentName, seq, JSON.stringify(msg));
+      this.db.prepare('DELETE FROM deliveries WHERE team_id = ? AND agent_name = ? AND seq <= ?').run(teamId, agentName, seq - maxLog);
+      return seq;
+    })();
+  }
+
+  async listDeliveries(teamId: string, agentName: string, afterSeq: number): Promise<DeliveryRecord[]> {
+    const found = this.db.prepare('SELECT seq, data FROM deliveries WHERE team_id = ? AND agent_name = ? AND seq > ? ORDER BY seq')
+      .all(teamId, agentName, afterSeq) as { seq: number; data: string }[];
+    return found.map((r) => ({ seq: r.seq, message: JSON.parse(r.data) as AgentMessage }));
+  }
+
+  // ─── Channels ─────────────────────────────────────────────────────────────
+
+  async subscribe(teamId: string, channel: string, agentName: string): Promise<void> {
+    this.db.prepare('INSERT OR IGNORE INTO subscriptions (team_id, channel, agent_name) VALUES (?, ?, ?)').run(teamId, channel, agentName);
+  }
+
+  async unsubscribe(teamId: string, channel: string, agentName: string): Promise<void> {
+    this.db.prepare('DELETE FROM subscriptions WHERE team_id = ? AND channel = ? AND agent_name = ?').run(teamId, channel, agentName);
+  }
+
+  async listSubscribers(teamId: string, channel: string): Promise<string[]> {
+    const found = this.db.prepare('SELECT agent_name FROM subscriptions WHERE team_id = ? AND channel = ? ORDER BY rowid')
+      .all(teamId, channel) as { agent_name: string }[];
+    return found.map((r) => r.agent_name);
+  }
+
+  async listChannels(teamId: string): Promise<ChannelRecord[]> {
+    const found = this.db.prepare('SELECT channel, agent_name FROM subscriptions WHERE team_id = ? ORDER BY rowid')
+      .all(teamId) as { channel: string; agent_name: string }[];
+    const channels = new Map<string, string[]>();
+    for (const { channel, agent_name } of found) channels.set(channel, [...(channels.get(channel) ?? []), agent_name]);
+    return [...channels].map(([name, subscribers]) => ({ name, subscribers }));
+  }
+
+  // ─── Context ──────────────────────────────────────────────────────────────
+
+  async setContext(teamId: string, key: string, value: string, updatedBy: string, at: number, expectedVersion?: number): Promise<ContextWriteResult> {
+    return this.db.transaction((): ContextWriteResult => {
+      const current = this.row<ContextEntry>('SELECT data FROM context WHERE team_id = ? AND key = ?', teamId, key);
+      if (expectedVersion !== undefined && (current?.version ?? 0) !== expectedVersion) return { ok: false, current };
+      const entry: ContextEntry = { key, value, version: (current?.version ?? 0) + 1, updatedBy, updatedAt: at };
+      this.db.prepare('INSERT OR REPLACE INTO context (team_id, key, data) VALUES (?, ?, ?)').run(teamId, key, JSON.stringify(entry));
+      return { ok: true, entry };
+    })();
+  }
+
+  async getContext(teamId: string, key: string): Promise<ContextEntry | null> {
+    return this.row<ContextEntry>('SELECT data FROM context WHERE team_id = ? AND key = ?', teamId, key);
+  }
+
+  async listContext(teamId: string): Promise<ContextEntry[]> {
+    return this.rows<ContextEntry>('SELECT data FROM context WHERE team_id = ?', teamId).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  // ─── Tasks ────────────────────────────────────────────────────────────────
+
+  async saveTask(teamId: string, task: TaskRecord, expectedVersion: number): Promise<TaskWriteResult> {
+    return this.db.transaction((): TaskWriteResult => {
+      const current = this.row<TaskRecord>('SELECT data FROM tasks WHERE team_id = ? AND id = ?', teamId, task.id);
+      if ((current?.version ?? 0) !== expectedVersion) return { ok: false, current };
+      this.db.prepare('INSERT OR REPLACE INTO tasks (team_id, id, data) VALUES (?, ?, ?)').run(teamId, task.id, JSON.stringify(task));
+      return { ok: true };
+    })();
+  }
+
+  async getTask(teamId: string, id: string): Promise<TaskRecord | null> {
+    return this.row<TaskRecord>('SELECT data FROM tasks WHERE team_id = ? AND id = ?', teamId, id);
+  }
+
+  async listTasks(teamId: string): Promise<TaskRecord[]> {
+    return this.rows<TaskRecord>('SELECT data FROM tasks WHERE team_id = ?', teamId).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // ─── Decisions ────────────────────────────────────────────────────────────
+
+  async appendDecision(teamId: string, decision: DecisionRecord): Promise<void> {
+    this.db.prepare('INSERT INTO decisions (team_id, data) VALUES (?, ?)').run(teamId, JSON.stringify(decision));
+  }
+
+  async listDecisions(teamId: string): Promise<DecisionRecord[]> {
+    return this.rows<DecisionRecord>('SELECT data FROM decisions WHERE team_id = ? ORDER BY seq', teamId);
+  }
+
+  // ─── API specs ────────────────────────────────────────────────────────────
+
+  async appendApiSpec(teamId: string, spec: ApiSpecRecord): Promise<void> {
+    this.db.prepare('INSERT INTO specs (team_id, data) VALUES (?, ?)').run(teamId, JSON.stringify(spec));
+  }
+
+  async listApiSpecs(teamId: string): Promise<ApiSpecRecord[]> {
+    return this.rows<ApiSpecRecord>('SELECT data FROM specs WHERE team_id = ? ORDER BY seq', teamId);
+  }
+
+  // ─── Message history ───────────────────────────────────────────────────────
+
+  async appendHistory(teamId: string, msg: AgentMessage, maxHistory: number): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare('INSERT INTO history (team_id, data) VALUES (?, ?)').run(teamId, JSON.stringify(msg));
+      this.db.prepare(`
+        DELETE FROM history WHERE team_id = ? AND seq NOT IN (
+          SELECT seq FROM history WHERE team_id = ? ORDER BY seq DESC LIMIT ?
+        )`).run(teamId, teamId, maxHistory);
+    })();
+  }
+
+  async queryHistory(teamId: string, query: HistoryQuery): Promise<HistoryPage> {
+    return paginateHistory(this.rows<AgentMessage>('SELECT data FROM history WHERE team_id = ? ORDER BY seq', teamId), query);
+  }
+}
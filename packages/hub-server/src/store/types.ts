@@ -1,33 +1,199 @@
-import type { AgentMessage } from '../types.js';
+import type { ApiSpecRecord, DecisionRecord, PayloadSchema, TaskRecord } from '@agent-share/shared';
+import type { AgentMessage, MessageType, Role } from '../types.js';
+
+// Task, decision and spec records are shared with mcp-client, which rebuilds them over Nostr
+export type { ApiSpecRecord, DecisionRecord, TaskEvent, TaskRecord, TaskStatus } from '@agent-share/shared';
+
+// Additional team API key, minted or kept alive by rotation
+export interface TeamKeyRecord {
+  id: string;
+  label: string;
+  hash: string;
+  createdAt: number;
+  expiresAt?: number;  // rejected by requireTeamKey once passed
+  role?: Exclude<Role, 'owner'>;  // granted to agents registering with this key (default member)
+}
+
+// Team-defined message type, registered alongside the built-in ones
+export interface MessageTypeRecord {
+  name: string;
+  description: string;
+  payloadSchema?: PayloadSchema;  // validates `payload` on send; any payload is accepted without one
+  createdAt: number;
+}
+
+// Team retention rule for queued messages. A rule without `type` covers every
+// type; a message matched by several rules must satisfy all of them
+export interface RetentionRule {
+  type?: MessageType;
+  maxAgeMs?: number;   // dropped once older than this
+  maxCount?: number;   // newest kept per mailbox, older ones dropped
+}
 
 export interface TeamRecord {
   id: string;
-  apiKeyHash: string;
+  name?: string;            // display name, set at creation or by rename
+  apiKeyHash: string;       // primary key
+  createdAt: number;
+  keys?: TeamKeyRecord[];   // secondary keys; findTeamByApiKeyHash matches these too
+  messageTypes?: MessageTypeRecord[];  // custom types; the built-in ones are never stored
+  retention?: RetentionRule[];         // applied to mailboxes by the retention janitor
+}
+
+// Per-agent credential issued by POST /agent/register. Binds a token to a
+// single agent name so callers cannot claim another teammate's identity.
+export interface AgentCredentialRecord {
+  teamId: string;
+  agentName: string;
+  tokenHash: string;
   createdAt: number;
+  keyHash?: string;  // team key used to register — revoking it revokes this credential
+  role?: Role;       // absent on credentials issued before roles existed — treated as member
 }
 
+// A registered team member. The record outlives the live connection so that
+// messages sent while the agent is offline are queued in its buffer.
 export interface AgentRecord {
   name: string;
   teamId: string;
   sessionId: string;
   connectedAt: number;
+  connected: boolean;
+  lastSeenAt?: number;  // set when the live connection closes
   messageBuffer: AgentMessage[];
 }
 
+// A named topic such as `#backend-api`; messages sent to it reach its subscribers
+export interface ChannelRecord {
+  name: string;           // includes the leading '#'
+  subscribers: string[];  // agent names
+}
+
+// One key on the team blackboard; `version` starts at 1 and increments on every write
+export interface ContextEntry {
+  key: string;
+  value: string;
+  version: number;
+  updatedBy: string;  // agent name
+  updatedAt: number;
+}
+
+// Outcome of setContext. On a version mismatch nothing is written and
+// `current` holds the entry the caller has to reconcile with
+export type ContextWriteResult =
+  | { ok: true; entry: ContextEntry }
+  | { ok: false; current: ContextEntry | null };
+
+// On a version mismatch nothing is written and `current` is the stored task
+export type TaskWriteResult =
+  | { ok: true }
+  | { ok: false; current: TaskRecord | null };
+
+// A message as sent down an agent's /agent/stream, numbered by a per-agent
+// sequence that only ever increases. The number is the SSE event id
+export interface DeliveryRecord {
+  seq: number;
+  message: AgentMessage;
+}
+
+// Why a queued message left a mailbox unread: pushed out of a full mailbox,
+// past its `expiresAt` or a rule's maxAge, or over a rule's maxCount
+export type DropReason = 'overflow' | 'expired' | 'retention';
+
+// Messages dropped from a mailbox since the agent was last told, by reason
+export type DropCounts = Partial<Record<DropReason, number>>;
+
+export interface HistoryQuery {
+  from?: string;
+  to?: string;
+  type?: MessageType;
+  since?: number;   // inclusive, ms epoch
+  until?: number;   // inclusive, ms epoch
+  cursor?: string;  // id of the last message of the previous page
+  limit: number;
+}
+
+export interface HistoryPage {
+  messages: AgentMessage[];   // newest first
+  nextCursor: string | null;  // pass back as `cursor` to fetch older messages
+}
+
 export interface IStore {
+  // Lifecycle — connect() runs once at boot and fails if the backend is unusable
+  connect(): Promise<void>;
+  healthCheck(): Promise<void>;  // rejects with the reason the backend cannot serve requests
+  close(): Promise<void>;
+
   // Teams
   createTeam(team: TeamRecord): Promise<void>;
   getTeam(teamId: string): Promise<TeamRecord | null>;
   listTeams(): Promise<TeamRecord[]>;
   findTeamByApiKeyHash(hash: string): Promise<TeamRecord | null>;
+  updateTeam(team: TeamRecord): Promise<void>;
+  deleteTeam(teamId: string): Promise<void>;  // cascades to agents, messages, drop counts, delivery logs, history, credentials, channels, context, tasks, decisions and API specs
+
+  // Agent credentials — createAgentCredential only writes if the name is free,
+  // so two registrations cannot both claim it; false when it is taken
+  createAgentCredential(cred: AgentCredentialRecord): Promise<boolean>;
+  saveAgentCredential(cred: AgentCredentialRecord): Promise<void>;
+  getAgentCredential(teamId: string, agentName: string): Promise<AgentCredentialRecord | null>;
+  findAgentCredentialByTokenHash(hash: string): Promise<AgentCredentialRecord | null>;
+  listAgentCredentials(teamId: string): Promise<AgentCredentialRecord[]>;
+  removeAgentCredential(teamId: string, agentName: string): Promise<void>;
 
   // Agents
   saveAgent(agent: AgentRecord): Promise<void>;
   getAgent(teamId: string, agentName: string): Promise<AgentRecord | null>;
   listAgents(teamId: string): Promise<AgentRecord[]>;
-  removeAgent(teamId: string, agentName: string): Promise<void>;
+  removeAgent(teamId: string, agentName: string): Promise<void>;  // also drops the agent's mailbox, drop counts and delivery log, but not its delivery seq
+  setAgentConnected(teamId: string, agentName: string, connected: boolean, at: number): Promise<void>;
+  // Records a new live session, creating the agent if needed. Never touches the
+  // mailbox, so a message queued while the agent connects is kept
+  markConnected(teamId: string, agentName: string, sessionId: string, at: number): Promise<void>;
 
   // Message buffer
-  pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<void>;
+  pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<AgentMessage[]>;  // the oldest messages pushed out to stay within maxBuffer
   flushMessages(teamId: string, agentName: string): Promise<AgentMessage[]>;
+  removeMessages(teamId: string, agentName: string, ids: string[]): Promise<AgentMessage[]>;  // the ones that were still queued
+
+  // Drop counts — messages an agent lost unread, kept until it is told
+  recordDrops(teamId: string, agentName: string, reason: DropReason, count: number): Promise<void>;
+  takeDrops(teamId: string, agentName: string): Promise<DropCounts | null>;  // and reset them; null when nothing was dropped
+
+  // Delivery log — the most recent `maxLog` messages sent on an agent's stream,
+  // kept so a reconnecting stream can replay what followed its Last-Event-ID.
+  // Seqs never restart for a name, even once it is removed and registered again,
+  // so a Last-Event-ID from before the removal never skips newer messages
+  appendDelivery(teamId: string, agentName: string, msg: AgentMessage, maxLog: number): Promise<number>;  // the message's seq
+  listDeliveries(teamId: string, agentName: string, afterSeq: number): Promise<DeliveryRecord[]>;  // oldest first
+
+  // Channels — a channel exists while it has at least one subscriber
+  subscribe(teamId: string, channel: string, agentName: string): Promise<void>;
+  unsubscribe(teamId: string, channel: string, agentName: string): Promise<void>;
+  listSubscribers(teamId: string, channel: string): Promise<string[]>;
+  listChannels(teamId: string): Promise<ChannelRecord[]>;
+
+  // Team context — versioned key-value blackboard. With `expectedVersion` the
+  // write is a compare-and-set: 0 means "only if absent", n "only if at version n"
+  setContext(teamId: string, key: string, value: string, updatedBy: string, at: number, expectedVersion?: number): Promise<ContextWriteResult>;
+  getContext(teamId: string, key: string): Promise<ContextEntry | null>;
+  listContext(teamId: string): Promise<ContextEntry[]>;  // sorted by key
+
+  // Tasks — saveTask only writes if the stored task is still at `expectedVersion`
+  // (0 for a new one), so two agents cannot both claim a task
+  saveTask(teamId: string, task: TaskRecord, expectedVersion: number): Promise<TaskWriteResult>;
+  getTask(teamId: string, id: string): Promise<TaskRecord | null>;
+  listTasks(teamId: string): Promise<TaskRecord[]>;  // oldest first
+
+  // Decision log — append-only and uncapped, unlike message history
+  appendDecision(teamId: string, decision: DecisionRecord): Promise<void>;
+  listDecisions(teamId: string): Promise<DecisionRecord[]>;  // in the order appended
+
+  // API spec registry — append-only and uncapped, like the decision log
+  appendApiSpec(teamId: string, spec: ApiSpecRecord): Promise<void>;
+  listApiSpecs(teamId: string): Promise<ApiSpecRecord[]>;  // in the order appended, every service
+
+  // Message history — persistent per-team log, unaffected by flushMessages
+  appendHistory(teamId: string, msg: AgentMessage, maxHistory: number): Promise<void>;
+  queryHistory(teamId: string, query: HistoryQuery): Promise<HistoryPage>;
 }
@@ -0,0 +1,53 @@
+import { afterAll, bench, describe } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { rmSync } from 'fs';
+import { VolumeStore } from './volume.js';
+import { MemoryStore } from './memory.js';
+import type { IStore } from './types.js';
+import type { AgentMessage } from '../types.js';
+
+// Broadcast throughput: one message appended to the team history and pushed to
+// every member's mailbox, the store calls deliverMessage makes for `to: broadcast`.
+// Run with `npm run bench -w packages/hub-server`.
+
+const TEAM = 'team-1';
+const AGENTS = Array.from({ length: 50 }, (_, i) => `agent-${i}`);
+const path = join(tmpdir(), `agent-hub-bench-${Date.now()}.json`);
+
+let n = 0;
+function message(): AgentMessage {
+  return { id: `m${++n}`, from: 'lead', to: 'broadcast', type: 'question', content: 'Who owns the deploy script?', timestamp: Date.now() };
+}
+
+async function seed(store: IStore): Promise<IStore> {
+  await store.createTeam({ id: TEAM, apiKeyHash: 'hash', createdAt: 0 });
+  for (const name of AGENTS) {
+    await store.saveAgent({ name, teamId: TEAM, sessionId: name, connectedAt: 0, connected: false, messageBuffer: [] });
+  }
+  return store;
+}
+
+async function broadcast(store: IStore): Promise<void> {
+  const msg = message();
+  await store.appendHistory(TEAM, msg, 1000);
+  for (const name of AGENTS) await store.pushMessage(TEAM, name, msg, 500);
+}
+
+const memory = await seed(new MemoryStore());
+const volume = await seed(new VolumeStore(path));
+
+afterAll(async () => {
+  await volume.close();
+  for (const suffix of ['', '.tmp', '.journal']) rmSync(`${path}${suffix}`, { force: true });
+});
+
+describe(`broadcast to ${AGENTS.length} agents`, () => {
+  bench('MemoryStore', () => broadcast(memory));
+  bench('VolumeStore', () => broadcast(volume));
+});
+
+describe(`10 concurrent broadcasts to ${AGENTS.length} agents`, () => {
+  bench('MemoryStore', async () => { await Promise.all(Array.from({ length: 10 }, () => broadcast(memory))); });
+  bench('VolumeStore', async () => { await Promise.all(Array.from({ length: 10 }, () => broadcast(volume))); });
+});
@@ -1,19 +1,141 @@
-import { afterEach } from 'vitest';
+import { afterEach, describe, it, expect } from 'vitest';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { rmSync, existsSync } from 'fs';
+import { mkdirSync, rmSync, readFileSync, writeFileSync, appendFileSync } from 'fs';
 import { VolumeStore } from './volume.js';
+import type { AgentMessage } from '../types.js';
 import { runStoreContractTests } from './contract.js';
 
-// Use a unique temp file per test run; clean up after each test
+// Use a unique temp file per test run; close the last store opened on it (it
+// may still be compacting), then clean it and its journal up after each test.
+// Earlier stores on the path are abandoned as if the hub had crashed.
 let tmpPath = '';
+let latest: VolumeStore | undefined;
 
-afterEach(() => {
-  if (tmpPath && existsSync(tmpPath)) rmSync(tmpPath);
-  if (tmpPath && existsSync(`${tmpPath}.tmp`)) rmSync(`${tmpPath}.tmp`);
+afterEach(async () => {
+  await latest?.close();
+  latest = undefined;
+  for (const suffix of ['', '.tmp', '.journal']) rmSync(`${tmpPath}${suffix}`, { force: true });
 });
 
-runStoreContractTests('VolumeStore', async () => {
+function open(path: string, compactAfterOps?: number): VolumeStore {
+  latest = new VolumeStore(path, compactAfterOps);
+  return latest;
+}
+
+function tempPath(): string {
   tmpPath = join(tmpdir(), `agent-hub-test-${Date.now()}-${Math.random().toString(36).slice(2)}.json`);
-  return new VolumeStore(tmpPath);
+  return tmpPath;
+}
+
+const msg = (id: string): AgentMessage => ({ id, from: 'alice', to: 'bob', type: 'question', content: id, timestamp: 1000 });
+
+runStoreContractTests('VolumeStore', async () => open(tempPath()));
+
+describe('VolumeStore.connect()', () => {
+  it('refuses a data file it cannot parse instead of starting empty', async () => {
+    tmpPath = join(tmpdir(), `agent-hub-test-${Date.now()}-corrupt.json`);
+    writeFileSync(tmpPath, '{"teams":');
+    await expect(new VolumeStore(tmpPath).connect()).rejects.toThrow(`${tmpPath} is not valid JSON`);
+  });
+
+  it('refuses a journal with a corrupt line before its last', async () => {
+    const path = tempPath();
+    writeFileSync(`${path}.journal`, '{"seq":1,"type":"putTeam"\n{"seq":2,"type":"deleteTeam","teamId":"t"}\n');
+    await expect(new VolumeStore(path).connect()).rejects.toThrow(`${path}.journal line 1 is corrupt`);
+  });
+});
+
+describe('VolumeStore journal', () => {
+  it('replays the journal after a crash', async () => {
+    const path = tempPath();
+    const store = open(path);
+    await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+    await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's', connectedAt: 1, connected: false, messageBuffer: [] });
+    await store.pushMessage('team-1', 'bob', msg('m1'), 10);
+
+    // No close(): the snapshot was never written
+    const reopened = open(path);
+    expect((await reopened.getAgent('team-1', 'bob'))?.messageBuffer.map((m) => m.id)).toEqual(['m1']);
+  });
+
+  it('drops a torn last line and keeps the ops before it', async () => {
+    const path = tempPath();
+    const store = open(path);
+    await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+    appendFileSync(`${path}.journal`, '{"seq":2,"type":"deleteTe');
+
+    const reopened = open(path);
+    await reopened.connect();
+    expect(await reopened.getTeam('team-1')).not.toBeNull();
+    await reopened.createTeam({ id: 'team-2', apiKeyHash: 'h2', createdAt: 2 });
+    expect((await open(path).listTeams()).map((t) => t.id).sort()).toEqual(['team-1', 'team-2']);
+  });
+
+  it('keeps every write made concurrently', async () => {
+    const path = tempPath();
+    const store = open(path);
+    await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+    await store.saveAgent({ name: 'bob', teamId: 'team-1', sessionId: 's', connectedAt: 1, connected: false, messageBuffer: [] });
+    await Promise.all(Array.from({ length: 50 }, (_, i) => store.pushMessage('team-1', 'bob', msg(`m${i}`), 100)));
+
+    const reopened = open(path);
+    expect((await reopened.getAgent('team-1', 'bob'))?.messageBuffer).toHaveLength(50);
+  });
+
+  it('recovers from a failed append by compacting before the next write', async () => {
+    const path = tempPath();
+    const store = open(path);
+    await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+
+    // A directory in the journal's place makes the next append fail
+    rmSync(`${path}.journal`);
+    mkdirSync(`${path}.journal`);
+    await expect(store.createTeam({ id: 'team-2', apiKeyHash: 'h2', createdAt: 2 })).rejects.toThrow();
+    await expect(store.healthCheck()).rejects.toThrow('write failed');
+
+    rmSync(`${path}.journal`, { recursive: true });
+    await store.createTeam({ id: 'team-3', apiKeyHash: 'h3', createdAt: 3 });
+    await store.healthCheck();
+    await store.deleteTeam('team-3');
+
+    // The failed op was already applied in memory, so the compaction kept it
+    const reopened = open(path);
+    expect((await reopened.listTeams()).map((t) => t.id).sort()).toEqual(['team-1', 'team-2']);
+  });
+
+  it('compacts the journal into the snapshot every compactAfterOps ops', async () => {
+    const path = tempPath();
+    const store = open(path, 3);
+    for (const id of ['team-1', 'team-2', 'team-3']) await store.createTeam({ id, apiKeyHash: id, createdAt: 1 });
+    expect(readFileSync(`${path}.journal`, 'utf-8')).toBe('');
+    expect(JSON.parse(readFileSync(path, 'utf-8'))).toMatchObject({ seq: 3 });
+
+    await store.deleteTeam('team-1');
+    const reopened = open(path);
+    expect((await reopened.listTeams()).map((t) => t.id).sort()).toEqual(['team-2', 'team-3']);
+  });
+
+  it('skips journal ops already folded into the snapshot', async () => {
+    const path = tempPath();
+    const store = open(path);
+    await store.createTeam({ id: 'team-1', apiKeyHash: 'h1', createdAt: 1 });
+    await store.appendDecision('team-1', { id: 'd1', title: 't', context: 'c', decidedBy: 'alice', decidedAt: 1 });
+    const journal = readFileSync(`${path}.journal`, 'utf-8');
+    await store.close();
+    // A crash between writing the snapshot and emptying the journal
+    writeFileSync(`${path}.journal`, journal);
+
+    expect(await open(path).listDecisions('team-1')).toHaveLength(1);
+  });
+
+  it('reads a snapshot written before the journal existed', async () => {
+    const path = tempPath();
+    writeFileSync(path, JSON.stringify({ teams: { t: { id: 't', apiKeyHash: 'h', createdAt: 1 } }, agents: {}, messages: {} }));
+    const store = open(path);
+    await store.connect();
+    expect(await store.findTeamByApiKeyHash('h')).toMatchObject({ id: 't' });
+    await store.appendHistory('t', msg('m1'), 10);
+    expect((await open(path).queryHistory('t', { limit: 10 })).messages).toHaveLength(1);
+  });
 });
@@ -1,119 +1,548 @@
-import { readFileSync, writeFileSync, mkdirSync, renameSync } from 'fs';
+import { readFileSync, existsSync, accessSync, constants } from 'fs';
+import { appendFile, mkdir, rename, writeFile } from 'fs/promises';
 import { dirname } from 'path';
-import type { IStore, TeamRecord, AgentRecord } from './types.js';
+import type { IStore, TeamRecord, AgentRecord, AgentCredentialRecord, ChannelRecord, ContextEntry, ContextWriteResult, TaskRecord, TaskWriteResult, DecisionRecord, ApiSpecRecord, DeliveryRecord, DropReason, DropCounts, HistoryQuery, HistoryPage } from './types.js';
 import type { AgentMessage } from '../types.js';
+import { paginateHistory } from './history.js';
 
 type AgentMeta = Omit<AgentRecord, 'messageBuffer'>;
 
+// Snapshot file layout. Files written before a field existed lack it; load
+// fills the gaps from EMPTY.
 interface FileState {
+  seq: number;                                // last journal op folded into this snapshot
   teams: Record<string, TeamRecord>;
   agents: Record<string, AgentMeta>;          // key: `${teamId}:${agentName}`
   messages: Record<string, AgentMessage[]>;   // key: `${teamId}:${agentName}`
+  deliveries: Record<string, { seq: number; log: DeliveryRecord[] }>; // key: `${teamId}:${agentName}`
+  drops: Record<string, DropCounts>;          // key: `${teamId}:${agentName}`
+  history: Record<string, AgentMessage[]>;    // key: teamId
+  credentials: Record<string, AgentCredentialRecord>; // key: `${teamId}:${agentName}`
+  channels: Record<string, Record<string, string[]>>; // teamId → channel → subscribers
+  context: Record<string, Record<string, ContextEntry>>; // teamId → key → entry
+  tasks: Record<string, Record<string, TaskRecord>>; // teamId → id → task
+  decisions: Record<string, DecisionRecord[]>; // key: teamId
+  specs: Record<string, ApiSpecRecord[]>;      // key: teamId
 }
 
-const EMPTY: FileState = { teams: {}, agents: {}, messages: {} };
+const EMPTY: FileState = { seq: 0, teams: {}, agents: {}, messages: {}, deliveries: {}, drops: {}, history: {}, credentials: {}, channels: {}, context: {}, tasks: {}, decisions: {}, specs: {} };
 
+// One state change, as written to the journal. Ops carry results rather than
+// requests (the context entry after a successful compare-and-set, not the
+// attempt) so replaying them is deterministic.
+type Op =
+  | { type: 'putTeam'; team: TeamRecord }
+  | { type: 'deleteTeam'; teamId: string }
+  | { type: 'putCredential'; cred: AgentCredentialRecord }
+  | { type: 'deleteCredential'; teamId: string; agentName: string }
+  | { type: 'putAgent'; agent: AgentRecord }
+  | { type: 'deleteAgent'; teamId: string; agentName: string }
+  | { type: 'setConnected'; teamId: string; agentName: string; connected: boolean; at: number }
+  | { type: 'markConnected'; teamId: string; agentName: string; sessionId: string; at: number }
+  | { type: 'pushMessage'; teamId: string; agentName: string; msg: AgentMessage; maxBuffer: number }
+  | { type: 'flushMessages'; teamId: string; agentName: string }
+  | { type: 'removeMessages'; teamId: string; agentName: string; ids: string[] }
+  | { type: 'recordDrops'; teamId: string; agentName: string; reason: DropReason; count: number }
+  | { type: 'takeDrops'; teamId: string; agentName: string }
+  | { type: 'appendDelivery'; teamId: string; agentName: string; msg: AgentMessage; maxLog: number }
+  | { type: 'subscribe'; teamId: string; channel: string; agentName: string }
+  | { type: 'unsubscribe'; teamId: string; channel: string; agentName: string }
+  | { type: 'putContext'; teamId: string; entry: ContextEntry }
+  | { type: 'putTask'; teamId: string; task: TaskRecord }
+  | { type: 'appendDecision'; teamId: string; decision: DecisionRecord }
+  | { type: 'appendApiSpec'; teamId: string; spec: ApiSpecRecord }
+  | { type: 'appendHistory'; teamId: string; msg: AgentMessage; maxHistory: number };
+
+type JournalEntry = Op & { seq: number };
+
+function agentKey(teamId: string, agentName: string): string {
+  return `${teamId}:${agentName}`;
+}
+
+function apply(state: FileState, op: Op): void {
+  switch (op.type) {
+    case 'putTeam':
+      state.teams[op.team.id] = op.team;
+      break;
+    case 'deleteTeam':
+      delete state.teams[op.teamId];
+      delete state.history[op.teamId];
+      delete state.channels[op.teamId];
+      delete state.context[op.teamId];
+      delete state.tasks[op.teamId];
+      delete state.decisions[op.teamId];
+      delete state.specs[op.teamId];
+      for (const [key, meta] of Object.entries(state.agents)) {
+        if (meta.teamId !== op.teamId) continue;
+        delete state.agents[key];
+        delete state.messages[key];
+      }
+      for (const key of Object.keys(state.deliveries)) {
+        if (key.startsWith(`${op.teamId}:`)) delete state.deliveries[key];
+      }
+      for (const key of Object.keys(state.drops)) {
+        if (key.startsWith(`${op.teamId}:`)) delete state.drops[key];
+      }
+      for (const [key, cred] of Object.entries(state.credentials)) {
+        if (cred.teamId === op.teamId) delete state.credentials[key];
+      }
+      break;
+    case 'putCredential':
+      state.credentials[agentKey(op.cred.teamId, op.cred.agentName)] = op.cred;
+      break;
+    case 'deleteCredential':
+      delete state.credentials[agentKey(op.teamId, op.agentName)];
+      break;
+    case 'putAgent': {
+      const { messageBuffer, ...meta } = op.agent;
+      const key = agentKey(meta.teamId, meta.name);
+      state.agents[key] = meta;
+      state.messages[key] = messageBuffer; // always replace buffer with provided value
+      break;
+    }
+    case 'deleteAgent': {
+      const key = agentKey(op.teamId, op.agentName);
+      delete state.agents[key];
+      delete state.messages[key];
+      if (state.deliveries[key]) state.deliveries[key].log = []; // the seq keeps counting
+      delete state.drops[key];
+      break;
+    }
+    case 'setConnected': {
+      const key = agentKey(op.teamId, op.agentName);
+      if (!state.agents[key]) break;
+      state.agents[key] = { ...state.agents[key], connected: op.connected, lastSeenAt: op.at };
+      break;
+    }
+    case 'markConnected': {
+      const key = agentKey(op.teamId, op.agentName);
+      const meta = state.agents[key] ?? { name: op.agentName, teamId: op.teamId };
+      state.agents[key] = { ...meta, sessionId: op.sessionId, connectedAt: op.at, connected: true };
+      break;
+    }
+    case 'pushMessage': {
+      const buf = state.messages[agentKey(op.teamId, op.agentName)] ??= [];
+      buf.push(op.msg);
+      if (buf.length > op.maxBuffer) buf.splice(0, buf.length - op.maxBuffer);
+      break;
+    }
+    case 'flushMessages':
+      state.messages[agentKey(op.teamId, op.agentName)] = [];
+      break;
+    case 'removeMessages': {
+      const key = agentKey(op.teamId, op.agentName);
+      const ids = new Set(op.ids);
+      state.messages[key] = (state.messages[key] ?? []).filter((m) => !ids.has(m.id));
+      break;
+    }
+    case 'recordDrops': {
+      const counts = state.drops[agentKey(op.teamId, op.agentName)] ??= {};
+      counts[op.reason] = (counts[op.reason] ?? 0) + op.count;
+      break;
+    }
+    case 'takeDrops':
+      delete state.drops[agentKey(op.teamId, op.agentName)];
+      break;
+    case 'appendDelivery': {
+      const entry = state.deliveries[agentKey(op.teamId, op.agentName)] ??= { seq: 0, log: [] };
+      entry.log.push({ seq: ++entry.seq, message: op.msg });
+      if (entry.log.length > op.maxLog) entry.log.splice(0, entry.log.length - op.maxLog);
+      break;
+    }
+    case 'subscribe': {
+      const teamChannels = state.channels[op.teamId] ??= {};
+      teamChannels[op.channel] = [...(teamChannels[op.channel] ?? []), op.agentName];
+      break;
+    }
+    case 'unsubscribe': {
+      const teamChannels = state.channels[op.teamId] ?? {};
+      const remaining = (teamChannels[op.channel] ?? []).filter((n) => n !== op.agentName);
+      if (remaining.length > 0) teamChannels[op.channel] = remaining;
+      else delete teamChannels[op.channel];
+      break;
+    }
+    case 'putContext':
+      (state.context[op.teamId] ??= {})[op.entry.key] = op.entry;
+      break;
+    case 'putTask':
+      (state.tasks[op.teamId] ??= {})[op.task.id] = op.task;
+      break;
+    case 'appendDecision':
+      (state.decisions[op.teamId] ??= []).push(op.decision);
+      break;
+    case 'appendApiSpec':
+      (state.specs[op.teamId] ??= []).push(op.spec);
+      break;
+    case 'appendHistory': {
+      const log = state.history[op.teamId] ??= [];
+      log.push(op.msg);
+      if (log.length > op.maxHistory) log.splice(0, log.length - op.maxHistory);
+      break;
+    }
+  }
+}
+
+/**
+ * Single-machine store on a mounted volume. State is held in memory; every
+ * change is appended to `<path>.journal` as one JSON line, and the journal is
+ * folded into the snapshot at `<path>` every `compactAfterOps` ops and on
+ * close. Journal appends are serialised — ops committed while a write is in
+ * flight go out together in the next one — and each write resolves only once
+ * its op is on disk. After a failed write the next one compacts instead of
+ * appending, and the store reports unhealthy until that succeeds. On first
+ * use the snapshot is loaded and the journal replayed over it.
+ */
 export class VolumeStore implements IStore {
   private readonly path: string;
+  private readonly journalPath: string;
+  private readonly compactAfterOps: number;
+  private loaded?: FileState;
+  private seq = 0;              // last op committed to `loaded`
+  private journalOps = 0;       // ops appended since the last compaction
+  private pending: string[] = []; // journal lines not yet written
+  private writes: Promise<void> = Promise.resolve();
+  private writeError?: Error;
 
-  constructor(path: string = process.env['VOLUME_DATA_PATH'] ?? '/data/agent-hub.json') {
+  constructor(path: string = process.env['VOLUME_DATA_PATH'] ?? '/data/agent-hub.json', compactAfterOps = 1000) {
     this.path = path;
+    this.journalPath = `${path}.journal`;
+    this.compactAfterOps = compactAfterOps;
+  }
+
+  // ─── Lifecycle ────────────────────────────────────────────────────────────
+
+  // Loads (and recovers) the state here so an unreadable snapshot or journal
+  // stops the hub at boot instead of failing the first request
+  async connect(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    void this.state;
+    await this.writes;
+    await this.healthCheck();
+  }
+
+  async healthCheck(): Promise<void> {
+    accessSync(dirname(this.path), constants.W_OK);
+    // Memory has changes the journal lacks; restarting would lose them
+    if (this.writeError) throw new Error(`${this.journalPath} write failed: ${this.writeError.message}`);
+  }
+
+  async close(): Promise<void> {
+    if (!this.loaded) return;
+    await this.writes;
+    await this.compact();
+    this.loaded = undefined;
   }
 
   // ─── Persistence helpers ──────────────────────────────────────────────────
 
-  private load(): FileState {
-    try {
-      return JSON.parse(readFileSync(this.path, 'utf-8')) as FileState;
-    } catch {
-      return structuredClone(EMPTY);
+  private get state(): FileState {
+    return this.loaded ??= this.recover();
+  }
+
+  private recover(): FileState {
+    let state = structuredClone(EMPTY);
+    if (existsSync(this.path)) {
+      try {
+        state = { ...state, ...(JSON.parse(readFileSync(this.path, 'utf-8')) as Partial<FileState>) };
+      } catch (err) {
+        throw new Error(`${this.path} is not valid JSON: ${(err as Error).message}`);
+      }
     }
+    this.seq = state.seq;
+
+    const lines = existsSync(this.journalPath) ? readFileSync(this.journalPath, 'utf-8').split('\n') : [];
+    for (const [i, line] of lines.entries()) {
+      if (!line) continue;
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line) as JournalEntry;
+      } catch (err) {
+        // A crash mid-append leaves a torn last line; the op was never acknowledged
+        if (i === lines.length - 1) break;
+        throw new Error(`${this.journalPath} line ${i + 1} is corrupt: ${(err as Error).message}`);
+      }
+      // Ops at or below the snapshot's seq were already folded into it
+      if (entry.seq <= this.seq) continue;
+      apply(state, entry);
+      this.seq = entry.seq;
+    }
+
+    // Start from a clean journal, so appends never follow a torn line
+    if (lines.some((line) => line)) {
+      this.writes = this.compact(state).catch((err) => { this.writeError = err as Error; });
+    }
+    return state;
   }
 
-  private save(state: FileState): void {
-    mkdirSync(dirname(this.path), { recursive: true });
-    const tmp = `${this.path}.tmp`;
-    writeFileSync(tmp, JSON.stringify(state));
-    renameSync(tmp, this.path); // atomic on POSIX
+  /** Applies `op` and resolves once it is in the journal. */
+  private commit(op: Op): Promise<void> {
+    const state = this.state; // recovers first, which sets `seq`
+    const line = JSON.stringify({ seq: ++this.seq, ...op });
+    // Apply the journaled form, so memory matches what a recovery would rebuild
+    apply(state, JSON.parse(line) as JournalEntry);
+    this.pending.push(`${line}\n`);
+    const write = this.writes.then(() => this.writePending());
+    this.writes = write.catch(() => {});
+    return write;
+  }
+
+  private async writePending(): Promise<void> {
+    if (this.pending.length === 0) return; // written with an earlier batch
+    const batch = this.pending;
+    this.pending = [];
+    try {
+      // A failed write may have left a torn line, or skipped ops memory already
+      // holds; rewrite the snapshot from memory rather than append after it
+      if (this.writeError) {
+        await this.compact();
+        this.writeError = undefined;
+        return;
+      }
+      await appendFile(this.journalPath, batch.join(''));
+    } catch (err) {
+      this.writeError = err as Error;
+      throw err;
+    }
+    this.journalOps += batch.length;
+    if (this.journalOps >= this.compactAfterOps) await this.compact();
   }
 
-  private agentKey(teamId: string, agentName: string): string {
-    return `${teamId}:${agentName}`;
+  // Writes the snapshot, then empties the journal. The snapshot records the
+  // last op it includes, so a crash between the two steps replays nothing twice.
+  private async compact(state: FileState = this.state): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify({ ...state, seq: this.seq }));
+    await rename(tmp, this.path); // atomic on POSIX
+    await writeFile(this.journalPath, '');
+    this.journalOps = 0;
   }
 
   // ─── Teams ────────────────────────────────────────────────────────────────
 
   async createTeam(team: TeamRecord): Promise<void> {
-    const state = this.load();
-    state.teams[team.id] = team;
-    this.save(state);
+    await this.commit({ type: 'putTeam', team });
   }
 
   async getTeam(teamId: string): Promise<TeamRecord | null> {
-    return this.load().teams[teamId] ?? null;
+    return this.state.teams[teamId] ?? null;
   }
 
   async listTeams(): Promise<TeamRecord[]> {
-    return Object.values(this.load().teams);
+    return Object.values(this.state.teams);
   }
 
   async findTeamByApiKeyHash(hash: string): Promise<TeamRecord | null> {
-    return Object.values(this.load().teams).find((t) => t.apiKeyHash === hash) ?? null;
+    return Object.values(this.state.teams).find((t) =>
+      t.apiKeyHash === hash || t.keys?.some((k) => k.hash === hash)
+    ) ?? null;
+  }
+
+  async updateTeam(team: TeamRecord): Promise<void> {
+    if (!this.state.teams[team.id]) return;
+    await this.commit({ type: 'putTeam', team });
+  }
+
+  async deleteTeam(teamId: string): Promise<void> {
+    if (!this.state.teams[teamId]) return;
+    await this.commit({ type: 'deleteTeam', teamId });
+  }
+
+  // ─── Agent credentials ────────────────────────────────────────────────────
+
+  async createAgentCredential(cred: AgentCredentialRecord): Promise<boolean> {
+    // commit applies the op before it yields, so no other write can slip in between
+    if (this.state.credentials[agentKey(cred.teamId, cred.agentName)]) return false;
+    await this.commit({ type: 'putCredential', cred });
+    return true;
+  }
+
+  async saveAgentCredential(cred: AgentCredentialRecord): Promise<void> {
+    await this.commit({ type: 'putCredential', cred });
+  }
+
+  async getAgentCredential(teamId: string, agentName: string): Promise<AgentCredentialRecord | null> {
+    return this.state.credentials[agentKey(teamId, agentName)] ?? null;
+  }
+
+  async findAgentCredentialByTokenHash(hash: string): Promise<AgentCredentialRecord | null> {
+    return Object.values(this.state.credentials).find((c) => c.tokenHash === hash) ?? null;
+  }
+
+  async listAgentCredentials(teamId: string): Promise<AgentCredentialRecord[]> {
+    return Object.values(this.state.credentials).filter((c) => c.teamId === teamId);
+  }
+
+  async removeAgentCredential(teamId: string, agentName: string): Promise<void> {
+    if (!this.state.credentials[agentKey(teamId, agentName)]) return;
+    await this.commit({ type: 'deleteCredential', teamId, agentName });
   }
 
   // ─── Agents ───────────────────────────────────────────────────────────────
 
   async saveAgent(agent: AgentRecord): Promise<void> {
-    const { messageBuffer, ...meta } = agent;
-    const key = this.agentKey(agent.teamId, agent.name);
-    const state = this.load();
-    state.agents[key] = meta;
-    state.messages[key] = messageBuffer; // always replace buffer with provided value
-    this.save(state);
+    await this.commit({ type: 'putAgent', agent });
   }
 
   async getAgent(teamId: string, agentName: string): Promise<AgentRecord | null> {
-    const state = this.load();
-    const key = this.agentKey(teamId, agentName);
-    const meta = state.agents[key];
+    const key = agentKey(teamId, agentName);
+    const meta = this.state.agents[key];
     if (!meta) return null;
-    return { ...meta, messageBuffer: state.messages[key] ?? [] };
+    return { ...meta, messageBuffer: [...(this.state.messages[key] ?? [])] };
   }
 
   async listAgents(teamId: string): Promise<AgentRecord[]> {
-    const state = this.load();
-    return Object.entries(state.agents)
+    return Object.entries(this.state.agents)
       .filter(([, a]) => a.teamId === teamId)
-      .map(([key, meta]) => ({ ...meta, messageBuffer: state.messages[key] ?? [] }));
+      .map(([key, meta]) => ({ ...meta, messageBuffer: [...(this.state.messages[key] ?? [])] }));
   }
 
   async removeAgent(teamId: string, agentName: string): Promise<void> {
-    const key = this.agentKey(teamId, agentName);
-    const state = this.load();
-    delete state.agents[key];
-    delete state.messages[key];
-    this.save(state);
+    await this.commit({ type: 'deleteAgent', teamId, agentName });
+  }
+
+  async setAgentConnected(teamId: string, agentName: string, connected: boolean, at: number): Promise<void> {
+    if (!this.state.agents[agentKey(teamId, agentName)]) return;
+    await this.commit({ type: 'setConnected', teamId, agentName, connected, at });
+  }
+
+  async markConnected(teamId: string, agentName: string, sessionId: string, at: number): Promise<void> {
+    await this.commit({ type: 'markConnected', teamId, agentName, sessionId, at });
   }
 
   // ─── Message buffer ────────────────────────────────────────────────────────
 
-  async pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<void> {
-    const key = this.agentKey(teamId, agentName);
-    const state = this.load();
-    if (!state.agents[key]) return; // no-op for unknown agent
-    const buf = state.messages[key] ?? [];
-    buf.push(msg);
-    if (buf.length > maxBuffer) buf.shift();
-    state.messages[key] = buf;
-    this.save(state);
+  async pushMessage(teamId: string, agentName: string, msg: AgentMessage, maxBuffer: number): Promise<AgentMessage[]> {
+    if (!this.state.agents[agentKey(teamId, agentName)]) return []; // no-op for unknown agent
+    const buf = this.state.messages[agentKey(teamId, agentName)] ?? [];
+    const evicted = buf.slice(0, Math.max(0, buf.length + 1 - maxBuffer));
+    await this.commit({ type: 'pushMessage', teamId, agentName, msg, maxBuffer });
+    return evicted;
   }
 
   async flushMessages(teamId: string, agentName: string): Promise<AgentMessage[]> {
-    const key = this.agentKey(teamId, agentName);
-    const state = this.load();
-    const msgs = state.messages[key] ?? [];
-    state.messages[key] = [];
-    if (msgs.length > 0) this.save(state);
+    const msgs = this.state.messages[agentKey(teamId, agentName)] ?? [];
+    if (msgs.length > 0) await this.commit({ type: 'flushMessages', teamId, agentName });
     return msgs;
   }
+
+  async removeMessages(teamId: string, agentName: string, ids: string[]): Promise<AgentMessage[]> {
+    const remove = new Set(ids);
+    const removed = (this.state.messages[agentKey(teamId, agentName)] ?? []).filter((m) => remove.has(m.id));
+    if (removed.length > 0) await this.commit({ type: 'removeMessages', teamId, agentName, ids: removed.map((m) => m.id) });
+    return removed;
+  }
+
+  // ─── Drop counts ──────────────────────────────────────────────────────────
+
+  async recordDrops(teamId: string, agentName: string, reason: DropReason, count: number): Promise<void> {
+    await this.commit({ type: 'recordDrops', teamId, agentName, reason, count });
+  }
+
+  async takeDrops(teamId: string, agentName: string): Promise<DropCounts | null> {
+    const counts = this.state.drops[agentKey(teamId, agentName)];
+    if (!counts) return null;
+    await this.commit({ type: 'takeDrops', teamId, agentName });
+    return counts;
+  }
+
+  // ─── Delivery log ─────────────────────────────────────────────────────────
+
+  async appendDelivery(teamId: string, agentName: string, msg: AgentMessage, maxLog: number): Promise<number> {
+    const written = this.commit({ type: 'appendDelivery', teamId, agentName, msg, maxLog });
+    const seq = this.state.deliveries[agentKey(teamId, agentName)].seq;
+    await written;
+    return seq;
+  }
+
+  async listDeliveries(teamId: string, agentName: string, afterSeq: number): Promise<DeliveryRecord[]> {
+    const log = this.state.deliveries[agentKey(teamId, agentName)]?.log ?? [];
+    return log.filter((d) => d.seq > afterSeq);
+  }
+
+  // ─── Channels ─────────────────────────────────────────────────────────────
+
+  async subscribe(teamId: string, channel: string, agentName: string): Promise<void> {
+    if (this.state.channels[teamId]?.[channel]?.includes(agentName)) return;
+    await this.commit({ type: 'subscribe', teamId, channel, agentName });
+  }
+
+  async unsubscribe(teamId: string, channel: string, agentName: string): Promise<void> {
+    if (!this.state.channels[teamId]?.[channel]?.includes(agentName)) return;
+    await this.commit({ type: 'unsubscribe', teamId, channel, agentName });
+  }
+
+  async listSubscribers(teamId: string, channel: string): Promise<string[]> {
+    return this.state.channels[teamId]?.[channel] ?? [];
+  }
+
+  async listChannels(teamId: string): Promise<ChannelRecord[]> {
+    return Object.entries(this.state.channels[teamId] ?? {})
+      .map(([name, subscribers]) => ({ name, subscribers }));
+  }
+
+  // ─── Context ──────────────────────────────────────────────────────────────
+
+  async setContext(teamId: string, key: string, value: string, updatedBy: string, at: number, expectedVersion?: number): Promise<ContextWriteResult> {
+    const current = this.state.context[teamId]?.[key] ?? null;
+    if (expectedVersion !== undefined && (current?.version ?? 0) !== expectedVersion) return { ok: false, current };
+    const entry: ContextEntry = { key, value, version: (current?.version ?? 0) + 1, updatedBy, updatedAt: at };
+    await this.commit({ type: 'putContext', teamId, entry });
+    return { ok: true, entry };
+  }
+
+  async getContext(teamId: string, key: string): Promise<ContextEntry | null> {
+    return this.state.context[teamId]?.[key] ?? null;
+  }
+
+  async listContext(teamId: string): Promise<ContextEntry[]> {
+    return Object.values(this.state.context[teamId] ?? {}).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  // ─── Tasks ────────────────────────────────────────────────────────────────
+
+  async saveTask(teamId: string, task: TaskRecord, expectedVersion: number): Promise<TaskWriteResult> {
+    const current = this.state.tasks[teamId]?.[task.id] ?? null;
+    if ((current?.version ?? 0) !== expectedVersion) return { ok: false, current };
+    await this.commit({ type: 'putTask', teamId, task });
+    return { ok: true };
+  }
+
+  async getTask(teamId: string, id: string): Promise<TaskRecord | null> {
+    return this.state.tasks[teamId]?.[id] ?? null;
+  }
+
+  async listTasks(teamId: string): Promise<TaskRecord[]> {
+    return Object.values(this.state.tasks[teamId] ?? {}).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // ─── Decisions ────────────────────────────────────────────────────────────
+
+  async appendDecision(teamId: string, decision: DecisionRecord): Promise<void> {
+    await this.commit({ type: 'appendDecision', teamId, decision });
+  }
+
+  async listDecisions(teamId: string): Promise<DecisionRecord[]> {
+    return [...(this.state.decisions[teamId] ?? [])];
+  }
+
+  // ─── API specs ────────────────────────────────────────────────────────────
+
+  async appendApiSpec(teamId: string, spec: ApiSpecRecord): Promise<void> {
+    await this.commit({ type: 'appendApiSpec', teamId, spec });
+  }
+
+  async listApiSpecs(teamId: string): Promise<ApiSpecRecord[]> {
+    return [...(this.state.specs[teamId] ?? [])];
+  }
+
+  // ─── Message history ───────────────────────────────────────────────────────
+
+  async appendHistory(teamId: string, msg: AgentMessage, maxHistory: number): Promise<void> {
+    await this.commit({ type: 'appendHistory', teamId, msg, maxHistory });
+  }
+
+  async queryHistory(teamId: string, query: HistoryQuery): Promise<HistoryPage> {
+    return paginateHistory(this.state.history[teamId] ?? [], query);
+  }
 }
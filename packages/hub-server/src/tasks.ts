@@ -0,0 +1,54 @@
+import { v4 as uuidv4 } from 'uuid';
+import { applyTaskAction, taskFromTodo } from '@agent-share/shared';
+import type { AgentMessage, TaskAction, TaskRecord, TaskUpdateResult } from '@agent-share/shared';
+import { store } from './store/index.js';
+import { notifyTeam } from './notices.js';
+
+// The team's task board. Every `todo` message opens a task; the rules for
+// claiming and completing one are shared with the Nostr transport.
+
+export async function openTask(teamId: string, message: AgentMessage): Promise<void> {
+  await store.saveTask(teamId, taskFromTodo(message), 0);
+}
+
+/**
+ * Claims or completes a task. A write that loses a race is re-checked against
+ * the task that won, so the first of two simultaneous claims succeeds and the
+ * second is told who holds it.
+ */
+export async function updateTask(
+  teamId: string,
+  agentName: string,
+  id: string,
+  action: TaskAction,
+  note?: string,
+): Promise<TaskUpdateResult> {
+  let current = await store.getTask(teamId, id);
+  for (;;) {
+    if (!current) return { ok: false, error: 'Task not found', task: null };
+    const next = applyTaskAction(current, action, agentName, Date.now(), note);
+    if ('error' in next) return { ok: false, error: next.error, task: current };
+    if (next.task === current) return { ok: true, task: current };
+
+    const written = await store.saveTask(teamId, next.task, current.version);
+    if (written.ok) {
+      await notify(teamId, next.task);
+      return { ok: true, task: next.task };
+    }
+    current = written.current;
+  }
+}
+
+async function notify(teamId: string, task: TaskRecord): Promise<void> {
+  const event = task.history[task.history.length - 1];
+  const message: AgentMessage = {
+    id: uuidv4(),
+    from: event.by,
+    to: 'broadcast',
+    type: 'task_update',
+    content: `${event.by} ${event.action} task "${task.title}"`,
+    payload: { taskId: task.id, status: task.status, assignee: event.by, ...(event.note ? { note: event.note } : {}) },
+    timestamp: event.at,
+  };
+  await notifyTeam(teamId, message, event.by);
+}
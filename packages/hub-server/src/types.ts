@@ -1,13 +1,7 @@
-export type MessageType = 'api_spec' | 'file_change' | 'decision' | 'todo' | 'question';
+import type { AgentMessage } from '@agent-share/shared';
 
-export interface AgentMessage {
-  id: string;
-  from: string;
-  to: string; // agent name or 'broadcast'
-  type: MessageType;
-  content: string;
-  timestamp: number;
-}
+// Message shapes are shared with mcp-client
+export type { AgentMessage, Attachment, BuiltinMessageType, MessageType } from '@agent-share/shared';
 
 export interface Agent {
   name: string;
@@ -26,7 +20,10 @@ export interface Team {
   agents: Map<string, Agent>;
 }
 
+export type Role = 'owner' | 'member' | 'observer';
+
 export interface AuthToken {
   teamId: string;
   agentName: string;
+  role: Role;
 }
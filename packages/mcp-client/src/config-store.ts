@@ -5,9 +5,11 @@ import { join } from 'path';
 export interface StoredConfig {
   apiKey: string;
   agentName: string;
+  agentToken?: string; // hub only: per-agent token issued on first join
   hubUrl: string;
   transport?: 'hub' | 'nostr';
   privateKey?: string; // nostr only: hex-encoded secp256k1 private key
+  channels?: string;   // nostr only: comma-separated #channel subscriptions
 }
 
 interface WorkspacesConfig {
@@ -1,17 +1,31 @@
 import EventSource from 'eventsource';
+import WebSocket from 'ws';
 import { fetch } from 'undici';
-import type { AgentMessage, AgentInfo } from './types.js';
+import { createHash, randomUUID } from 'crypto';
+import type { WsServerFrame } from '@agent-share/shared';
+import type { AdrFile, AgentMessage, AgentInfo, Attachment, Decision, DecisionQuery, ServiceSummary, SpecDiff, SpecDiffQuery, SpecQuery, SpecView, ChannelResult, ContextEntry, ContextSetResult, TaskRecord, TaskStatus, TaskUpdateResult, HistoryQuery, HistoryPage, MessageTypeInfo, SendOptions, SendResult } from './types.js';
 import type { ITransport, ITransportOptions } from './transport.js';
 
 export interface HubClientOptions extends ITransportOptions {
   hubUrl: string;
-  apiKey: string;
+  apiKey: string;      // shared team key — only used to register
   agentName: string;
+  agentToken?: string; // per-agent token; all other requests authenticate with this
 }
 
+const WS_REPLY_TIMEOUT_MS = 10_000;
+const WS_RECONNECT_MS = 1_000;
+const SEEN_IDS_MAX = 1_000;
+
 export class HubClient implements ITransport {
   private es?: EventSource;
+  private ws?: WebSocket;
+  private wsOpen = false;
+  private wsReconnect?: NodeJS.Timeout;
+  private wsReplies = new Map<string, { resolve: (frame: WsServerFrame) => void; reject: (err: Error) => void }>();
   private messageBuffer: AgentMessage[] = [];
+  private seenIds = new Set<string>(); // recent message ids; a resumed stream may replay some
+  private lastEventId?: string;        // sent as Last-Event-ID when the SSE stream is reopened
   private opts: HubClientOptions;
 
   constructor(opts: HubClientOptions) {
@@ -19,7 +33,7 @@ export class HubClient implements ITransport {
   }
 
   isConfigured(): boolean {
-    return !!(this.opts.apiKey && this.opts.agentName);
+    return !!((this.opts.agentToken || this.opts.apiKey) && this.opts.agentName);
   }
 
   configure(opts: ITransportOptions): void {
@@ -30,45 +44,118 @@ export class HubClient implements ITransport {
     return { agentName: this.opts.agentName, hubUrl: this.opts.hubUrl };
   }
 
+  async whoami(): Promise<{ agentName: string; hubUrl: string; teamId: string; role: string }> {
+    const res = await fetch(`${this.opts.hubUrl}/agent/whoami`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Whoami failed: ${body.error}`);
+    }
+
+    const me = await res.json() as { agentName: string; teamId: string; role: string };
+    return { ...this.identity(), ...me };
+  }
+
+  // Creates a team with this agent as its owner and keeps the key and token the hub issues
   async createTeam(): Promise<{ teamId: string; apiKey: string }> {
-    const res = await fetch(`${this.opts.hubUrl}/teams/create`, { method: 'POST' });
+    const res = await fetch(`${this.opts.hubUrl}/teams/create`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ agentName: this.opts.agentName }),
+    });
     if (!res.ok) {
       const body = await res.json() as { error: string };
       throw new Error(`Create team failed: ${body.error}`);
     }
-    return res.json() as Promise<{ teamId: string; apiKey: string }>;
+    const { teamId, apiKey, agentToken } = await res.json() as { teamId: string; apiKey: string; agentToken: string };
+    this.opts.apiKey = apiKey;
+    this.opts.agentToken = agentToken;
+    return { teamId, apiKey };
   }
 
-  connect(): void {
-    this.es?.close();
+  async authenticate(): Promise<void> {
+    if (this.opts.agentToken) return;
     const { hubUrl, apiKey, agentName } = this.opts;
-    const url = `${hubUrl}/agent/stream?api_key=${encodeURIComponent(apiKey)}&agent_name=${encodeURIComponent(agentName)}`;
-    this.es = new EventSource(url);
+    const res = await fetch(`${hubUrl}/agent/register`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ agentName }),
+    });
 
-    this.es.onmessage = (event) => {
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Register failed: ${body.error}`);
+    }
+
+    const { agentToken } = await res.json() as { agentToken: string };
+    this.opts.agentToken = agentToken;
+  }
+
+  /**
+   * Opens /agent/ws, which carries sends, listings and pushed messages on one
+   * socket. If the upgrade fails (an older hub, or a proxy that strips it)
+   * this falls back to the /agent/stream SSE feed plus REST for everything
+   * else; a reopened feed resumes after the last event id seen. A socket that
+   * drops after opening is retried the same way.
+   */
+  connect(): void {
+    this.close();
+    const { hubUrl, agentToken } = this.opts;
+    const ws = new WebSocket(`${hubUrl.replace(/^http/, 'ws')}/agent/ws`, {
+      headers: { Authorization: `Bearer ${agentToken ?? ''}` },
+    });
+    this.ws = ws;
+
+    ws.on('open', () => { this.wsOpen = true; });
+
+    ws.on('message', (data: Buffer) => {
       try {
-        const msg = JSON.parse(event.data as string) as AgentMessage;
-        this.messageBuffer.push(msg);
+        this.handleFrame(JSON.parse(data.toString()) as WsServerFrame);
       } catch {
-        // ignore malformed events
+        // ignore malformed frames
       }
-    };
+    });
 
-    this.es.onerror = () => {
-      process.stderr.write('[agent-hub] SSE connection error — will retry automatically\n');
-    };
+    ws.on('unexpected-response', (_req, res) => {
+      ws.terminate();
+      this.fallBackToSse(`upgrade refused (HTTP ${res.statusCode})`);
+    });
+
+    ws.on('error', (err) => {
+      if (!this.wsOpen) this.fallBackToSse(err.message);
+    });
+
+    ws.on('close', () => {
+      if (this.ws !== ws) return;
+      const wasOpen = this.wsOpen;
+      this.ws = undefined;
+      this.wsOpen = false;
+      this.rejectWsReplies(new Error('WebSocket connection closed'));
+      if (!wasOpen) return;
+      process.stderr.write('[agent-hub] WebSocket connection lost — reconnecting\n');
+      this.wsReconnect = setTimeout(() => this.connect(), WS_RECONNECT_MS);
+    });
   }
 
-  async send(to: string, type: string, content: string): Promise<{ ok: boolean; messageId: string; deliveredTo: number }> {
-    const { hubUrl, apiKey, agentName } = this.opts;
-    const res = await fetch(`${hubUrl}/agent/send`, {
+  async send(to: string | string[], type: string, content: string, opts: SendOptions = {}): Promise<SendResult> {
+    if (this.wsOpen) {
+      const frame = await this.wsRequest({ op: 'send', to, type, content, ...opts }, 'Send failed');
+      if (frame.op !== 'sent') throw new Error('Send failed: unexpected reply');
+      return { ok: true, messageId: frame.messageId, recipients: frame.recipients };
+    }
+
+    const res = await fetch(`${this.opts.hubUrl}/agent/send`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-        'X-Agent-Name': agentName,
+        Authorization: `Bearer ${this.opts.agentToken}`,
       },
-      body: JSON.stringify({ to, type, content }),
+      body: JSON.stringify({ to, type, content, ...opts }),
     });
 
     if (!res.ok) {
@@ -76,16 +163,211 @@ export class HubClient implements ITransport {
       throw new Error(`Send failed: ${body.error}`);
     }
 
-    return res.json() as Promise<{ ok: boolean; messageId: string; deliveredTo: number }>;
+    return res.json() as Promise<SendResult>;
   }
 
-  async listAgents(): Promise<AgentInfo[]> {
-    const { hubUrl, apiKey, agentName } = this.opts;
-    const res = await fetch(`${hubUrl}/agent/list`, {
+  async uploadArtifact(data: Buffer, filename: string): Promise<Attachment> {
+    const sha256 = createHash('sha256').update(data).digest('hex');
+    const res = await fetch(`${this.opts.hubUrl}/artifacts/${sha256}`, {
+      method: 'PUT',
       headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'X-Agent-Name': agentName,
+        'Content-Type': 'application/octet-stream',
+        'X-Filename': encodeURIComponent(filename),
+        Authorization: `Bearer ${this.opts.agentToken}`,
       },
+      body: data,
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Upload failed: ${body.error}`);
+    }
+
+    const { size, contentType, filename: stored } = await res.json() as Attachment;
+    return { sha256, size, contentType, ...(stored ? { filename: stored } : {}) };
+  }
+
+  async downloadArtifact(sha256: string): Promise<{ attachment: Attachment; data: Buffer }> {
+    const res = await fetch(`${this.opts.hubUrl}/artifacts/${sha256}`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Download failed: ${body.error}`);
+    }
+
+    const data = Buffer.from(await res.arrayBuffer());
+    const disposition = res.headers.get('Content-Disposition') ?? '';
+    const encoded = /filename\*=UTF-8''([^;]+)/.exec(disposition)?.[1];
+    return {
+      attachment: {
+        sha256,
+        size: data.length,
+        contentType: res.headers.get('Content-Type') ?? 'application/octet-stream',
+        ...(encoded ? { filename: decodeURIComponent(encoded) } : {}),
+      },
+      data,
+    };
+  }
+
+  async contextSet(key: string, value: string, expectedVersion?: number): Promise<ContextSetResult> {
+    const res = await fetch(`${this.opts.hubUrl}/context/${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.opts.agentToken}`,
+      },
+      body: JSON.stringify({ value, expectedVersion }),
+    });
+
+    const body = await res.json() as ContextEntry & { error?: string; current?: ContextEntry | null };
+    // A version conflict is an expected outcome, not a failure
+    if (res.status === 409 && body.current !== undefined) return { ok: false, current: body.current };
+    if (!res.ok) throw new Error(`Context write failed: ${body.error}`);
+    return { ok: true, entry: body };
+  }
+
+  async contextGet(key: string): Promise<ContextEntry | null> {
+    const res = await fetch(`${this.opts.hubUrl}/context/${encodeURIComponent(key)}`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Context read failed: ${body.error}`);
+    }
+
+    return res.json() as Promise<ContextEntry>;
+  }
+
+  async contextList(): Promise<ContextEntry[]> {
+    const res = await fetch(`${this.opts.hubUrl}/context`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Context list failed: ${body.error}`);
+    }
+
+    return res.json() as Promise<ContextEntry[]>;
+  }
+
+  async claimTask(id: string): Promise<TaskUpdateResult> {
+    return this.postTask(id, 'claim', {});
+  }
+
+  async completeTask(id: string, note?: string): Promise<TaskUpdateResult> {
+    return this.postTask(id, 'complete', { note });
+  }
+
+  async listTasks(status?: TaskStatus): Promise<TaskRecord[]> {
+    const qs = status ? `?status=${status}` : '';
+    const res = await fetch(`${this.opts.hubUrl}/tasks${qs}`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Task list failed: ${body.error}`);
+    }
+
+    return res.json() as Promise<TaskRecord[]>;
+  }
+
+  async listDecisions(query: DecisionQuery = {}): Promise<Decision[]> {
+    const params = new URLSearchParams();
+    if (query.query) params.set('q', query.query);
+    if (query.includeSuperseded !== undefined) params.set('includeSuperseded', String(query.includeSuperseded));
+    const qs = params.toString();
+    const res = await fetch(`${this.opts.hubUrl}/decisions${qs ? `?${qs}` : ''}`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Decision list failed: ${body.error}`);
+    }
+
+    return res.json() as Promise<Decision[]>;
+  }
+
+  async exportDecisions(): Promise<AdrFile[]> {
+    const res = await fetch(`${this.opts.hubUrl}/decisions/export`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Decision export failed: ${body.error}`);
+    }
+
+    const { files } = await res.json() as { files: AdrFile[] };
+    return files;
+  }
+
+  async listSpecServices(): Promise<ServiceSummary[]> {
+    return this.getSpecs('/specs');
+  }
+
+  async getSpec(service: string, query: SpecQuery = {}): Promise<SpecView> {
+    return this.getSpecs(`/specs/${encodeURIComponent(service)}`, query);
+  }
+
+  async diffSpec(service: string, query: SpecDiffQuery = {}): Promise<SpecDiff> {
+    return this.getSpecs(`/specs/${encodeURIComponent(service)}/diff`, query);
+  }
+
+  private async getSpecs<T>(path: string, query: SpecQuery | SpecDiffQuery = {}): Promise<T> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    const res = await fetch(`${this.opts.hubUrl}${path}${qs ? `?${qs}` : ''}`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Spec lookup failed: ${body.error}`);
+    }
+
+    return res.json() as Promise<T>;
+  }
+
+  async subscribe(channel: string): Promise<ChannelResult> {
+    return this.postChannel('subscribe', channel);
+  }
+
+  async unsubscribe(channel: string): Promise<ChannelResult> {
+    return this.postChannel('unsubscribe', channel);
+  }
+
+  async messageTypes(): Promise<MessageTypeInfo[]> {
+    const res = await fetch(`${this.opts.hubUrl}/agent/message-types`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`Message types failed: ${body.error}`);
+    }
+
+    return res.json() as Promise<MessageTypeInfo[]>;
+  }
+
+  async listAgents(): Promise<AgentInfo[]> {
+    if (this.wsOpen) {
+      const frame = await this.wsRequest({ op: 'list' }, 'List agents failed');
+      if (frame.op !== 'agents') throw new Error('List agents failed: unexpected reply');
+      return frame.agents;
+    }
+
+    const res = await fetch(`${this.opts.hubUrl}/agent/list`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
     });
 
     if (!res.ok) {
@@ -96,6 +378,23 @@ export class HubClient implements ITransport {
     return res.json() as Promise<AgentInfo[]>;
   }
 
+  async history(query: HistoryQuery): Promise<HistoryPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const res = await fetch(`${this.opts.hubUrl}/agent/history?${params}`, {
+      headers: { Authorization: `Bearer ${this.opts.agentToken}` },
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`History failed: ${body.error}`);
+    }
+
+    return res.json() as Promise<HistoryPage>;
+  }
+
   flushMessages(): AgentMessage[] {
     const msgs = [...this.messageBuffer];
     this.messageBuffer.length = 0;
@@ -103,10 +402,130 @@ export class HubClient implements ITransport {
   }
 
   close(): void {
+    clearTimeout(this.wsReconnect);
     this.es?.close();
+    this.es = undefined;
+    const ws = this.ws;
+    this.ws = undefined;
+    this.wsOpen = false;
+    this.rejectWsReplies(new Error('WebSocket connection closed'));
+    ws?.close();
   }
 
   exportConfig(): Record<string, string> {
-    return { apiKey: this.opts.apiKey, agentName: this.opts.agentName, hubUrl: this.opts.hubUrl };
+    const { apiKey, agentName, hubUrl, agentToken } = this.opts;
+    return { apiKey, agentName, hubUrl, ...(agentToken ? { agentToken } : {}) };
+  }
+
+  private connectSse(): void {
+    const { hubUrl, agentToken } = this.opts;
+    const url = `${hubUrl}/agent/stream?api_key=${encodeURIComponent(agentToken ?? '')}`;
+    this.es = new EventSource(url, this.lastEventId ? { headers: { 'Last-Event-ID': this.lastEventId } } : undefined);
+
+    this.es.onmessage = (event) => {
+      if (event.lastEventId) this.lastEventId = event.lastEventId;
+      try {
+        this.bufferMessage(JSON.parse(event.data as string) as AgentMessage);
+      } catch {
+        // ignore malformed events
+      }
+    };
+
+    this.es.onerror = () => {
+      process.stderr.write('[agent-hub] SSE connection error — will retry automatically\n');
+    };
+  }
+
+  private fallBackToSse(reason: string): void {
+    if (this.es) return;
+    this.ws = undefined;
+    process.stderr.write(`[agent-hub] WebSocket unavailable (${reason}) — falling back to SSE\n`);
+    this.connectSse();
+  }
+
+  /** Buffers a message unless it was already received — replays and requeues can repeat one. */
+  private bufferMessage(msg: AgentMessage): void {
+    if (this.seenIds.has(msg.id)) return;
+    this.seenIds.add(msg.id);
+    if (this.seenIds.size > SEEN_IDS_MAX) this.seenIds.delete(this.seenIds.values().next().value!);
+    this.messageBuffer.push(msg);
+  }
+
+  private handleFrame(frame: WsServerFrame): void {
+    if (frame.op === 'message') {
+      this.bufferMessage(frame.message);
+      // Acked once buffered; the hub requeues anything unacked if the socket drops
+      this.ws?.send(JSON.stringify({ op: 'ack', ids: [frame.message.id] }));
+      return;
+    }
+    if (!frame.ref) return;
+    const reply = this.wsReplies.get(frame.ref);
+    if (!reply) return;
+    this.wsReplies.delete(frame.ref);
+    reply.resolve(frame);
+  }
+
+  /** Sends a frame tagged with a fresh `ref` and resolves with the hub's reply to it; `error` replies throw. */
+  private wsRequest(frame: Record<string, unknown>, failure: string): Promise<WsServerFrame> {
+    const ref = randomUUID();
+    return new Promise<WsServerFrame>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.wsReplies.delete(ref);
+        reject(new Error(`${failure}: no reply from hub`));
+      }, WS_REPLY_TIMEOUT_MS);
+      this.wsReplies.set(ref, {
+        resolve: (reply) => {
+          clearTimeout(timeout);
+          if (reply.op === 'error') reject(new Error(`${failure}: ${reply.error}`));
+          else resolve(reply);
+        },
+        reject: (err) => {
+          clearTimeout(timeout);
+          reject(new Error(`${failure}: ${err.message}`));
+        },
+      });
+      this.ws!.send(JSON.stringify({ ...frame, ref }));
+    });
+  }
+
+  private rejectWsReplies(err: Error): void {
+    const replies = [...this.wsReplies.values()];
+    this.wsReplies.clear();
+    for (const reply of replies) reply.reject(err);
+  }
+
+  private async postTask(id: string, action: 'claim' | 'complete', body: Record<string, unknown>): Promise<TaskUpdateResult> {
+    const res = await fetch(`${this.opts.hubUrl}/tasks/${encodeURIComponent(id)}/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.opts.agentToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await res.json() as TaskRecord & { error?: string; task?: TaskRecord };
+    // 404 (unknown task) and 409 (claimed by someone else, or done) are answers, not failures
+    if (res.status === 404 || res.status === 409) return { ok: false, error: result.error ?? 'Task update rejected', task: result.task ?? null };
+    if (!res.ok) throw new Error(`Task ${action} failed: ${result.error}`);
+    return { ok: true, task: result };
+  }
+
+  private async postChannel(action: 'subscribe' | 'unsubscribe', channel: string): Promise<ChannelResult> {
+    const res = await fetch(`${this.opts.hubUrl}/agent/${action}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.opts.agentToken}`,
+      },
+      body: JSON.stringify({ channel }),
+    });
+
+    if (!res.ok) {
+      const body = await res.json() as { error: string };
+      throw new Error(`${action === 'subscribe' ? 'Subscribe' : 'Unsubscribe'} failed: ${body.error}`);
+    }
+
+    return res.json() as Promise<ChannelResult>;
   }
 }
@@ -2,12 +2,17 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { BUILTIN_MESSAGE_TYPES, isBuiltinType, payloadErrors, payloadSchemas, renderMessages, renderSpecDiff } from '@agent-share/shared';
 import type { ITransport } from './transport.js';
 import { HubClient } from './hub-client.js';
 import { NostrClient } from './nostr-client.js';
 import { loadConfig, saveConfig, clearConfig } from './config-store.js';
 import type { StoredConfig } from './config-store.js';
 import { getConfig } from './config.js';
+import type { MessageTypeInfo } from './types.js';
+import { attachmentPath, resolveWorkspacePath } from './workspace.js';
 
 const NOT_CONFIGURED = 'Not configured. Use agent_hub_setup_create or agent_hub_setup_join first.';
 
@@ -24,6 +29,7 @@ const DEFAULT_PRESENCE_WINDOW_S = getConfig<number>('nostr', 'presence_window_s'
 const envApiKey    = process.env['TEAM_API_KEY'] ?? '';
 const envAgentName = process.env['AGENT_NAME']   ?? '';
 const envHubUrl    = process.env['HUB_URL']      ?? '';
+const envAgentToken = process.env['AGENT_TOKEN'] ?? '';
 const envTransport = process.env['TRANSPORT']    ?? '';
 
 const stored = loadConfig();
@@ -41,22 +47,44 @@ if (transportType === 'nostr') {
     agentName: initialAgentName,
     teamId: initialApiKey || undefined,
     privateKey: stored?.privateKey,
+    channels: stored?.channels?.split(',').filter(Boolean),
     heartbeatMs: DEFAULT_HEARTBEAT_MS,
     presenceWindowS: DEFAULT_PRESENCE_WINDOW_S,
   });
 } else {
   const hubUrl = envHubUrl || stored?.hubUrl || DEFAULT_HUB_URL;
-  hub = new HubClient({ hubUrl, apiKey: initialApiKey, agentName: initialAgentName });
+  const agentToken = envAgentToken || stored?.agentToken || undefined;
+  hub = new HubClient({ hubUrl, apiKey: initialApiKey, agentName: initialAgentName, agentToken });
 }
 
 async function main(): Promise<void> {
   if (hub.isConfigured()) {
-    hub.connect();
-    process.stderr.write(`[agent-hub] Connected as "${initialAgentName}" (transport: ${transportType})\n`);
+    try {
+      // Registering issues a token the hub never shows again, and the name stays
+      // taken, so save it — including for env-only setups and configs saved
+      // before per-agent tokens existed
+      await hub.authenticate();
+      if (transportType === 'hub' && !stored?.agentToken && !envAgentToken) {
+        saveConfig({ ...stored, ...hub.exportConfig(), transport: 'hub' } as StoredConfig);
+        process.stderr.write('[agent-hub] Saved the agent token issued by the hub to ~/.config/agent-hub/config.json\n');
+      }
+      hub.connect();
+      process.stderr.write(`[agent-hub] Connected as "${initialAgentName}" (transport: ${transportType})\n`);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      process.stderr.write(`[agent-hub] Could not authenticate as "${initialAgentName}": ${msg}\n`);
+    }
   } else {
     process.stderr.write('[agent-hub] Starting in bootstrap mode — call agent_hub_setup_create or agent_hub_setup_join\n');
   }
 
+  // Tool descriptions list the team's message types as of startup
+  let messageTypes: MessageTypeInfo[] = [...BUILTIN_MESSAGE_TYPES];
+  if (hub.isConfigured()) {
+    messageTypes = await hub.messageTypes().catch(() => messageTypes);
+  }
+  const typeList = messageTypes.map((t) => `${t.name} (${t.description})`).join('; ');
+
   const server = new McpServer({ name: 'agent-hub-client', version: '0.1.0' });
 
   server.tool(
@@ -83,7 +111,6 @@ async function main(): Promise<void> {
           const hubUrl = envHubUrl || stored?.hubUrl || DEFAULT_HUB_URL;
           hub.configure({ hubUrl, apiKey: '', agentName });
           const { teamId, apiKey } = await hub.createTeam();
-          hub.configure({ hubUrl, apiKey, agentName });
           saveConfig(hub.exportConfig() as unknown as StoredConfig);
           hub.connect();
           process.stderr.write(`[agent-hub] Connected as "${agentName}"\n`);
@@ -102,8 +129,9 @@ async function main(): Promise<void> {
     {
       apiKey: z.string().describe('Team API key to join'),
       agentName: z.string().describe('The agent name chosen by the user — you must ask the user for this before calling the tool'),
+      agentToken: z.string().optional().describe('Hub only: a token a team owner issued for this name, to rejoin under a name that is already registered'),
     },
-    async ({ apiKey, agentName }) => {
+    async ({ apiKey, agentName, agentToken }) => {
       if (hub.isConfigured()) {
         return { content: [{ type: 'text' as const, text: JSON.stringify({ alreadyConfigured: true, agentName }) }] };
       }
@@ -119,13 +147,14 @@ async function main(): Promise<void> {
           return { content: [{ type: 'text' as const, text: JSON.stringify({ agentName, relayUrl }) }] };
         } else {
           const hubUrl = envHubUrl || stored?.hubUrl || DEFAULT_HUB_URL;
-          // Verify key by attempting to list agents
-          hub.configure({ hubUrl, apiKey, agentName });
+          // Exchange the team key for a token bound to this agent name, unless one was issued already
+          hub.configure({ hubUrl, apiKey, agentName, ...(agentToken ? { agentToken } : {}) });
           try {
-            await hub.listAgents();
+            await hub.authenticate();
+            if (agentToken) await hub.whoami(); // authenticate skips registering, so check the token here
           } catch (err) {
             const msg = err instanceof Error ? err.message : String(err);
-            return { content: [{ type: 'text' as const, text: `Invalid API key or connection error: ${msg}` }] };
+            return { content: [{ type: 'text' as const, text: `Invalid API key, token or connection error: ${msg}` }] };
           }
           saveConfig(hub.exportConfig() as unknown as StoredConfig);
           hub.connect();
@@ -141,18 +170,71 @@ async function main(): Promise<void> {
 
   server.tool(
     'agent_hub_send',
-    'Send a message to another agent or broadcast to all team members',
+    'Send a message to one or more agents, a #channel, or broadcast to all team members. Returns a delivery status per recipient.',
     {
-      to: z.string().describe('Target agent name, or "broadcast" for all'),
-      type: z.enum(['api_spec', 'file_change', 'decision', 'todo', 'question']).describe('Message type'),
+      to: z.union([z.string(), z.array(z.string()).min(1)]).describe('Target agent name, a list of names, a glob such as "frontend-*", "#channel" for its subscribers, or "broadcast" for all'),
+      type: z.string().describe(`Message type — one of: ${typeList}`),
       content: z.string().describe('Message content (plain text or JSON string)'),
+      payload: z.record(z.unknown()).optional().describe(
+        'Optional structured detail for the type — api_spec: {method, path, description?, request?, response?, service?, removed?}; ' +
+        'file_change: {path, change?, diff?, commit?}; decision: {title, rationale?, alternatives?, supersedes?}; ' +
+        'todo: {title, assignee?, due?}; question: {question, options?, blocking?}; ' +
+        'custom types: as described by their payload schema'
+      ),
+      attachments: z.array(z.string()).max(20).optional().describe(
+        'Workspace file paths to upload and attach — use for specs, diffs or logs too large to inline (hub transport only)'
+      ),
+      expiresInSeconds: z.number().int().positive().optional().describe('Drop the message unread if it is still queued after this many seconds'),
     },
-    async ({ to, type, content }) => {
+    async ({ to, type, content, payload, attachments, expiresInSeconds }) => {
       if (!hub.isConfigured()) {
         return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
       }
-      const result = await hub.send(to, type, content);
-      return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+      // Custom types pass here; the hub checks them against the team's schemas
+      const errors = payload === undefined || !isBuiltinType(type) ? null : payloadErrors(payloadSchemas[type], payload);
+      if (errors) {
+        return { content: [{ type: 'text' as const, text: `Invalid ${type} payload: ${errors.join('; ')}` }], isError: true };
+      }
+      try {
+        const uploaded = [];
+        for (const file of attachments ?? []) {
+          const path = resolveWorkspacePath(file);
+          uploaded.push(await hub.uploadArtifact(await readFile(path), basename(path)));
+        }
+        const result = await hub.send(to, type, content, {
+          payload,
+          ...(uploaded.length ? { attachments: uploaded.map((a) => a.sha256) } : {}),
+          ...(expiresInSeconds !== undefined ? { expiresAt: Date.now() + expiresInSeconds * 1000 } : {}),
+        });
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'agent_hub_fetch_attachment',
+    'Download a message attachment into the workspace (default: .agent-hub/attachments/<filename>)',
+    {
+      sha256: z.string().regex(/^[a-f0-9]{64}$/).describe('The attachment\'s sha256, as shown by agent_hub_receive'),
+      saveAs: z.string().optional().describe('Workspace path to write the file to'),
+    },
+    async ({ sha256, saveAs }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      try {
+        const { attachment, data } = await hub.downloadArtifact(sha256);
+        const path = resolveWorkspacePath(saveAs ?? attachmentPath(sha256, attachment.filename));
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, data);
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ path, size: attachment.size, contentType: attachment.contentType }) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
     }
   );
 
@@ -177,14 +259,316 @@ async function main(): Promise<void> {
       if (!hub.isConfigured()) {
         return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
       }
-      const messages = hub.flushMessages();
-      return { content: [{ type: 'text' as const, text: JSON.stringify(messages, null, 2) }] };
+      // Messages can also expire while buffered here
+      const now = Date.now();
+      const messages = hub.flushMessages().filter((m) => m.expiresAt === undefined || m.expiresAt > now);
+      return { content: [{ type: 'text' as const, text: renderMessages(messages) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_subscribe',
+    'Subscribe to a #channel so messages sent to it reach you. Channels are created on first subscribe.',
+    {
+      channel: z.string().regex(/^#[A-Za-z0-9._-]+$/).describe('Channel name, e.g. "#backend-api"'),
+    },
+    async ({ channel }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      const result = await hub.subscribe(channel);
+      // The hub remembers subscriptions; Nostr keeps them in the local config
+      if (transportType === 'nostr') saveConfig(hub.exportConfig() as unknown as StoredConfig);
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_unsubscribe',
+    'Unsubscribe from a #channel',
+    {
+      channel: z.string().regex(/^#[A-Za-z0-9._-]+$/).describe('Channel name, e.g. "#backend-api"'),
+    },
+    async ({ channel }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      const result = await hub.unsubscribe(channel);
+      if (transportType === 'nostr') saveConfig(hub.exportConfig() as unknown as StoredConfig);
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_context_set',
+    'Write a key on the team blackboard — shared living state such as the current auth header format or the staging base URL. ' +
+    'Pass expectedVersion (from agent_hub_context_get; 0 for a new key) to only write if nobody changed it since. Hub transport only.',
+    {
+      key: z.string().regex(/^[A-Za-z0-9._:-]+$/).max(128).describe('Key, e.g. "staging_base_url"'),
+      value: z.string().max(65536).describe('New value (plain text or JSON string)'),
+      expectedVersion: z.number().int().min(0).optional().describe('Only write if the key is at this version; 0 = only if it does not exist'),
+    },
+    async ({ key, value, expectedVersion }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      try {
+        const result = await hub.contextSet(key, value, expectedVersion);
+        if (!result.ok) {
+          const text = `Version conflict — current entry: ${JSON.stringify(result.current)}`;
+          return { content: [{ type: 'text' as const, text }], isError: true };
+        }
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result.entry) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'agent_hub_context_get',
+    'Read a key from the team blackboard with its version and who last wrote it. Hub transport only.',
+    { key: z.string().describe('Key to read') },
+    async ({ key }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      try {
+        const entry = await hub.contextGet(key);
+        if (!entry) {
+          return { content: [{ type: 'text' as const, text: `No context key "${key}"` }], isError: true };
+        }
+        return { content: [{ type: 'text' as const, text: JSON.stringify(entry, null, 2) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'agent_hub_context_list',
+    'List every key on the team blackboard. Hub transport only.',
+    {},
+    async () => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      try {
+        const entries = await hub.contextList();
+        return { content: [{ type: 'text' as const, text: JSON.stringify(entries, null, 2) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'agent_hub_decisions',
+    'List or search the team\'s decision log — every decision message ever sent, numbered as ADRs, with supersedes/supersededBy links',
+    {
+      query: z.string().optional().describe('Only decisions mentioning this text'),
+      includeSuperseded: z.boolean().optional().describe('Also list decisions a later one replaced (default false)'),
+    },
+    async ({ query, includeSuperseded }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      try {
+        const decisions = await hub.listDecisions({ query, includeSuperseded });
+        return { content: [{ type: 'text' as const, text: JSON.stringify(decisions, null, 2) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'agent_hub_decisions_export',
+    'Write the whole decision log into the workspace as numbered Architecture Decision Record Markdown files. Rewrites existing files of the same name',
+    { dir: z.string().optional().describe('Workspace directory for the ADR files (default docs/adr)') },
+    async ({ dir }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      try {
+        const files = await hub.exportDecisions();
+        if (files.length === 0) {
+          return { content: [{ type: 'text' as const, text: 'No decisions recorded yet.' }] };
+        }
+        const written: string[] = [];
+        for (const file of files) {
+          const path = resolveWorkspacePath(join(dir ?? 'docs/adr', file.filename));
+          await mkdir(dirname(path), { recursive: true });
+          await writeFile(path, file.content);
+          written.push(path);
+        }
+        return { content: [{ type: 'text' as const, text: JSON.stringify({ ok: true, written }) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'agent_hub_spec_get',
+    'Read the team\'s API spec registry, built from api_spec messages: without a service, list services and their latest revision; ' +
+    'with one, its live endpoints; with method and path too, that endpoint and the revisions that published it',
+    {
+      service: z.string().optional().describe('Service name (an api_spec payload\'s service, or its sender\'s name)'),
+      method: z.string().optional().describe('HTTP method, with path'),
+      path: z.string().optional().describe('Endpoint path, with method'),
+      revision: z.number().int().nonnegative().optional().describe('Revision to read (default latest)'),
+    },
+    async ({ service, method, path, revision }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      if (!method !== !path) {
+        return { content: [{ type: 'text' as const, text: 'Pass method and path together' }], isError: true };
+      }
+      try {
+        const result = service
+          ? await hub.getSpec(service, { revision, method: method?.toUpperCase(), path })
+          : await hub.listSpecServices();
+        return { content: [{ type: 'text' as const, text: JSON.stringify(result, null, 2) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'agent_hub_spec_diff',
+    'Compare two revisions of a service\'s API spec — added, removed and changed endpoints, changed request/response fields, and which changes are breaking. ' +
+    'Defaults to the latest revision against the one before it (or, for one endpoint, against its previous version)',
+    {
+      service: z.string().describe('Service name'),
+      from: z.number().int().nonnegative().optional().describe('Older revision (0 = before anything was published)'),
+      to: z.number().int().nonnegative().optional().describe('Newer revision (default latest)'),
+      method: z.string().optional().describe('HTTP method, with path, to compare one endpoint'),
+      path: z.string().optional().describe('Endpoint path, with method'),
+    },
+    async ({ service, from, to, method, path }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      if (!method !== !path) {
+        return { content: [{ type: 'text' as const, text: 'Pass method and path together' }], isError: true };
+      }
+      try {
+        const diff = await hub.diffSpec(service, { from, to, method: method?.toUpperCase(), path });
+        return { content: [{ type: 'text' as const, text: renderSpecDiff(diff) }] };
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        return { content: [{ type: 'text' as const, text: `Error: ${msg}` }], isError: true };
+      }
+    }
+  );
+
+  server.tool(
+    'agent_hub_task_create',
+    'Add a task to the team board by sending a todo message — to the suggested assignee, or broadcast if none. Returns the task id.',
+    {
+      title: z.string().min(1).describe('What needs doing'),
+      assignee: z.string().optional().describe('Agent suggested to take it; anyone can still claim it'),
+      due: z.string().optional().describe('ISO 8601 due date'),
+      details: z.string().optional().describe('Longer description sent as the message content (defaults to the title)'),
+    },
+    async ({ title, assignee, due, details }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      const payload = { title, ...(assignee ? { assignee } : {}), ...(due ? { due } : {}) };
+      const errors = payloadErrors(payloadSchemas.todo, payload);
+      if (errors) {
+        return { content: [{ type: 'text' as const, text: `Invalid task: ${errors.join('; ')}` }], isError: true };
+      }
+      const result = await hub.send(assignee ?? 'broadcast', 'todo', details ?? title, { payload });
+      const text = JSON.stringify({ ok: result.ok, taskId: result.messageId, recipients: result.recipients });
+      return { content: [{ type: 'text' as const, text }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_task_claim',
+    'Claim an open task so teammates know you are working on it. Fails if someone else already claimed it.',
+    { taskId: z.string().describe('Task id, as returned by agent_hub_task_create or agent_hub_task_list') },
+    async ({ taskId }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      const result = await hub.claimTask(taskId);
+      if (!result.ok) {
+        const text = result.task ? `${result.error}: ${JSON.stringify(result.task)}` : result.error;
+        return { content: [{ type: 'text' as const, text }], isError: true };
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result.task, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_task_complete',
+    'Mark a task done — one you claimed, or an open one',
+    {
+      taskId: z.string().describe('Task id'),
+      note: z.string().max(2000).optional().describe('Optional outcome, e.g. the commit or PR that resolved it'),
+    },
+    async ({ taskId, note }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      const result = await hub.completeTask(taskId, note);
+      if (!result.ok) {
+        const text = result.task ? `${result.error}: ${JSON.stringify(result.task)}` : result.error;
+        return { content: [{ type: 'text' as const, text }], isError: true };
+      }
+      return { content: [{ type: 'text' as const, text: JSON.stringify(result.task, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_task_list',
+    'List the team\'s tasks (oldest first) with status, assignee and history',
+    { status: z.enum(['open', 'claimed', 'done']).optional().describe('Only tasks in this status') },
+    async ({ status }) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      const tasks = await hub.listTasks(status);
+      return { content: [{ type: 'text' as const, text: JSON.stringify(tasks, null, 2) }] };
+    }
+  );
+
+  server.tool(
+    'agent_hub_history',
+    'Search the team message log (newest first). Unlike agent_hub_receive, this does not consume messages — use it to look up previously shared specs and decisions.',
+    {
+      from: z.string().optional().describe('Only messages sent by this agent'),
+      to: z.string().optional().describe('Only messages addressed to this agent, "#channel" or "broadcast"'),
+      type: z.string().optional().describe(`Only messages of this type — one of: ${messageTypes.map((t) => t.name).join(', ')}`),
+      since: z.number().int().optional().describe('Only messages at or after this time (ms since epoch)'),
+      until: z.number().int().optional().describe('Only messages at or before this time (ms since epoch)'),
+      cursor: z.string().optional().describe('nextCursor from a previous call, to fetch older messages'),
+      limit: z.number().int().min(1).max(200).optional().describe('Page size (default 50)'),
+    },
+    async (query) => {
+      if (!hub.isConfigured()) {
+        return { content: [{ type: 'text' as const, text: NOT_CONFIGURED }] };
+      }
+      const page = await hub.history(query);
+      return { content: [{ type: 'text' as const, text: JSON.stringify(page, null, 2) }] };
     }
   );
 
   server.tool(
     'agent_hub_whoami',
-    'Returns your own agent name and team ID.',
+    'Returns your own agent name, team ID and (hub transport) role: owner, member or observer.',
     {},
     async () => {
       if (!hub.isConfigured()) {
@@ -193,7 +577,7 @@ async function main(): Promise<void> {
       return {
         content: [{
           type: 'text' as const,
-          text: JSON.stringify(hub.identity()),
+          text: JSON.stringify(await hub.whoami()),
         }],
       };
     }
@@ -209,6 +593,10 @@ async function main(): Promise<void> {
         warnings.push('WARNING: credentials are also present in environment variables (TEAM_API_KEY / AGENT_NAME). Those will override the config file on next restart — unset them to fully reset.');
       }
 
+      if (transportType === 'hub' && hub.isConfigured()) {
+        warnings.push(`The name "${hub.identity().agentName}" stays registered on the hub. To rejoin under it, have a team owner issue a new token (POST /teams/:teamId/agents/:agentName/token) and pass it to agent_hub_setup_join as agentToken.`);
+      }
+
       hub.close();
       clearConfig();
 
@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderMessages } from '@agent-share/shared';
 import type { ITransport } from './transport.js';
 
 // Mock ws before importing NostrClient
@@ -192,3 +193,338 @@ describe('NostrClient.listAgents()', () => {
     expect(agents).toEqual([]);
   });
 });
+
+describe('NostrClient.history()', () => {
+  it('queries the relay and returns matching messages newest first', async () => {
+    const { default: WS } = await import('ws');
+    const c = new NostrClient({ relayUrl: DEFAULT_RELAY_URL, agentName: 'alice', teamId: 't' });
+    c.connect();
+    const ws = vi.mocked(WS).mock.results.at(-1)!.value as {
+      on: ReturnType<typeof vi.fn>;
+      send: ReturnType<typeof vi.fn>;
+    };
+    const onMessage = ws.on.mock.calls.find(([evt]) => evt === 'message')![1] as (data: Buffer) => void;
+
+    const pending = c.history({ from: 'bob', limit: 10 });
+    await new Promise((r) => setImmediate(r)); // let history() issue its REQ
+    const [, subId] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, string];
+
+    const event = (id: string, from: string, createdAt: number) => ({
+      id, pubkey: 'p', created_at: createdAt, kind: 1337, sig: 's', content: id,
+      tags: [['t', 't'], ['agent-from', from], ['agent-to', 'alice'], ['msg-type', 'decision']],
+    });
+    onMessage(Buffer.from(JSON.stringify(['EVENT', subId, event('e1', 'bob', 100)])));
+    onMessage(Buffer.from(JSON.stringify(['EVENT', subId, event('e2', 'carol', 200)])));
+    onMessage(Buffer.from(JSON.stringify(['EVENT', subId, event('e3', 'bob', 300)])));
+    onMessage(Buffer.from(JSON.stringify(['EOSE', subId])));
+
+    const page = await pending;
+    expect(page.messages.map((m) => m.id)).toEqual(['e3', 'e1']);
+    expect(page.nextCursor).toBeNull();
+    // history events must not leak into the receive buffer
+    expect(c.flushMessages()).toEqual([]);
+  });
+});
+
+describe('NostrClient channels', () => {
+  async function connected(agentName: string) {
+    const { default: WS } = await import('ws');
+    const c = new NostrClient({ relayUrl: DEFAULT_RELAY_URL, agentName, teamId: 't' });
+    c.connect();
+    const ws = vi.mocked(WS).mock.results.at(-1)!.value as {
+      on: ReturnType<typeof vi.fn>;
+      send: ReturnType<typeof vi.fn>;
+    };
+    const onMessage = ws.on.mock.calls.find(([evt]) => evt === 'message')![1] as (data: Buffer) => void;
+    return { c, ws, onMessage };
+  }
+
+  const event = (id: string, from: string, to: string) => ({
+    id, pubkey: 'p', created_at: 100, kind: 1337, sig: 's', content: id,
+    tags: [['t', 't'], ['agent-from', from], ['agent-to', to], ['msg-type', 'decision'], ['channel', to]],
+  });
+
+  it('buffers channel messages only while subscribed', async () => {
+    const { c, onMessage } = await connected('alice');
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', event('e1', 'bob', '#api')])));
+    expect(c.flushMessages()).toEqual([]);
+
+    await c.subscribe('#api');
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', event('e2', 'bob', '#api')])));
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', event('e3', 'alice', '#api')])));
+    expect(c.flushMessages().map((m) => m.id)).toEqual(['e2']);
+
+    await c.unsubscribe('#api');
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', event('e4', 'bob', '#api')])));
+    expect(c.flushMessages()).toEqual([]);
+  });
+
+  it('tags channel messages with the channel name', async () => {
+    const { c, ws } = await connected('alice');
+    void c.send('#api', 'question', 'REST or gRPC?'); // resolves on relay OK, which the mock never sends
+    await new Promise((r) => setImmediate(r));
+    const [, sent] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, { tags: string[][] }];
+    expect(sent.tags).toContainEqual(['channel', '#api']);
+  });
+
+  it('persists subscriptions through exportConfig/configure', async () => {
+    const c = new NostrClient({ relayUrl: DEFAULT_RELAY_URL, agentName: 'alice', teamId: 't' });
+    await c.subscribe('#api');
+    await c.subscribe('#ops');
+    const cfg = c.exportConfig();
+    expect(cfg['channels']).toBe('#api,#ops');
+
+    const restored = new NostrClient({ relayUrl: DEFAULT_RELAY_URL, agentName: '' });
+    restored.configure({ ...cfg, agentName: 'alice' });
+    expect(restored.exportConfig()['channels']).toBe('#api,#ops');
+  });
+});
+
+describe('NostrClient addressing', () => {
+  async function connected(agentName: string) {
+    const { default: WS } = await import('ws');
+    const c = new NostrClient({ relayUrl: DEFAULT_RELAY_URL, agentName, teamId: 't' });
+    c.connect();
+    const ws = vi.mocked(WS).mock.results.at(-1)!.value as {
+      on: ReturnType<typeof vi.fn>;
+      send: ReturnType<typeof vi.fn>;
+    };
+    const onMessage = ws.on.mock.calls.find(([evt]) => evt === 'message')![1] as (data: Buffer) => void;
+    return { c, ws, onMessage };
+  }
+
+  const presence = (name: string) => ({
+    id: `p-${name}`, pubkey: 'p', created_at: 100, kind: 1338, sig: 's', content: '',
+    tags: [['t', 't'], ['agent', name]],
+  });
+  const message = (id: string, from: string, to: string[], type = 'api_spec') => ({
+    id, pubkey: 'p', created_at: 100, kind: 1337, sig: 's', content: id,
+    tags: [['t', 't'], ['agent-from', from], ...to.map((a) => ['agent-to', a]), ['msg-type', type]],
+  });
+
+  it('resolves lists and globs against the presence roster', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    for (const name of ['frontend-1', 'frontend-2', 'backend']) {
+      onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', presence(name)])));
+    }
+
+    const pending = c.send(['frontend-*', 'ghost'], 'api_spec', 'spec');
+    await new Promise((r) => setImmediate(r));
+    const [, sent] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, { id: string; tags: string[][] }];
+    expect(sent.tags).toContainEqual(['agent-to', 'frontend-*']);
+    expect(sent.tags).toContainEqual(['agent-to', 'ghost']);
+    onMessage(Buffer.from(JSON.stringify(['OK', sent.id, true, ''])));
+
+    const { recipients } = await pending;
+    expect(recipients).toEqual([
+      { agent: 'frontend-1', status: 'sent' },
+      { agent: 'frontend-2', status: 'sent' },
+      { agent: 'ghost', status: 'unknown' },
+    ]);
+  });
+
+  it('carries a structured payload in a tag', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    void c.send('bob', 'todo', 'Add tests', { payload: { title: 'Add tests', assignee: 'bob' } });
+    await new Promise((r) => setImmediate(r));
+    const [, sent] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, { tags: string[][] }];
+    expect(sent.tags).toContainEqual(['payload', '{"title":"Add tests","assignee":"bob"}']);
+
+    const incoming = message('e1', 'bob', ['alice'], 'todo');
+    incoming.tags.push(['payload', '{"title":"Review PR"}']);
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', incoming])));
+    expect(c.flushMessages()[0].payload).toEqual({ title: 'Review PR' });
+  });
+
+  it('drops a payload that does not match its type and keeps the message', async () => {
+    const { c, onMessage } = await connected('alice');
+    const question = message('e1', 'bob', ['alice'], 'question');
+    question.tags.push(['payload', '{"question":"Which DB?","options":"postgres"}']);
+    const decision = message('e2', 'bob', ['alice'], 'decision');
+    decision.tags.push(['payload', '["not", "an", "object"]']);
+    const custom = message('e3', 'bob', ['alice'], 'deploy');
+    custom.tags.push(['payload', '{"env":"prod"}']);
+    for (const event of [question, decision, custom]) onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', event])));
+
+    const messages = c.flushMessages();
+    expect(messages.map((m) => m.payload)).toEqual([undefined, undefined, { env: 'prod' }]);
+    expect(() => renderMessages(messages)).not.toThrow();
+  });
+
+  it('maps expiresAt to a NIP-40 expiration tag and back', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    void c.send('bob', 'question', 'Still blocked?', { expiresAt: 1_900_000_000_500 });
+    await new Promise((r) => setImmediate(r));
+    const [, sent] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, { tags: string[][] }];
+    expect(sent.tags).toContainEqual(['expiration', '1900000000']);
+
+    const incoming = message('e1', 'bob', ['alice']);
+    incoming.tags.push(['expiration', '1900000000']);
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', incoming])));
+    expect(c.flushMessages()[0].expiresAt).toBe(1_900_000_000_000);
+  });
+
+  it('buffers messages whose list or glob includes this agent', async () => {
+    const { c, onMessage } = await connected('frontend-1');
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', message('e1', 'bob', ['frontend-*'])])));
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', message('e2', 'bob', ['carol', 'frontend-1'])])));
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', message('e3', 'bob', ['backend-*'])])));
+
+    const msgs = c.flushMessages();
+    expect(msgs.map((m) => m.id)).toEqual(['e1', 'e2']);
+    expect(msgs[1].to).toEqual(['carol', 'frontend-1']);
+  });
+});
+
+describe('NostrClient.messageTypes()', () => {
+  it('returns the built-in types', async () => {
+    const c = new NostrClient({ relayUrl: DEFAULT_RELAY_URL, agentName: 'alice', teamId: 't' });
+    const names = (await c.messageTypes()).map((t) => t.name);
+    expect(names).toEqual(['api_spec', 'file_change', 'decision', 'todo', 'question']);
+  });
+});
+
+describe('NostrClient tasks', () => {
+  async function connected(agentName: string) {
+    const { default: WS } = await import('ws');
+    const c = new NostrClient({ relayUrl: DEFAULT_RELAY_URL, agentName, teamId: 't' });
+    c.connect();
+    const ws = vi.mocked(WS).mock.results.at(-1)!.value as {
+      on: ReturnType<typeof vi.fn>;
+      send: ReturnType<typeof vi.fn>;
+    };
+    const onMessage = ws.on.mock.calls.find(([evt]) => evt === 'message')![1] as (data: Buffer) => void;
+    return { c, ws, onMessage };
+  }
+
+  const todo = {
+    id: 'todo-1', pubkey: 'p', created_at: 100, kind: 1337, sig: 's', content: 'Fix login',
+    tags: [['t', 't'], ['agent-from', 'carol'], ['agent-to', 'broadcast'], ['msg-type', 'todo'], ['payload', '{"title":"Fix login"}']],
+  };
+  const claim = (id: string, by: string, createdAt: number) => ({
+    id, pubkey: 'p', created_at: createdAt, kind: 1339, sig: 's', content: '',
+    tags: [['t', 't'], ['task', 'todo-1'], ['task-action', 'claim'], ['agent-from', by]],
+  });
+
+  /** Answers the next relay query with `events` */
+  async function answerQuery(ws: { send: ReturnType<typeof vi.fn> }, onMessage: (data: Buffer) => void, events: unknown[]) {
+    await new Promise((r) => setImmediate(r));
+    const [, subId] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, string];
+    for (const e of events) onMessage(Buffer.from(JSON.stringify(['EVENT', subId, e])));
+    onMessage(Buffer.from(JSON.stringify(['EOSE', subId])));
+  }
+
+  it('builds the board from todo messages and claims', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    const pending = c.listTasks();
+    await answerQuery(ws, onMessage, [todo, claim('c1', 'bob', 200)]);
+    const tasks = await pending;
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ id: 'todo-1', title: 'Fix login', status: 'claimed', assignee: 'bob' });
+  });
+
+  it('pages back through history until the todo is found', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    const pending = c.listTasks();
+    const chatter = Array.from({ length: 500 }, (_, i) => ({
+      id: `q${i}`, pubkey: 'p', created_at: 1000 + i, kind: 1337, sig: 's', content: 'ping',
+      tags: [['t', 't'], ['agent-from', 'bob'], ['agent-to', 'alice'], ['msg-type', 'question']],
+    }));
+    await answerQuery(ws, onMessage, chatter);
+    await answerQuery(ws, onMessage, [todo, claim('c1', 'bob', 200)]);
+
+    const requests = ws.send.mock.calls.map(([data]) => JSON.parse(data as string) as unknown[]).filter(([verb]) => verb === 'REQ');
+    expect(requests.at(-1)![2]).toMatchObject({ limit: 500, until: 1000 });
+    const tasks = await pending;
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ id: 'todo-1', status: 'claimed', assignee: 'bob' });
+  });
+
+  it('refuses to claim a task someone else holds without publishing', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    const pending = c.claimTask('todo-1');
+    await answerQuery(ws, onMessage, [todo, claim('c1', 'bob', 200)]);
+    const sentBefore = ws.send.mock.calls.length;
+    const result = await pending;
+    expect(result).toMatchObject({ ok: false, error: 'Task is claimed by bob' });
+    expect(ws.send.mock.calls.length).toBe(sentBefore);
+  });
+
+  it('reports a claim that lost the race to an earlier one', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    const pending = c.claimTask('todo-1');
+    await answerQuery(ws, onMessage, [todo]);
+
+    await new Promise((r) => setImmediate(r));
+    const [, published] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, { id: string; created_at: number; tags: string[][] }];
+    expect(published.tags).toContainEqual(['task-action', 'claim']);
+    onMessage(Buffer.from(JSON.stringify(['OK', published.id, true, ''])));
+
+    // bob's claim reached the relay a second earlier
+    await answerQuery(ws, onMessage, [todo, published, claim('c0', 'bob', published.created_at - 1)]);
+    const result = await pending;
+    expect(result).toMatchObject({ ok: false, error: 'Task is claimed by bob', task: { assignee: 'bob' } });
+  });
+
+  it('reports a task missing from the replay after publishing', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    const pending = c.claimTask('todo-1');
+    await answerQuery(ws, onMessage, [todo]);
+
+    await new Promise((r) => setImmediate(r));
+    const [, published] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, { id: string }];
+    onMessage(Buffer.from(JSON.stringify(['OK', published.id, true, ''])));
+
+    await answerQuery(ws, onMessage, []);
+    expect(await pending).toMatchObject({ ok: false, task: null });
+  });
+
+  it('turns teammates\' task actions into task_update messages', async () => {
+    const { c, onMessage } = await connected('alice');
+    onMessage(Buffer.from(JSON.stringify(['EVENT', 'live', claim('c1', 'bob', 200)])));
+    const [msg] = c.flushMessages();
+    expect(msg).toMatchObject({ type: 'task_update', from: 'bob', payload: { taskId: 'todo-1', status: 'claimed', assignee: 'bob' } });
+  });
+});
+
+describe('NostrClient decisions', () => {
+  async function connected(agentName: string) {
+    const { default: WS } = await import('ws');
+    const c = new NostrClient({ relayUrl: DEFAULT_RELAY_URL, agentName, teamId: 't' });
+    c.connect();
+    const ws = vi.mocked(WS).mock.results.at(-1)!.value as {
+      on: ReturnType<typeof vi.fn>;
+      send: ReturnType<typeof vi.fn>;
+    };
+    const onMessage = ws.on.mock.calls.find(([evt]) => evt === 'message')![1] as (data: Buffer) => void;
+    return { c, ws, onMessage };
+  }
+
+  const decision = (id: string, createdAt: number, adr?: number) => ({
+    id, pubkey: 'p', created_at: createdAt, kind: 1337, sig: 's', content: id,
+    tags: [['t', 't'], ['agent-from', 'bob'], ['agent-to', 'broadcast'], ['msg-type', 'decision'], ...(adr ? [['adr', String(adr)]] : [])],
+  });
+
+  async function answerQuery(ws: { send: ReturnType<typeof vi.fn> }, onMessage: (data: Buffer) => void, events: unknown[]) {
+    await new Promise((r) => setImmediate(r));
+    const [, subId] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, string];
+    for (const e of events) onMessage(Buffer.from(JSON.stringify(['EVENT', subId, e])));
+    onMessage(Buffer.from(JSON.stringify(['EOSE', subId])));
+  }
+
+  it('keeps the ADR numbers decisions claimed when earlier ones are gone', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    const pending = c.listDecisions();
+    await answerQuery(ws, onMessage, [decision('d7', 700, 7), decision('d8', 800, 8), decision('old', 900)]);
+    expect((await pending).map((d) => [d.id, d.number])).toEqual([['d7', 7], ['d8', 8], ['old', 9]]);
+  });
+
+  it('claims the next ADR number when sending a decision', async () => {
+    const { c, ws, onMessage } = await connected('alice');
+    void c.send('broadcast', 'decision', 'Use Postgres');
+    await answerQuery(ws, onMessage, [decision('d1', 100, 1), decision('d2', 200, 2)]);
+    await new Promise((r) => setImmediate(r));
+    const [, sent] = JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as [string, { tags: string[][] }];
+    expect(sent.tags).toContainEqual(['adr', '3']);
+  });
+});
@@ -1,12 +1,29 @@
 import { randomBytes } from 'crypto';
 import WebSocket from 'ws';
 import { generateSecretKey, getPublicKey, finalizeEvent } from 'nostr-tools';
+import {
+  BUILTIN_MESSAGE_TYPES, addressList, applyTaskAction, decisionLog, diffSpecs, exportAdrs, foldTasks, isBuiltinType,
+  isChannel, isPattern, listServices, matchesPattern, nextDecisionNumber, payloadErrors, payloadSchemas, searchDecisions,
+  serviceVersions, specRegistry, viewSpec,
+} from '@agent-share/shared';
+import type { TaskAction, TaskActionEvent } from '@agent-share/shared';
 import type { ITransport, ITransportOptions } from './transport.js';
-import type { AgentMessage, AgentInfo, MessageType } from './types.js';
+import type { AdrFile, AgentMessage, AgentInfo, Attachment, Decision, DecisionQuery, ServiceSummary, SpecDiff, SpecDiffQuery, SpecQuery, SpecView, ContextEntry, ContextSetResult, TaskRecord, TaskStatus, TaskUpdateResult, MessageType, MessageTypeInfo, ChannelResult, HistoryQuery, HistoryPage, RecipientResult, SendOptions, SendResult } from './types.js';
 
 // Custom event kinds (not officially assigned — stored as regular events by relays)
 const AGENT_MSG_KIND = 1337;
 const PRESENCE_KIND = 1338;
+const TASK_KIND = 1339;  // a claim or completion of the task opened by a todo message
+
+// Max events requested from the relay per query; replays page back in steps of this size.
+// Matches the cap common relays put on a single REQ, so a short page means history is exhausted
+const HISTORY_FETCH_LIMIT = 500;
+
+// Relays are not blob stores — attachments need the hub's artifact storage
+const ARTIFACTS_UNSUPPORTED = 'Attachments require the hub transport';
+
+// Versioned compare-and-set needs a single authority; relays only order events loosely
+const CONTEXT_UNSUPPORTED = 'Team context requires the hub transport';
 
 export interface NostrClientOptions extends ITransportOptions {
   agentName: string;
@@ -15,6 +32,7 @@ export interface NostrClientOptions extends ITransportOptions {
   privateKey?: string;      // hex-encoded secp256k1 private key; generated on first use
   heartbeatMs?: number;     // how often to re-publish presence (default from config)
   presenceWindowS?: number; // subscription lookback window (default from config)
+  channels?: string[];      // #channels this agent is subscribed to (no server keeps track)
 }
 
 interface NostrEvent {
@@ -34,6 +52,7 @@ export class NostrClient implements ITransport {
   private messageBuffer: AgentMessage[] = [];
   private knownAgents = new Map<string, AgentInfo>();
   private pendingPublish = new Map<string, { resolve: () => void; reject: (e: Error) => void }>();
+  private pendingQueries = new Map<string, { events: NostrEvent[]; done: () => void }>();
   private readonly subId: string;
 
   constructor(opts: NostrClientOptions) {
@@ -54,6 +73,7 @@ export class NostrClient implements ITransport {
       privateKey: o['privateKey'] != null ? String(o['privateKey']) : this.opts.privateKey,
       heartbeatMs: this.opts.heartbeatMs,
       presenceWindowS: this.opts.presenceWindowS,
+      channels: o['channels'] != null ? String(o['channels']).split(',').filter(Boolean) : this.opts.channels,
     };
   }
 
@@ -66,6 +86,10 @@ export class NostrClient implements ITransport {
     };
   }
 
+  async whoami(): Promise<{ agentName: string; pubkey: string; relayUrl: string }> {
+    return this.identity(); // no server — identity is purely local
+  }
+
   async createTeam(): Promise<{ teamId: string; apiKey: string }> {
     const teamId = randomBytes(16).toString('hex');
     this.opts.teamId = teamId;
@@ -73,6 +97,10 @@ export class NostrClient implements ITransport {
     return { teamId, apiKey: teamId };
   }
 
+  async authenticate(): Promise<void> {
+    // Permissionless — identity is the local keypair, nothing to exchange
+  }
+
   connect(): void {
     if (!this.opts.teamId) return;
     clearInterval(this.heartbeat);
@@ -80,7 +108,7 @@ export class NostrClient implements ITransport {
     this.ws = new WebSocket(this.opts.relayUrl);
 
     this.ws.on('open', () => {
-      this.subscribe();
+      this.subscribeToTeam();
       this.publishPresence();
       this.heartbeat = setInterval(() => this.publishPresence(), this.opts.heartbeatMs!);
     });
@@ -88,7 +116,10 @@ export class NostrClient implements ITransport {
     this.ws.on('message', (data: Buffer) => {
       try {
         const msg = JSON.parse(data.toString()) as unknown[];
-        if (msg[0] === 'EVENT' && msg[2]) this.handleEvent(msg[2] as NostrEvent);
+        const query = this.pendingQueries.get(msg[1] as string);
+        if (msg[0] === 'EVENT' && msg[2] && query) query.events.push(msg[2] as NostrEvent);
+        else if (msg[0] === 'EVENT' && msg[2]) this.handleEvent(msg[2] as NostrEvent);
+        if (msg[0] === 'EOSE' && query) query.done();
         if (msg[0] === 'OK') this.handleOk(msg as [string, string, boolean, string]);
       } catch { /* ignore malformed relay messages */ }
     });
@@ -98,42 +129,138 @@ export class NostrClient implements ITransport {
     });
   }
 
-  async send(to: string, type: string, content: string): Promise<{ ok: boolean; messageId: string; deliveredTo: number }> {
-    if (!this.ws) {
-      throw new Error('Not connected to relay. Call connect() first.');
-    }
-    // If the WebSocket is still opening, wait for it (up to 10s)
-    if (this.ws.readyState === 0 /* CONNECTING */) {
-      await new Promise<void>((resolve, reject) => {
-        const t = setTimeout(() => reject(new Error('Connection timeout waiting for relay')), 10_000);
-        this.ws!.once('open', () => { clearTimeout(t); resolve(); });
-        this.ws!.once('error', (e) => { clearTimeout(t); reject(e); });
-      });
-    }
-    if (this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('Relay connection failed. Check RELAY_URL and network.');
-    }
+  async send(to: string | string[], type: string, content: string, opts: SendOptions = {}): Promise<SendResult> {
+    if (opts.attachments?.length) throw new Error(ARTIFACTS_UNSUPPORTED);
+    const { payload, expiresAt } = opts;
+    await this.ensureOpen();
     const privkey = this.ensurePrivkey();
+    const addresses = addressList(to);
+    // A decision claims the next ADR number so it keeps it however much history a relay later serves
+    const adr = type === 'decision' ? nextDecisionNumber(await this.loadDecisions()) : undefined;
     const event = finalizeEvent({
       kind: AGENT_MSG_KIND,
       created_at: Math.floor(Date.now() / 1000),
       tags: [
         ['t', this.opts.teamId!],
         ['agent-from', this.opts.agentName],
-        ['agent-to', to],
+        ...addresses.map((a) => ['agent-to', a]),
         ['msg-type', type],
+        // Lets relays index channel traffic separately from direct messages
+        ...addresses.filter(isChannel).map((c) => ['channel', c]),
+        ...(payload ? [['payload', JSON.stringify(payload)]] : []),
+        ...(adr !== undefined ? [['adr', String(adr)]] : []),
+        // NIP-40: relays that support it stop serving the event once it expires
+        ...(expiresAt !== undefined ? [['expiration', String(Math.floor(expiresAt / 1000))]] : []),
       ],
       content,
     }, privkey);
 
     await this.publish(event as unknown as NostrEvent);
-    return { ok: true, messageId: event.id, deliveredTo: 1 };
+    return { ok: true, messageId: event.id, recipients: this.resolveRecipients(addresses) };
+  }
+
+  async uploadArtifact(): Promise<Attachment> {
+    throw new Error(ARTIFACTS_UNSUPPORTED);
+  }
+
+  async downloadArtifact(): Promise<{ attachment: Attachment; data: Buffer }> {
+    throw new Error(ARTIFACTS_UNSUPPORTED);
+  }
+
+  async contextSet(): Promise<ContextSetResult> {
+    throw new Error(CONTEXT_UNSUPPORTED);
+  }
+
+  async contextGet(): Promise<ContextEntry | null> {
+    throw new Error(CONTEXT_UNSUPPORTED);
+  }
+
+  async contextList(): Promise<ContextEntry[]> {
+    throw new Error(CONTEXT_UNSUPPORTED);
+  }
+
+  async claimTask(id: string): Promise<TaskUpdateResult> {
+    return this.updateTask(id, 'claim');
+  }
+
+  async completeTask(id: string, note?: string): Promise<TaskUpdateResult> {
+    return this.updateTask(id, 'complete', note);
+  }
+
+  async listTasks(status?: TaskStatus): Promise<TaskRecord[]> {
+    const tasks = await this.loadTasks();
+    return status ? tasks.filter((t) => t.status === status) : tasks;
+  }
+
+  async listDecisions(query: DecisionQuery = {}): Promise<Decision[]> {
+    return searchDecisions(await this.loadDecisions(), query);
+  }
+
+  async exportDecisions(): Promise<AdrFile[]> {
+    return exportAdrs(await this.loadDecisions());
+  }
+
+  async listSpecServices(): Promise<ServiceSummary[]> {
+    return listServices(specRegistry(await this.loadTeamMessages()));
+  }
+
+  async getSpec(service: string, query: SpecQuery = {}): Promise<SpecView> {
+    const versions = serviceVersions(specRegistry(await this.loadTeamMessages()), service);
+    if (versions.length === 0) throw new Error('Spec lookup failed: Service not found');
+    const result = viewSpec(service, versions, query);
+    if ('error' in result) throw new Error(`Spec lookup failed: ${result.error}`);
+    if ('endpoint' in result.view && !result.view.endpoint) {
+      throw new Error(`Spec lookup failed: Endpoint not in ${service} at revision ${result.view.revision}`);
+    }
+    return result.view;
+  }
+
+  async diffSpec(service: string, query: SpecDiffQuery = {}): Promise<SpecDiff> {
+    const versions = serviceVersions(specRegistry(await this.loadTeamMessages()), service);
+    if (versions.length === 0) throw new Error('Spec lookup failed: Service not found');
+    const result = diffSpecs(service, versions, query);
+    if ('error' in result) throw new Error(`Spec lookup failed: ${result.error}`);
+    return result.diff;
+  }
+
+  async subscribe(channel: string): Promise<ChannelResult> {
+    const channels = new Set(this.opts.channels);
+    channels.add(channel);
+    this.opts.channels = [...channels];
+    return { ok: true, channel };
+  }
+
+  async unsubscribe(channel: string): Promise<ChannelResult> {
+    this.opts.channels = (this.opts.channels ?? []).filter((c) => c !== channel);
+    return { ok: true, channel };
+  }
+
+  async messageTypes(): Promise<MessageTypeInfo[]> {
+    return [...BUILTIN_MESSAGE_TYPES]; // no registry without a hub; any type name is relayed as-is
   }
 
   async listAgents(): Promise<AgentInfo[]> {
     return Array.from(this.knownAgents.values());
   }
 
+  async history(query: HistoryQuery): Promise<HistoryPage> {
+    await this.ensureOpen();
+    const filter: Record<string, unknown> = {
+      kinds: [AGENT_MSG_KIND],
+      '#t': [this.opts.teamId!],
+      limit: HISTORY_FETCH_LIMIT,
+    };
+    if (query.since !== undefined) filter['since'] = Math.floor(query.since / 1000);
+    if (query.until !== undefined) filter['until'] = Math.ceil(query.until / 1000);
+
+    const events = await this.queryRelay(filter);
+    const log = events
+      .map((e) => this.toAgentMessage(e))
+      .filter((m): m is AgentMessage => m !== null)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    return this.paginate(log, query);
+  }
+
   flushMessages(): AgentMessage[] {
     const msgs = [...this.messageBuffer];
     this.messageBuffer.length = 0;
@@ -156,11 +283,221 @@ export class NostrClient implements ITransport {
       hubUrl: this.opts.relayUrl,
       transport: 'nostr',
       privateKey: this.opts.privateKey ?? '',
+      ...(this.opts.channels?.length ? { channels: this.opts.channels.join(',') } : {}),
     };
   }
 
   // ---------- private ----------
 
+  private async ensureOpen(): Promise<void> {
+    if (!this.ws) {
+      throw new Error('Not connected to relay. Call connect() first.');
+    }
+    // If the WebSocket is still opening, wait for it (up to 10s)
+    if (this.ws.readyState === 0 /* CONNECTING */) {
+      await new Promise<void>((resolve, reject) => {
+        const t = setTimeout(() => reject(new Error('Connection timeout waiting for relay')), 10_000);
+        this.ws!.once('open', () => { clearTimeout(t); resolve(); });
+        this.ws!.once('error', (e) => { clearTimeout(t); reject(e); });
+      });
+    }
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error('Relay connection failed. Check RELAY_URL and network.');
+    }
+  }
+
+  /** One-shot REQ: collects stored events until EOSE (or 5s), then closes the subscription. */
+  private queryRelay(filter: Record<string, unknown>): Promise<NostrEvent[]> {
+    const subId = `ah-q-${randomBytes(4).toString('hex')}`;
+    return new Promise((resolve) => {
+      const events: NostrEvent[] = [];
+      const done = () => {
+        clearTimeout(timeout);
+        if (!this.pendingQueries.delete(subId)) return;
+        if (this.ws?.readyState === WebSocket.OPEN) this.ws.send(JSON.stringify(['CLOSE', subId]));
+        resolve(events);
+      };
+      const timeout = setTimeout(done, 5_000);
+      this.pendingQueries.set(subId, { events, done });
+      this.ws!.send(JSON.stringify(['REQ', subId, filter]));
+    });
+  }
+
+  /**
+   * Pages back through `filter` with `until` until a page comes back short.
+   * Events sharing the boundary second are fetched twice and counted once.
+   */
+  private async queryAll(filter: Record<string, unknown>): Promise<NostrEvent[]> {
+    const events = new Map<string, NostrEvent>();
+    let until: number | undefined;
+    for (;;) {
+      const page = await this.queryRelay({ ...filter, limit: HISTORY_FETCH_LIMIT, ...(until !== undefined ? { until } : {}) });
+      const fresh = page.filter((e) => !events.has(e.id));
+      for (const e of fresh) events.set(e.id, e);
+      if (page.length < HISTORY_FETCH_LIMIT || fresh.length === 0) return [...events.values()];
+      until = Math.min(...page.map((e) => e.created_at));
+    }
+  }
+
+  /** The team's messages as far back as the relay's stored events reach. */
+  private async loadTeamMessages(): Promise<AgentMessage[]> {
+    await this.ensureOpen();
+    const events = await this.queryRelay({
+      kinds: [AGENT_MSG_KIND],
+      '#t': [this.opts.teamId!],
+      limit: HISTORY_FETCH_LIMIT,
+    });
+    return events.map((e) => this.toAgentMessage(e)).filter((m): m is AgentMessage => m !== null);
+  }
+
+  /** Replays the team's whole message history into the decision log, keeping each decision's claimed ADR number. */
+  private async loadDecisions(): Promise<Decision[]> {
+    await this.ensureOpen();
+    const events = await this.queryAll({ kinds: [AGENT_MSG_KIND], '#t': [this.opts.teamId!] });
+    const claimed = new Map<string, number>();
+    for (const e of events) {
+      const adr = Number(e.tags.find(t => t[0] === 'adr')?.[1]);
+      if (Number.isInteger(adr) && adr > 0) claimed.set(e.id, adr);
+    }
+    return decisionLog(events.map((e) => this.toAgentMessage(e)).filter((m): m is AgentMessage => m !== null), claimed);
+  }
+
+  /** Replays the team's todo messages and task actions into the board (see foldTasks). */
+  private async loadTasks(): Promise<TaskRecord[]> {
+    await this.ensureOpen();
+    const events = await this.queryAll({ kinds: [AGENT_MSG_KIND, TASK_KIND], '#t': [this.opts.teamId!] });
+    const todos = events
+      .filter((e) => e.kind === AGENT_MSG_KIND)
+      .map((e) => this.toAgentMessage(e))
+      .filter((m): m is AgentMessage => m?.type === 'todo');
+    const actions = events
+      .filter((e) => e.kind === TASK_KIND)
+      .map((e) => this.toTaskAction(e))
+      .filter((a): a is TaskActionEvent => a !== null);
+    return foldTasks(todos, actions);
+  }
+
+  /**
+   * Relays cannot refuse a conflicting claim, so the action is checked against
+   * the board, published, and the board replayed: if another agent's claim
+   * sorts first, ours is dropped by every client and reported here as lost.
+   */
+  private async updateTask(id: string, action: TaskAction, note?: string): Promise<TaskUpdateResult> {
+    const self = this.opts.agentName;
+    const before = (await this.loadTasks()).find((t) => t.id === id);
+    if (!before) return { ok: false, error: 'Task not found', task: null };
+    const check = applyTaskAction(before, action, self, Date.now(), note);
+    if ('error' in check) return { ok: false, error: check.error, task: before };
+    if (check.task === before) return { ok: true, task: before };
+
+    const event = finalizeEvent({
+      kind: TASK_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['t', this.opts.teamId!], ['task', id], ['task-action', action], ['agent-from', self]],
+      content: note ?? '',
+    }, this.ensurePrivkey());
+    await this.publish(event as unknown as NostrEvent);
+
+    const after = (await this.loadTasks()).find((t) => t.id === id);
+    if (!after) return { ok: false, error: 'Task not found on the relay after publishing — try again', task: null };
+    const at = event.created_at * 1000;
+    if (after.history.some((e) => e.by === self && e.at === at && e.action === check.task.history.at(-1)!.action)) {
+      return { ok: true, task: after };
+    }
+    const lost = applyTaskAction(after, action, self, at, note);
+    return { ok: false, error: 'error' in lost ? lost.error : 'Task changed concurrently — try again', task: after };
+  }
+
+  /** Same filtering and cursor semantics as the hub's /agent/history. */
+  private paginate(log: AgentMessage[], query: HistoryQuery): HistoryPage {
+    const limit = query.limit ?? 50;
+    let newestFirst = [...log].reverse();
+    if (query.cursor) {
+      const idx = newestFirst.findIndex((m) => m.id === query.cursor);
+      newestFirst = idx === -1 ? [] : newestFirst.slice(idx + 1);
+    }
+    const matches = newestFirst.filter((m) =>
+      (query.from === undefined || m.from === query.from) &&
+      (query.to === undefined || addressList(m.to).includes(query.to)) &&
+      (query.type === undefined || m.type === query.type) &&
+      (query.since === undefined || m.timestamp >= query.since) &&
+      (query.until === undefined || m.timestamp <= query.until)
+    );
+    const messages = matches.slice(0, limit);
+    return { messages, nextCursor: matches.length > limit ? messages[messages.length - 1].id : null };
+  }
+
+  /**
+   * There is no server to confirm delivery, so recipients are resolved against
+   * the presence roster. Channel subscribers are unknown and are not listed.
+   */
+  private resolveRecipients(addresses: string[]): RecipientResult[] {
+    const self = this.opts.agentName;
+    const roster = [...this.knownAgents.keys()];
+    const results = new Map<string, RecipientResult>();
+    for (const address of addresses) {
+      if (address === 'broadcast' || isPattern(address)) {
+        for (const name of roster) {
+          if (name !== self && (address === 'broadcast' || matchesPattern(address, name))) {
+            results.set(name, { agent: name, status: 'sent' });
+          }
+        }
+      } else if (!isChannel(address)) {
+        results.set(address, { agent: address, status: this.knownAgents.has(address) ? 'sent' : 'unknown' });
+      }
+    }
+    return [...results.values()];
+  }
+
+  private toAgentMessage(event: NostrEvent): AgentMessage | null {
+    const from = event.tags.find(t => t[0] === 'agent-from')?.[1];
+    const to = event.tags.filter(t => t[0] === 'agent-to' && t[1]).map(t => t[1]);
+    const msgType = event.tags.find(t => t[0] === 'msg-type')?.[1];
+    if (!from || to.length === 0 || !msgType) return null;
+    return {
+      id: event.id,
+      from,
+      to: to.length === 1 ? to[0] : to,
+      type: msgType as MessageType,
+      content: event.content,
+      ...this.parsePayload(event, msgType),
+      timestamp: event.created_at * 1000,
+      ...this.parseExpiration(event),
+    };
+  }
+
+  private toTaskAction(event: NostrEvent): TaskActionEvent | null {
+    const taskId = event.tags.find(t => t[0] === 'task')?.[1];
+    const action = event.tags.find(t => t[0] === 'task-action')?.[1];
+    const by = event.tags.find(t => t[0] === 'agent-from')?.[1];
+    if (!taskId || !by || (action !== 'claim' && action !== 'complete')) return null;
+    return { id: event.id, taskId, action, by, at: event.created_at * 1000, ...(event.content ? { note: event.content } : {}) };
+  }
+
+  private parseExpiration(event: NostrEvent): { expiresAt?: number } {
+    const seconds = Number(event.tags.find(t => t[0] === 'expiration')?.[1]);
+    return Number.isFinite(seconds) && seconds > 0 ? { expiresAt: seconds * 1000 } : {};
+  }
+
+  /**
+   * Relays accept any tag, so a payload is checked here the way the hub checks
+   * it on send. A malformed one from another client is dropped and the message
+   * kept as plain content, rather than failing when the batch is rendered.
+   */
+  private parsePayload(event: NostrEvent, type: string): { payload?: Record<string, unknown> } {
+    const raw = event.tags.find(t => t[0] === 'payload')?.[1];
+    if (!raw) return {};
+    let payload: unknown;
+    try {
+      payload = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+    if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) return {};
+    if (isBuiltinType(type) && payloadErrors(payloadSchemas[type], payload)) return {};
+    return { payload: payload as Record<string, unknown> };
+  }
+
   private ensurePrivkey(): Uint8Array {
     if (!this.opts.privateKey) {
       const sk = generateSecretKey();
@@ -170,9 +507,9 @@ export class NostrClient implements ITransport {
     return new Uint8Array(Buffer.from(this.opts.privateKey, 'hex'));
   }
 
-  private subscribe(): void {
+  private subscribeToTeam(): void {
     const filter = {
-      kinds: [AGENT_MSG_KIND, PRESENCE_KIND],
+      kinds: [AGENT_MSG_KIND, PRESENCE_KIND, TASK_KIND],
       '#t': [this.opts.teamId!],
       since: Math.floor(Date.now() / 1000) - this.opts.presenceWindowS!,
     };
@@ -245,24 +582,41 @@ export class NostrClient implements ITransport {
       return;
     }
 
+    if (event.kind === TASK_KIND) {
+      // Mirrors the hub's task_update notice; a claim that lost a race still shows up here
+      const action = this.toTaskAction(event);
+      if (!action || action.by === this.opts.agentName) return;
+      this.messageBuffer.push({
+        id: event.id,
+        from: action.by,
+        to: 'broadcast',
+        type: 'task_update',
+        content: `${action.by} ${action.action === 'claim' ? 'claimed' : 'completed'} task ${action.taskId}`,
+        payload: {
+          taskId: action.taskId,
+          status: action.action === 'claim' ? 'claimed' : 'done',
+          assignee: action.by,
+          ...(action.note ? { note: action.note } : {}),
+        },
+        timestamp: action.at,
+      });
+      return;
+    }
+
     if (event.kind === AGENT_MSG_KIND) {
-      const from = event.tags.find(t => t[0] === 'agent-from')?.[1];
-      const to = event.tags.find(t => t[0] === 'agent-to')?.[1];
-      const msgType = event.tags.find(t => t[0] === 'msg-type')?.[1];
-      if (!from || !to || !msgType) return;
+      const msg = this.toAgentMessage(event);
+      if (!msg) return;
 
-      this.knownAgents.set(from, { name: from, connectedAt: event.created_at * 1000, pendingMessages: 0 });
+      this.knownAgents.set(msg.from, { name: msg.from, connectedAt: msg.timestamp, pendingMessages: 0 });
 
-      if (to !== this.opts.agentName && to !== 'broadcast') return;
+      const self = this.opts.agentName;
+      const forMe = addressList(msg.to).some((a) =>
+        a === self || a === 'broadcast' ||
+        (msg.from !== self && isPattern(a) && matchesPattern(a, self)) ||
+        (msg.from !== self && !!this.opts.channels?.includes(a)));
+      if (!forMe) return;
 
-      this.messageBuffer.push({
-        id: event.id,
-        from,
-        to,
-        type: msgType as MessageType,
-        content: event.content,
-        timestamp: event.created_at * 1000,
-      });
+      this.messageBuffer.push(msg);
     }
   }
 }
@@ -1,7 +1,24 @@
-import { describe, it, expect } from 'vitest';
-import { HubClient } from './hub-client.js';
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
 import type { ITransport } from './transport.js';
 
+// Mock ws and eventsource before importing HubClient
+vi.mock('ws', () => {
+  const MockWebSocket = vi.fn().mockImplementation(() => Object.assign(new EventEmitter(), {
+    send: vi.fn(),
+    close: vi.fn(),
+    terminate: vi.fn(),
+  }));
+  return { default: MockWebSocket, WebSocket: MockWebSocket };
+});
+vi.mock('eventsource', () => ({ default: vi.fn().mockImplementation(() => ({ close: vi.fn() })) }));
+
+const { HubClient } = await import('./hub-client.js');
+const { default: WS } = await import('ws');
+const { default: ES } = await import('eventsource');
+
+type MockSocket = EventEmitter & { send: ReturnType<typeof vi.fn> };
+
 describe('HubClient satisfies ITransport', () => {
   it('is structurally compatible with ITransport', () => {
     const client: ITransport = new HubClient({
@@ -29,6 +46,11 @@ describe('HubClient.isConfigured()', () => {
     expect(client.isConfigured()).toBe(false);
   });
 
+  it('returns true with an agentToken even when apiKey is empty', () => {
+    const client = new HubClient({ hubUrl: 'http://localhost:3000', apiKey: '', agentName: 'agent', agentToken: 'agt_x' });
+    expect(client.isConfigured()).toBe(true);
+  });
+
   it('returns false when both are empty', () => {
     const client = new HubClient({ hubUrl: 'http://localhost:3000', apiKey: '', agentName: '' });
     expect(client.isConfigured()).toBe(false);
@@ -77,9 +99,97 @@ describe('HubClient.exportConfig()', () => {
     expect(client.exportConfig()).toEqual({ apiKey: 'mykey', agentName: 'alice', hubUrl: 'http://hub.example.com' });
   });
 
+  it('includes agentToken once one has been issued', () => {
+    const client = new HubClient({ hubUrl: 'http://hub.example.com', apiKey: 'mykey', agentName: 'alice', agentToken: 'agt_abc' });
+    expect(client.exportConfig()).toEqual({ apiKey: 'mykey', agentName: 'alice', hubUrl: 'http://hub.example.com', agentToken: 'agt_abc' });
+  });
+
   it('reflects updated config after configure()', () => {
     const client = new HubClient({ hubUrl: 'http://old', apiKey: 'old', agentName: 'old' });
     client.configure({ hubUrl: 'http://new', apiKey: 'new', agentName: 'new' });
     expect(client.exportConfig()).toEqual({ apiKey: 'new', agentName: 'new', hubUrl: 'http://new' });
   });
 });
+
+describe('HubClient.authenticate()', () => {
+  it('does not re-register when an agentToken is already set', async () => {
+    // hubUrl is unreachable — any request would reject
+    const client = new HubClient({ hubUrl: 'http://127.0.0.1:1', apiKey: 'key', agentName: 'alice', agentToken: 'agt_abc' });
+    await expect(client.authenticate()).resolves.toBeUndefined();
+  });
+});
+
+describe('HubClient WebSocket mode', () => {
+  function connected(): { client: InstanceType<typeof HubClient>; ws: MockSocket } {
+    const client = new HubClient({ hubUrl: 'http://hub.example.com', apiKey: 'key', agentName: 'alice', agentToken: 'agt_abc' });
+    client.connect();
+    const ws = vi.mocked(WS).mock.results.at(-1)!.value as MockSocket;
+    return { client, ws };
+  }
+  const lastFrame = (ws: MockSocket) => JSON.parse(ws.send.mock.calls.at(-1)![0] as string) as Record<string, unknown>;
+
+  it('opens /agent/ws with the agent token', () => {
+    connected();
+    expect(vi.mocked(WS).mock.calls.at(-1)).toEqual([
+      'ws://hub.example.com/agent/ws',
+      { headers: { Authorization: 'Bearer agt_abc' } },
+    ]);
+  });
+
+  it('buffers pushed messages and acks them', () => {
+    const { client, ws } = connected();
+    ws.emit('open');
+    const message = { id: 'm1', from: 'bob', to: 'alice', type: 'info', content: 'hi', timestamp: 1 };
+    ws.emit('message', Buffer.from(JSON.stringify({ op: 'message', message })));
+    expect(client.flushMessages()).toEqual([message]);
+    expect(lastFrame(ws)).toEqual({ op: 'ack', ids: ['m1'] });
+  });
+
+  it('sends over the socket and resolves with the matching reply', async () => {
+    const { client, ws } = connected();
+    ws.emit('open');
+    const pending = client.send('bob', 'info', 'hi');
+    const { ref, ...frame } = lastFrame(ws);
+    expect(frame).toEqual({ op: 'send', to: 'bob', type: 'info', content: 'hi' });
+    const recipients = [{ agent: 'bob', status: 'delivered' }];
+    ws.emit('message', Buffer.from(JSON.stringify({ op: 'sent', ref, messageId: 'm2', recipients })));
+    await expect(pending).resolves.toEqual({ ok: true, messageId: 'm2', recipients });
+  });
+
+  it('rejects with the hub\'s error reply', async () => {
+    const { client, ws } = connected();
+    ws.emit('open');
+    const pending = client.listAgents();
+    const { ref } = lastFrame(ws);
+    ws.emit('message', Buffer.from(JSON.stringify({ op: 'error', ref, error: 'Team not found' })));
+    await expect(pending).rejects.toThrow('List agents failed: Team not found');
+  });
+
+  it('falls back to SSE when the upgrade is refused', () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+    const { ws } = connected();
+    vi.mocked(ES).mockClear();
+    ws.emit('unexpected-response', {}, { statusCode: 404 });
+    expect(vi.mocked(ES)).toHaveBeenCalledWith('http://hub.example.com/agent/stream?api_key=agt_abc', undefined);
+    stderr.mockRestore();
+  });
+
+  it('drops replayed duplicates and resumes SSE after the last event id', () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+    const { client, ws } = connected();
+    ws.emit('unexpected-response', {}, { statusCode: 404 });
+    const es = vi.mocked(ES).mock.results.at(-1)!.value as { onmessage: (event: { data: string; lastEventId: string }) => void };
+    const message = { id: 'm1', from: 'bob', to: 'alice', type: 'info', content: 'hi', timestamp: 1 };
+    es.onmessage({ data: JSON.stringify(message), lastEventId: '7' });
+    es.onmessage({ data: JSON.stringify(message), lastEventId: '7' });
+    expect(client.flushMessages()).toEqual([message]);
+
+    client.connect();
+    (vi.mocked(WS).mock.results.at(-1)!.value as MockSocket).emit('unexpected-response', {}, { statusCode: 404 });
+    expect(vi.mocked(ES).mock.calls.at(-1)).toEqual([
+      'http://hub.example.com/agent/stream?api_key=agt_abc',
+      { headers: { 'Last-Event-ID': '7' } },
+    ]);
+    stderr.mockRestore();
+  });
+});
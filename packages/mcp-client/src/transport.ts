@@ -1,4 +1,4 @@
-import type { AgentMessage, AgentInfo } from './types.js';
+import type { AdrFile, AgentMessage, AgentInfo, Attachment, Decision, DecisionQuery, ServiceSummary, SpecDiff, SpecDiffQuery, SpecQuery, SpecView, ChannelResult, ContextEntry, ContextSetResult, TaskRecord, TaskStatus, TaskUpdateResult, HistoryQuery, HistoryPage, MessageTypeInfo, SendOptions, SendResult } from './types.js';
 
 export interface ITransportOptions {
   agentName: string;
@@ -15,14 +15,68 @@ export interface ITransport {
   /** Return identity info (agent name + transport-specific details) */
   identity(): { agentName: string; [key: string]: unknown };
 
+  /** Identity as confirmed by the server (e.g. team role), falling back to identity() */
+  whoami(): Promise<{ agentName: string; [key: string]: unknown }>;
+
   /** Create a new team; returns credentials to share */
   createTeam(): Promise<{ teamId: string; apiKey: string }>;
 
+  /** Exchange shared team credentials for per-agent credentials, if the transport uses them */
+  authenticate(): Promise<void>;
+
   /** Establish the real-time connection (SSE, WebSocket, etc.) */
   connect(): void;
 
-  /** Send a message to an agent or broadcast */
-  send(to: string, type: string, content: string): Promise<{ ok: boolean; messageId: string; deliveredTo: number }>;
+  /** Send a message to agents (names or globs), a #channel or broadcast; reports the outcome per recipient */
+  send(to: string | string[], type: string, content: string, opts?: SendOptions): Promise<SendResult>;
+
+  /** Store a file for the team so messages can attach it; identical content is stored once */
+  uploadArtifact(data: Buffer, filename: string): Promise<Attachment>;
+
+  /** Fetch an attachment's bytes */
+  downloadArtifact(sha256: string): Promise<{ attachment: Attachment; data: Buffer }>;
+
+  /** Write a key on the team blackboard; with expectedVersion only if it is still at that version */
+  contextSet(key: string, value: string, expectedVersion?: number): Promise<ContextSetResult>;
+
+  /** Read a blackboard key, or null if it does not exist */
+  contextGet(key: string): Promise<ContextEntry | null>;
+
+  /** Every blackboard entry, sorted by key */
+  contextList(): Promise<ContextEntry[]>;
+
+  /** Claim a task on the team board; fails if another agent got there first */
+  claimTask(id: string): Promise<TaskUpdateResult>;
+
+  /** Mark a task done — one this agent claimed, or an open one */
+  completeTask(id: string, note?: string): Promise<TaskUpdateResult>;
+
+  /** The team board, oldest first. Tasks are opened by sending `todo` messages */
+  listTasks(status?: TaskStatus): Promise<TaskRecord[]>;
+
+  /** The team's decision log, oldest first; superseded decisions only when asked */
+  listDecisions(query?: DecisionQuery): Promise<Decision[]>;
+
+  /** The whole decision log rendered as numbered ADR Markdown files */
+  exportDecisions(): Promise<AdrFile[]>;
+
+  /** Every service in the team's API spec registry with its latest revision */
+  listSpecServices(): Promise<ServiceSummary[]>;
+
+  /** A service's live endpoints at a revision, or one endpoint with the revisions that published it */
+  getSpec(service: string, query?: SpecQuery): Promise<SpecView>;
+
+  /** Structural changes between two revisions of a service or one of its endpoints */
+  diffSpec(service: string, query?: SpecDiffQuery): Promise<SpecDiff>;
+
+  /** Start receiving messages sent to a #channel */
+  subscribe(channel: string): Promise<ChannelResult>;
+
+  /** Stop receiving messages sent to a #channel */
+  unsubscribe(channel: string): Promise<ChannelResult>;
+
+  /** Message types the team accepts: the built-in ones plus any the team registered */
+  messageTypes(): Promise<MessageTypeInfo[]>;
 
   /** List agents in the team */
   listAgents(): Promise<AgentInfo[]>;
@@ -30,6 +84,9 @@ export interface ITransport {
   /** Return and clear buffered messages */
   flushMessages(): AgentMessage[];
 
+  /** Query the team's persistent message log, newest first */
+  history(query: HistoryQuery): Promise<HistoryPage>;
+
   /** Disconnect and clean up */
   close(): void;
 
@@ -1,16 +1,69 @@
-export type MessageType = 'api_spec' | 'file_change' | 'decision' | 'todo' | 'question';
+import type { AgentMessage, MessageType } from '@agent-share/shared';
 
-export interface AgentMessage {
-  id: string;
-  from: string;
-  to: string;
-  type: MessageType;
-  content: string;
-  timestamp: number;
-}
+// Message, task, decision and spec shapes are shared with the hub
+export type {
+  AdrFile, AgentMessage, ApiSpecVersion, Attachment, BuiltinMessageType, Decision, DecisionQuery, EndpointDiff, EndpointRef,
+  MessageType, MessageTypeInfo, SchemaChange, ServiceSummary, SpecDiff, SpecDiffQuery, SpecQuery, SpecView,
+  TaskEvent, TaskRecord, TaskStatus, TaskUpdateResult,
+} from '@agent-share/shared';
 
 export interface AgentInfo {
   name: string;
   connectedAt: number;
+  online?: boolean; // hub only: false for offline members whose messages are queued
   pendingMessages: number;
 }
+
+export interface RecipientResult {
+  agent: string;
+  // hub:   delivered (live or buffered), queued (offline mailbox), unknown (not a member)
+  // nostr: sent (published; agent is in the presence roster), unknown (not in the roster)
+  status: 'delivered' | 'queued' | 'sent' | 'unknown';
+}
+
+export interface SendOptions {
+  payload?: Record<string, unknown>;
+  attachments?: string[]; // SHA-256s returned by uploadArtifact
+  expiresAt?: number;     // ms epoch
+}
+
+export interface SendResult {
+  ok: boolean;
+  messageId: string;
+  recipients: RecipientResult[];
+}
+
+// One key on the team blackboard (hub only)
+export interface ContextEntry {
+  key: string;
+  value: string;
+  version: number;
+  updatedBy: string;
+  updatedAt: number;
+}
+
+// On a version conflict nothing is written and `current` is the entry to reconcile with
+export type ContextSetResult =
+  | { ok: true; entry: ContextEntry }
+  | { ok: false; current: ContextEntry | null };
+
+export interface ChannelResult {
+  ok: boolean;
+  channel: string;
+  subscribers?: string[]; // hub only: current subscribers of the channel
+}
+
+export interface HistoryQuery {
+  from?: string;
+  to?: string;
+  type?: MessageType;
+  since?: number;
+  until?: number;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface HistoryPage {
+  messages: AgentMessage[]; // newest first
+  nextCursor: string | null;
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'path';
+import { attachmentPath, resolveWorkspacePath } from './workspace.js';
+
+const root = '/work/project';
+
+describe('resolveWorkspacePath', () => {
+  it('resolves relative and absolute paths inside the workspace', () => {
+    expect(resolveWorkspacePath('src/api.ts', root)).toBe('/work/project/src/api.ts');
+    expect(resolveWorkspacePath('/work/project/docs/spec.md', root)).toBe('/work/project/docs/spec.md');
+  });
+
+  it('rejects paths that escape the workspace', () => {
+    expect(() => resolveWorkspacePath('../secrets.env', root)).toThrow(/inside the workspace/);
+    expect(() => resolveWorkspacePath('/etc/passwd', root)).toThrow(/inside the workspace/);
+    expect(() => resolveWorkspacePath('.', root)).toThrow(/inside the workspace/);
+  });
+});
+
+describe('attachmentPath', () => {
+  it('uses the filename when present, the sha256 otherwise', () => {
+    expect(attachmentPath('ab12', 'spec.json')).toBe(join('.agent-hub', 'attachments', 'spec.json'));
+    expect(attachmentPath('ab12')).toBe(join('.agent-hub', 'attachments', 'ab12'));
+  });
+
+  it('drops directory components from uploader-supplied names', () => {
+    expect(attachmentPath('ab12', '../../etc/passwd')).toBe(join('.agent-hub', 'attachments', 'passwd'));
+  });
+});
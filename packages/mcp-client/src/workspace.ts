@@ -0,0 +1,21 @@
+import { basename, isAbsolute, join, relative, resolve } from 'path';
+
+// Attachment tools read and write files on the agent's behalf, so they are
+// confined to the workspace the MCP client was started in.
+
+/** Resolve `p` against the workspace root, rejecting anything that escapes it. */
+export function resolveWorkspacePath(p: string, root: string = process.cwd()): string {
+  const full = resolve(root, p);
+  const rel = relative(root, full);
+  if (rel === '' || rel.startsWith('..') || isAbsolute(rel)) {
+    throw new Error(`Path must be a file inside the workspace: ${p}`);
+  }
+  return full;
+}
+
+/** Default location for a fetched attachment: .agent-hub/attachments/<filename or sha256> */
+export function attachmentPath(sha256: string, filename?: string): string {
+  // Only the final segment of an uploader-supplied name is trusted
+  const name = filename ? basename(filename) : '';
+  return join('.agent-hub', 'attachments', name && name !== '..' ? name : sha256);
+}
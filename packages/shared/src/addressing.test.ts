@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { addressList, isChannel, isPattern, matchesPattern } from './addressing.js';
+
+describe('matchesPattern', () => {
+  it('matches "*" against any run of characters', () => {
+    expect(matchesPattern('frontend-*', 'frontend-1')).toBe(true);
+    expect(matchesPattern('frontend-*', 'frontend-')).toBe(true);
+    expect(matchesPattern('frontend-*', 'backend-1')).toBe(false);
+  });
+
+  it('matches "?" against exactly one character', () => {
+    expect(matchesPattern('agent-?', 'agent-a')).toBe(true);
+    expect(matchesPattern('agent-?', 'agent-ab')).toBe(false);
+  });
+
+  it('treats "." literally', () => {
+    expect(matchesPattern('a.b*', 'a.bc')).toBe(true);
+    expect(matchesPattern('a.b*', 'axbc')).toBe(false);
+  });
+
+  it('matches stars anywhere in the pattern', () => {
+    expect(matchesPattern('*-api-*', 'team-api-2')).toBe(true);
+    expect(matchesPattern('**', '')).toBe(true);
+    expect(matchesPattern('a*b*c', 'aXbYbZc')).toBe(true);
+    expect(matchesPattern('a*b*c', 'aXbYbZ')).toBe(false);
+  });
+
+  it('rejects a pathological pattern without backtracking', () => {
+    const started = Date.now();
+    expect(matchesPattern('*a'.repeat(20) + 'b', 'a'.repeat(64))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+});
+
+describe('address kinds', () => {
+  it('recognises channels and patterns', () => {
+    expect(isChannel('#api')).toBe(true);
+    expect(isChannel('api')).toBe(false);
+    expect(isPattern('frontend-*')).toBe(true);
+    expect(isPattern('frontend-1')).toBe(false);
+  });
+
+  it('normalises a single address to a list', () => {
+    expect(addressList('bob')).toEqual(['bob']);
+    expect(addressList(['bob', 'carol'])).toEqual(['bob', 'carol']);
+  });
+});
@@ -0,0 +1,43 @@
+// A message's `to` is one address or a list of them. Each address is an agent
+// name, 'broadcast', a '#channel', or a glob over agent names ('*' and '?').
+
+export function isChannel(address: string): boolean {
+  return address.startsWith('#');
+}
+
+export function isPattern(address: string): boolean {
+  return /[*?]/.test(address);
+}
+
+/**
+ * Glob match in linear time: on a mismatch, the last '*' seen absorbs one more
+ * character of the name and matching resumes after it, so no pattern makes the
+ * match backtrack.
+ */
+export function matchesPattern(pattern: string, name: string): boolean {
+  let p = 0;
+  let n = 0;
+  let star = -1;  // index of the last '*' in the pattern
+  let resume = 0; // where in the name that '*' stops matching
+  while (n < name.length) {
+    if (p < pattern.length && (pattern[p] === '?' || pattern[p] === name[n])) {
+      p++;
+      n++;
+    } else if (p < pattern.length && pattern[p] === '*') {
+      star = p++;
+      resume = n;
+    } else if (star !== -1) {
+      p = star + 1;
+      n = ++resume;
+    } else {
+      return false;
+    }
+  }
+  while (pattern[p] === '*') p++;
+  return p === pattern.length;
+}
+
+export function addressList(to: string | string[]): string[] {
+  return Array.isArray(to) ? to : [to];
+}
+
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { adrFilename, decisionFromMessage, decisionLog, exportAdrs, nextDecisionNumber, numberDecisions, searchDecisions } from './decisions.js';
+import type { AgentMessage, DecisionRecord } from './types.js';
+
+function decision(id: string, payload: Record<string, unknown>, content = 'Context', timestamp = Date.UTC(2026, 9, 19)): AgentMessage {
+  return { id, from: 'alice', to: 'broadcast', type: 'decision', content, payload, timestamp };
+}
+
+function logOf(...messages: AgentMessage[]): DecisionRecord[] {
+  const log: DecisionRecord[] = [];
+  for (const m of messages) log.push(decisionFromMessage(m, log));
+  return log;
+}
+
+describe('decisionFromMessage', () => {
+  it('takes title, rationale and alternatives from the payload', () => {
+    const [d] = logOf(decision('d1', { title: 'Use REST', rationale: 'Simple', alternatives: ['gRPC'] }, 'Public API style'));
+    expect(d).toEqual({
+      id: 'd1', title: 'Use REST', rationale: 'Simple', alternatives: ['gRPC'],
+      context: 'Public API style', decidedBy: 'alice', decidedAt: Date.UTC(2026, 9, 19),
+    });
+  });
+
+  it('falls back to the first line of the content for the title', () => {
+    const [d] = logOf({ ...decision('d1', {}, 'Use REST\nbecause it is simple'), payload: undefined });
+    expect(d.title).toBe('Use REST');
+  });
+
+  it('resolves supersedes by id or ADR number and drops unknown references', () => {
+    const log = logOf(
+      decision('d1', { title: 'Use REST' }),
+      decision('d2', { title: 'Use gRPC', supersedes: '1' }),
+      decision('d3', { title: 'Use GraphQL', supersedes: 'd2' }),
+      decision('d4', { title: 'Cache', supersedes: 'nope' }),
+    );
+    expect(log.map((d) => d.supersedes)).toEqual([undefined, 'd1', 'd2', undefined]);
+  });
+});
+
+describe('nextDecisionNumber', () => {
+  it('numbers past the highest decision, counting unnumbered records by position', () => {
+    const positional = logOf(decision('d1', { title: 'Use REST' }), decision('d2', { title: 'Use gRPC' }));
+    expect(nextDecisionNumber([])).toBe(1);
+    expect(nextDecisionNumber(positional)).toBe(3);
+    expect(nextDecisionNumber([...positional, { ...positional[0], id: 'd9', number: 9 }])).toBe(10);
+  });
+});
+
+describe('numberDecisions and searchDecisions', () => {
+  const decisions = numberDecisions(logOf(
+    decision('d1', { title: 'Use REST' }),
+    decision('d2', { title: 'Use gRPC internally', rationale: 'Latency', supersedes: 'd1' }),
+    decision('d3', { title: 'Postgres for storage' }),
+  ));
+
+  it('numbers the log and links superseded decisions', () => {
+    expect(decisions.map((d) => [d.number, d.supersededBy])).toEqual([[1, 'd2'], [2, undefined], [3, undefined]]);
+  });
+
+  it('hides superseded decisions unless asked', () => {
+    expect(searchDecisions(decisions, {}).map((d) => d.id)).toEqual(['d2', 'd3']);
+    expect(searchDecisions(decisions, { includeSuperseded: true })).toHaveLength(3);
+  });
+
+  it('matches text case-insensitively across fields', () => {
+    expect(searchDecisions(decisions, { query: 'latency' }).map((d) => d.id)).toEqual(['d2']);
+    expect(searchDecisions(decisions, { query: 'POSTGRES' }).map((d) => d.id)).toEqual(['d3']);
+  });
+});
+
+describe('exportAdrs', () => {
+  const decisions = numberDecisions(logOf(
+    decision('d1', { title: 'Use REST for the public API!', alternatives: ['gRPC', 'GraphQL'] }, 'We need a public API'),
+    decision('d2', { title: 'Adopt gRPC', rationale: 'Streaming', supersedes: 'd1' }, 'Clients need streaming'),
+  ));
+
+  it('names files by zero-padded number and title slug', () => {
+    expect(adrFilename(decisions[0])).toBe('0001-use-rest-for-the-public-api.md');
+  });
+
+  it('renders status, links and sections', () => {
+    const [first, second] = exportAdrs(decisions);
+    expect(first.content).toContain('# 1. Use REST for the public API!');
+    expect(first.content).toContain('Date: 2026-10-19');
+    expect(first.content).toContain('Status: Superseded by [2. Adopt gRPC](0002-adopt-grpc.md)');
+    expect(first.content).toContain('## Alternatives considered\n\n- gRPC\n- GraphQL');
+    expect(second.content).toContain('Status: Accepted');
+    expect(second.content).toContain('Supersedes: [1. Use REST for the public API!](0001-use-rest-for-the-public-api.md)');
+    expect(second.content).toContain('## Context\n\nClients need streaming');
+    expect(second.content).toContain('## Rationale\n\nStreaming');
+  });
+});
+
+describe('decisionLog', () => {
+  it('numbers decisions by time and links superseded ones both ways', () => {
+    const log = decisionLog([
+      decision('d2', { title: 'Use Redis', supersedes: '1' }, 'Use Redis', 2000),
+      decision('d1', { title: 'Use Postgres' }, 'Use Postgres', 1000),
+      { id: 'm1', from: 'bob', to: 'broadcast', type: 'chat', content: 'hi', timestamp: 1500 },
+    ]);
+    expect(log.map((d) => [d.number, d.id, d.supersedes, d.supersededBy])).toEqual([
+      [1, 'd1', undefined, 'd2'],
+      [2, 'd2', 'd1', undefined],
+    ]);
+  });
+
+  it('keeps claimed numbers when earlier decisions are missing from the history', () => {
+    const claimed = new Map([['d7', 7], ['d8', 8]]);
+    const log = decisionLog([
+      decision('d7', { title: 'Use Redis' }, 'Use Redis', 7000),
+      decision('d8', { title: 'Use Kafka' }, 'Use Kafka', 8000),
+    ], claimed);
+    expect(log.map((d) => [d.number, d.id])).toEqual([[7, 'd7'], [8, 'd8']]);
+  });
+
+  it('keeps a claimed number unless an earlier decision holds it', () => {
+    const log = decisionLog([
+      decision('d1', { title: 'Use REST' }, 'Use REST', 1000),
+      decision('d2', { title: 'Use gRPC' }, 'Use gRPC', 2000),
+      decision('d3', { title: 'Use GraphQL', supersedes: '5' }, 'Use GraphQL', 3000),
+    ], new Map([['d2', 5], ['d3', 5]]));
+    expect(log.map((d) => [d.number, d.supersedes])).toEqual([[1, undefined], [5, undefined], [6, 'd2']]);
+  });
+});
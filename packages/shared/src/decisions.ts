@@ -0,0 +1,115 @@
+import type { z } from 'zod';
+import type { decisionPayload } from './payloads.js';
+import type { AdrFile, AgentMessage, Decision, DecisionQuery, DecisionRecord } from './types.js';
+
+// Every `decision` message is appended to the team's decision log, which is
+// never rewritten, and a decision's superseded-by link is read off the later
+// decision that names it. The hub keeps the log, and its ADR numbers are
+// positions in it, fixed by the order the store appended them. Over Nostr the
+// log is rebuilt from the relay's decision messages, which may no longer reach
+// back to the first one, so each carries the number its sender claimed.
+
+// Hub records carry no number and are numbered by their position in the log
+const numberAt = (d: DecisionRecord, i: number): number => d.number ?? i + 1;
+
+/** Finds a decision by id or by ADR number ("3"). */
+function resolveDecision(log: DecisionRecord[], ref: string): DecisionRecord | undefined {
+  return /^\d+$/.test(ref) ? log.find((d, i) => numberAt(d, i) === Number(ref)) : log.find((d) => d.id === ref);
+}
+
+/** The ADR number the next decision gets: one past the highest in the log. */
+export function nextDecisionNumber(log: DecisionRecord[]): number {
+  return log.reduce((highest, d, i) => Math.max(highest, numberAt(d, i)), 0) + 1;
+}
+
+/** The log entry for a `decision` message; `supersedes` is dropped if it names no earlier decision. */
+export function decisionFromMessage(message: AgentMessage, log: DecisionRecord[]): DecisionRecord {
+  const p = (message.payload ?? {}) as Partial<z.infer<typeof decisionPayload>>;
+  const supersedes = p.supersedes ? resolveDecision(log, p.supersedes)?.id : undefined;
+  return {
+    id: message.id,
+    title: p.title ?? message.content.split('\n')[0],
+    ...(p.rationale ? { rationale: p.rationale } : {}),
+    ...(p.alternatives?.length ? { alternatives: p.alternatives } : {}),
+    context: message.content,
+    decidedBy: message.from,
+    decidedAt: message.timestamp,
+    ...(supersedes ? { supersedes } : {}),
+  };
+}
+
+/** Numbers the log and fills in superseded-by links (the first later decision to name one wins). */
+export function numberDecisions(log: DecisionRecord[]): Decision[] {
+  const supersededBy = new Map<string, string>();
+  for (const d of log) {
+    if (d.supersedes && !supersededBy.has(d.supersedes)) supersededBy.set(d.supersedes, d.id);
+  }
+  return log.map((d, i) => {
+    const by = supersededBy.get(d.id);
+    return { ...d, number: numberAt(d, i), ...(by ? { supersededBy: by } : {}) };
+  });
+}
+
+export function searchDecisions(decisions: Decision[], { query, includeSuperseded }: DecisionQuery): Decision[] {
+  const needle = query?.toLowerCase();
+  return decisions.filter((d) =>
+    (includeSuperseded || !d.supersededBy) &&
+    (!needle || [d.title, d.rationale ?? '', d.context, ...(d.alternatives ?? [])].some((s) => s.toLowerCase().includes(needle)))
+  );
+}
+
+export function adrFilename(d: Decision): string {
+  const slug = d.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 60).replace(/^-+|-+$/g, '');
+  return `${String(d.number).padStart(4, '0')}-${slug || 'decision'}.md`;
+}
+
+/** Renders the whole log as numbered Architecture Decision Records, cross-linked by filename. */
+export function exportAdrs(decisions: Decision[]): AdrFile[] {
+  const byId = new Map(decisions.map((d) => [d.id, d]));
+  const link = (id: string) => {
+    const d = byId.get(id)!;
+    return `[${d.number}. ${d.title}](${adrFilename(d)})`;
+  };
+
+  return decisions.map((d) => {
+    const lines = [
+      `# ${d.number}. ${d.title}`,
+      '',
+      `Date: ${new Date(d.decidedAt).toISOString().slice(0, 10)}`,
+      `Status: ${d.supersededBy ? `Superseded by ${link(d.supersededBy)}` : 'Accepted'}`,
+      `Deciders: ${d.decidedBy}`,
+      ...(d.supersedes ? [`Supersedes: ${link(d.supersedes)}`] : []),
+      '',
+      '## Context',
+      '',
+      d.context,
+      '',
+      '## Decision',
+      '',
+      d.title,
+    ];
+    if (d.rationale) lines.push('', '## Rationale', '', d.rationale);
+    if (d.alternatives?.length) lines.push('', '## Alternatives considered', '', ...d.alternatives.map((a) => `- ${a}`));
+    lines.push('', `<!-- agent-hub decision ${d.id} -->`, '');
+    return { filename: adrFilename(d), content: lines.join('\n') };
+  });
+}
+
+/**
+ * Rebuilds the numbered log from decision messages, ordered by time then id so
+ * every client agrees. `claimed` maps message ids to the numbers their senders
+ * claimed; a decision keeps its claim unless an earlier one holds that number,
+ * and otherwise gets the next one.
+ */
+export function decisionLog(messages: AgentMessage[], claimed: ReadonlyMap<string, number> = new Map()): Decision[] {
+  const ordered = messages
+    .filter((m) => m.type === 'decision')
+    .sort((a, b) => a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const log: DecisionRecord[] = [];
+  for (const m of ordered) {
+    const claim = claimed.get(m.id);
+    const taken = claim === undefined || log.some((d, i) => numberAt(d, i) === claim);
+    log.push({ ...decisionFromMessage(m, log), number: taken ? nextDecisionNumber(log) : claim });
+  }
+  return numberDecisions(log);
+}
@@ -0,0 +1,6 @@
+export type * from './types.js';
+export * from './addressing.js';
+export * from './payloads.js';
+export * from './specs.js';
+export * from './tasks.js';
+export * from './decisions.js';
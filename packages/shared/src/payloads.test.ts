@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { renderMessage, renderMessages } from './payloads.js';
+import type { AgentMessage } from './types.js';
+
+describe('renderMessage', () => {
+  const base: AgentMessage = {
+    id: 'm1', from: 'alice', to: ['bob', 'carol'], type: 'api_spec',
+    content: 'New endpoint', timestamp: Date.UTC(2026, 0, 1),
+  };
+
+  it('renders a header and the content when there is no payload', () => {
+    expect(renderMessage(base)).toBe('[api_spec] alice → bob, carol · 2026-01-01T00:00:00.000Z · m1\nNew endpoint');
+  });
+
+  it('renders the payload between the header and the content', () => {
+    const text = renderMessage({ ...base, type: 'todo', payload: { title: 'Add tests', assignee: 'bob' } });
+    expect(text.split('\n')).toEqual([
+      '[todo] alice → bob, carol · 2026-01-01T00:00:00.000Z · m1',
+      'TODO: Add tests (assignee: bob)',
+      'New endpoint',
+    ]);
+  });
+
+  it('renders custom type payloads as key/value lines', () => {
+    const text = renderMessage({ ...base, type: 'bug_report', payload: { severity: 'high', steps: ['open', 'crash'] } });
+    expect(text).toContain('\nseverity: high\nsteps: [\n  "open",\n  "crash"\n]\n');
+  });
+
+  it('lists attachments after the content', () => {
+    const text = renderMessage({ ...base, attachments: [{ sha256: 'ab'.repeat(32), size: 12, contentType: 'text/yaml', filename: 'api.yaml' }] });
+    expect(text.split('\n').at(-1)).toBe(`Attachment: api.yaml · 12 bytes · text/yaml · sha256 ${'ab'.repeat(32)}`);
+  });
+
+  it('says so when there are no messages', () => {
+    expect(renderMessages([])).toBe('No new messages.');
+  });
+});
@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import type { AgentMessage, BuiltinMessageType, MessageType, MessageTypeInfo } from './types.js';
+
+// Optional structured payloads, one schema per built-in message type. `content`
+// stays the human-readable summary; `payload` carries the machine-readable
+// detail. Custom types bring their own schema, which only the hub checks.
+
+const jsonSchema = z.record(z.unknown());
+
+export const apiSpecPayload = z.object({
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']),
+  path: z.string().min(1),
+  description: z.string().optional(),
+  request: jsonSchema.optional(),  // JSON Schema of the request body
+  response: jsonSchema.optional(), // JSON Schema of the response body
+  service: z.string().min(1).max(64).optional(),  // registry key; defaults to the sender's name
+  removed: z.boolean().optional(),  // withdraws the endpoint from the service
+}).strict();
+
+export const fileChangePayload = z.object({
+  path: z.string().min(1),
+  change: z.enum(['added', 'modified', 'deleted', 'renamed']).optional(),
+  diff: z.string().optional(),
+  commit: z.string().optional(),
+}).strict();
+
+export const decisionPayload = z.object({
+  title: z.string().min(1),
+  rationale: z.string().optional(),
+  alternatives: z.array(z.string()).optional(),
+  supersedes: z.string().optional(),  // id or ADR number of an earlier decision this replaces
+}).strict();
+
+export const todoPayload = z.object({
+  title: z.string().min(1),
+  assignee: z.string().optional(),
+  due: z.string().refine((s) => !Number.isNaN(Date.parse(s)), 'Expected an ISO 8601 date').optional(),
+}).strict();
+
+export const questionPayload = z.object({
+  question: z.string().min(1),
+  options: z.array(z.string()).optional(),
+  blocking: z.boolean().optional(),
+}).strict();
+
+export const payloadSchemas: Record<BuiltinMessageType, z.ZodTypeAny> = {
+  api_spec: apiSpecPayload,
+  file_change: fileChangePayload,
+  decision: decisionPayload,
+  todo: todoPayload,
+  question: questionPayload,
+};
+
+export const BUILTIN_MESSAGE_TYPES: readonly MessageTypeInfo[] = [
+  { name: 'api_spec', description: 'API contract: method, path and request/response schemas', builtin: true },
+  { name: 'file_change', description: 'A file was added, modified, deleted or renamed', builtin: true },
+  { name: 'decision', description: 'A design or implementation decision and its rationale', builtin: true },
+  { name: 'todo', description: 'A task for someone on the team', builtin: true },
+  { name: 'question', description: 'A question for a teammate', builtin: true },
+];
+
+export function isBuiltinType(name: string): name is BuiltinMessageType {
+  return BUILTIN_MESSAGE_TYPES.some((t) => t.name === name);
+}
+
+/** Returns a list of problems with `payload`, or null if `schema` accepts it. */
+export function payloadErrors(schema: z.ZodTypeAny, payload: unknown): string[] | null {
+  const result = schema.safeParse(payload);
+  if (result.success) return null;
+  return result.error.issues.map((i) => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message));
+}
+
+function renderPayload(type: MessageType, payload: Record<string, unknown>): string[] {
+  const json = (v: unknown) => JSON.stringify(v, null, 2);
+  const lines: string[] = [];
+  switch (type) {
+    case 'api_spec': {
+      const p = payload as z.infer<typeof apiSpecPayload>;
+      lines.push(`${p.removed ? 'Removed: ' : ''}${p.method} ${p.path}${p.service ? ` (${p.service})` : ''}`);
+      if (p.description) lines.push(p.description);
+      if (p.request) lines.push(`Request: ${json(p.request)}`);
+      if (p.response) lines.push(`Response: ${json(p.response)}`);
+      break;
+    }
+    case 'file_change': {
+      const p = payload as z.infer<typeof fileChangePayload>;
+      lines.push(`${p.change ?? 'changed'} ${p.path}${p.commit ? ` @ ${p.commit}` : ''}`);
+      if (p.diff) lines.push(p.diff);
+      break;
+    }
+    case 'decision': {
+      const p = payload as z.infer<typeof decisionPayload>;
+      lines.push(`Decision: ${p.title}`);
+      if (p.rationale) lines.push(`Rationale: ${p.rationale}`);
+      if (p.alternatives?.length) lines.push(`Alternatives: ${p.alternatives.join(', ')}`);
+      if (p.supersedes) lines.push(`Supersedes: ${p.supersedes}`);
+      break;
+    }
+    case 'todo': {
+      const p = payload as z.infer<typeof todoPayload>;
+      const meta = [p.assignee && `assignee: ${p.assignee}`, p.due && `due: ${p.due}`].filter(Boolean);
+      lines.push(`TODO: ${p.title}${meta.length ? ` (${meta.join(', ')})` : ''}`);
+      break;
+    }
+    case 'question': {
+      const p = payload as z.infer<typeof questionPayload>;
+      lines.push(`${p.blocking ? 'Blocking question' : 'Question'}: ${p.question}`);
+      for (const option of p.options ?? []) lines.push(`  - ${option}`);
+      break;
+    }
+    default:
+      for (const [key, value] of Object.entries(payload)) {
+        lines.push(`${key}: ${typeof value === 'string' ? value : json(value)}`);
+      }
+  }
+  return lines;
+}
+
+/** Plain-text rendering of a message, shared by every tool that shows messages to an agent. */
+export function renderMessage(msg: AgentMessage): string {
+  const to = Array.isArray(msg.to) ? msg.to.join(', ') : msg.to;
+  const lines = [`[${msg.type}] ${msg.from} → ${to} · ${new Date(msg.timestamp).toISOString()} · ${msg.id}`];
+  if (msg.payload) lines.push(...renderPayload(msg.type, msg.payload));
+  lines.push(msg.content);
+  for (const a of msg.attachments ?? []) {
+    lines.push(`Attachment: ${a.filename ?? '(unnamed)'} · ${a.size} bytes · ${a.contentType} · sha256 ${a.sha256}`);
+  }
+  return lines.join('\n');
+}
+
+export function renderMessages(messages: AgentMessage[]): string {
+  return messages.length === 0 ? 'No new messages.' : messages.map(renderMessage).join('\n\n');
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { diffSchemas, diffSpecs, listServices, renderSpecDiff, serviceSnapshot, serviceVersions, specFromMessage, specRegistry, viewSpec } from './specs.js';
+import type { AgentMessage, ApiSpecRecord } from './types.js';
+
+function apiSpec(id: string, payload: Record<string, unknown>, timestamp = 1000): AgentMessage {
+  return { id, from: 'backend', to: 'frontend', type: 'api_spec', content: 'spec', payload, timestamp };
+}
+
+function registry(...messages: AgentMessage[]): ApiSpecRecord[] {
+  return messages.map((m) => specFromMessage(m)!);
+}
+
+const user = (props: Record<string, unknown>, required: string[] = []) => ({ type: 'object', properties: props, required });
+
+describe('specFromMessage', () => {
+  it('keys the spec by the payload service, or the sender', () => {
+    expect(specFromMessage(apiSpec('s1', { method: 'GET', path: '/users', service: 'users' }))?.service).toBe('users');
+    expect(specFromMessage(apiSpec('s1', { method: 'GET', path: '/users' }))).toEqual({
+      id: 's1', service: 'backend', method: 'GET', path: '/users', publishedBy: 'backend', publishedAt: 1000,
+    });
+  });
+
+  it('skips messages without a payload', () => {
+    expect(specFromMessage({ ...apiSpec('s1', {}), payload: undefined })).toBeNull();
+  });
+});
+
+describe('serviceSnapshot', () => {
+  const specs = registry(
+    apiSpec('s1', { method: 'GET', path: '/users' }),
+    apiSpec('s2', { method: 'POST', path: '/users' }),
+    apiSpec('s3', { method: 'GET', path: '/users', description: 'v2' }),
+    apiSpec('s4', { method: 'POST', path: '/users', removed: true }),
+    apiSpec('s5', { method: 'GET', path: '/orders', service: 'orders' }),
+  );
+  const versions = serviceVersions(specs, 'backend');
+
+  it('numbers revisions per service', () => {
+    expect(versions.map((v) => [v.id, v.revision])).toEqual([['s1', 1], ['s2', 2], ['s3', 3], ['s4', 4]]);
+  });
+
+  it('holds each endpoint\'s latest version and drops removed ones', () => {
+    expect(serviceSnapshot(versions, 3).map((v) => v.id)).toEqual(['s3', 's2']);
+    expect(serviceSnapshot(versions).map((v) => v.id)).toEqual(['s3']);
+    expect(serviceSnapshot(versions, 0)).toEqual([]);
+  });
+
+  it('summarises services by name', () => {
+    expect(listServices(specs).map((s) => [s.service, s.revision, s.endpoints])).toEqual([['backend', 4, 1], ['orders', 1, 1]]);
+  });
+
+  it('views one endpoint with the revisions that published it', () => {
+    expect(viewSpec('backend', versions, { method: 'POST', path: '/users' })).toEqual({
+      view: { service: 'backend', revision: 4, endpoint: null, versions: [2, 4] },
+    });
+    expect(viewSpec('backend', versions, { revision: 9 })).toEqual({ error: 'backend has revisions 0 to 4' });
+  });
+});
+
+describe('diffSchemas', () => {
+  it('breaks requests that demand more', () => {
+    const changes = diffSchemas('request', user({ name: { type: 'string' } }), user({ name: { type: 'string' }, email: { type: 'string' } }, ['email', 'name']));
+    expect(changes).toEqual([
+      { location: 'request', field: 'email', change: 'added', breaking: true },
+      { location: 'request', field: 'name', change: 'now_required', breaking: true },
+    ]);
+  });
+
+  it('breaks responses that drop or loosen fields, not ones that add them', () => {
+    const changes = diffSchemas('response',
+      user({ id: { type: 'string' }, email: { type: 'string' } }, ['id']),
+      user({ id: { type: 'string' }, avatar: { type: 'string' } }));
+    expect(changes.map((c) => [c.field, c.change, c.breaking])).toEqual([
+      ['avatar', 'added', false],
+      ['email', 'removed', true],
+      ['id', 'now_optional', true],
+    ]);
+  });
+
+  it('follows nested objects and array items, and flags type changes', () => {
+    const before = user({ tags: { type: 'array', items: user({ id: { type: 'integer' } }) } });
+    const after = user({ tags: { type: 'array', items: user({ id: { type: 'string' } }) } });
+    expect(diffSchemas('response', before, after)).toEqual([
+      { location: 'response', field: 'tags[].id', change: 'type_changed', before: 'integer', after: 'string', breaking: true },
+    ]);
+  });
+
+  it('breaks requests on narrowed enums and responses on widened ones', () => {
+    const narrow = { type: 'string', enum: ['a'] };
+    const wide = { type: 'string', enum: ['a', 'b'] };
+    expect(diffSchemas('request', wide, narrow)[0].breaking).toBe(true);
+    expect(diffSchemas('request', narrow, wide)[0].breaking).toBe(false);
+    expect(diffSchemas('response', narrow, wide)[0].breaking).toBe(true);
+    expect(diffSchemas('response', wide, narrow)[0].breaking).toBe(false);
+  });
+});
+
+describe('diffSpecs', () => {
+  const versions = serviceVersions(registry(
+    apiSpec('s1', { method: 'GET', path: '/users/:id', response: user({ id: { type: 'string' }, email: { type: 'string' } }) }),
+    apiSpec('s2', { method: 'DELETE', path: '/users/:id' }),
+    apiSpec('s3', { method: 'POST', path: '/users' }),
+    apiSpec('s4', { method: 'GET', path: '/users/:id', response: user({ id: { type: 'string' } }) }),
+    apiSpec('s5', { method: 'DELETE', path: '/users/:id', removed: true }),
+  ), 'backend');
+
+  it('compares the latest revision with the one before by default', () => {
+    const result = diffSpecs('backend', versions, {});
+    expect(result).toEqual({
+      diff: { service: 'backend', from: 4, to: 5, added: [], removed: [{ method: 'DELETE', path: '/users/:id' }], changed: [], breaking: true },
+    });
+  });
+
+  it('compares any two revisions', () => {
+    const result = diffSpecs('backend', versions, { from: 1, to: 4 });
+    if (!('diff' in result)) throw new Error(result.error);
+    expect(result.diff.added).toEqual([{ method: 'POST', path: '/users' }, { method: 'DELETE', path: '/users/:id' }]);
+    expect(result.diff.changed).toEqual([{
+      method: 'GET', path: '/users/:id', breaking: true,
+      changes: [{ location: 'response', field: 'email', change: 'removed', breaking: true }],
+    }]);
+  });
+
+  it('compares one endpoint with its previous version', () => {
+    const result = diffSpecs('backend', versions, { method: 'GET', path: '/users/:id' });
+    if (!('diff' in result)) throw new Error(result.error);
+    expect([result.diff.from, result.diff.to, result.diff.changed.length, result.diff.removed]).toEqual([1, 5, 1, []]);
+    expect(renderSpecDiff(result.diff)).toBe([
+      'backend r1 → r5 · BREAKING',
+      '~ GET /users/:id (breaking)',
+      '    response.email: removed (breaking)',
+    ].join('\n'));
+  });
+
+  it('rejects revisions that do not exist', () => {
+    expect(diffSpecs('backend', versions, { to: 6 })).toEqual({ error: 'backend has revisions 0 to 5' });
+  });
+});
+
+describe('specRegistry', () => {
+  it('orders specs by time and skips ones without a payload', () => {
+    const specs = specRegistry([
+      apiSpec('s2', { method: 'POST', path: '/users' }, 2000),
+      { ...apiSpec('s3', {}, 1500), payload: undefined },
+      apiSpec('s1', { method: 'GET', path: '/users' }, 1000),
+      { id: 'm1', from: 'bob', to: 'broadcast', type: 'chat', content: 'hi', timestamp: 1200 },
+    ]);
+    expect(specs.map((s) => s.id)).toEqual(['s1', 's2']);
+  });
+});
@@ -0,0 +1,253 @@
+import type { z } from 'zod';
+import type { apiSpecPayload } from './payloads.js';
+import type {
+  AgentMessage, ApiSpecRecord, ApiSpecVersion, EndpointDiff, EndpointRef, SchemaChange, ServiceSummary,
+  SpecDiff, SpecDiffQuery, SpecQuery, SpecView,
+} from './types.js';
+
+// Every `api_spec` message with a payload publishes a version of one endpoint
+// of a service. A service's revisions are the positions of its specs in the
+// registry: revision n is every endpoint's latest version among the first n,
+// less the ones marked removed. Revision 0 is the empty service. The hub keeps
+// the registry; over Nostr it is rebuilt from the relay's api_spec messages.
+
+type JsonSchema = Record<string, unknown>;
+
+/** The registry entry for an `api_spec` message, or null if it carries no payload to register. */
+export function specFromMessage(message: AgentMessage): ApiSpecRecord | null {
+  if (!message.payload) return null;
+  const p = message.payload as z.infer<typeof apiSpecPayload>;
+  return {
+    id: message.id,
+    service: p.service ?? message.from,
+    method: p.method,
+    path: p.path,
+    ...(p.description ? { description: p.description } : {}),
+    ...(p.request ? { request: p.request } : {}),
+    ...(p.response ? { response: p.response } : {}),
+    ...(p.removed ? { removed: true } : {}),
+    publishedBy: message.from,
+    publishedAt: message.timestamp,
+  };
+}
+
+const endpointKey = (e: EndpointRef) => `${e.method} ${e.path}`;
+
+const byEndpoint = (a: EndpointRef, b: EndpointRef) =>
+  a.path < b.path ? -1 : a.path > b.path ? 1 : a.method < b.method ? -1 : a.method > b.method ? 1 : 0;
+
+/** One service's specs, numbered by revision. */
+export function serviceVersions(specs: ApiSpecRecord[], service: string): ApiSpecVersion[] {
+  return specs.filter((s) => s.service === service).map((s, i) => ({ ...s, revision: i + 1 }));
+}
+
+/** The endpoints live at `revision` (default latest), sorted by path then method. */
+export function serviceSnapshot(versions: ApiSpecVersion[], revision = versions.length): ApiSpecVersion[] {
+  const live = new Map<string, ApiSpecVersion>();
+  for (const v of versions.slice(0, revision)) {
+    if (v.removed) live.delete(endpointKey(v));
+    else live.set(endpointKey(v), v);
+  }
+  return [...live.values()].sort(byEndpoint);
+}
+
+/** Every version published for one endpoint, withdrawals included. */
+export function endpointVersions(versions: ApiSpecVersion[], endpoint: EndpointRef): ApiSpecVersion[] {
+  return versions.filter((v) => endpointKey(v) === endpointKey(endpoint));
+}
+
+export function listServices(specs: ApiSpecRecord[]): ServiceSummary[] {
+  const names = [...new Set(specs.map((s) => s.service))].sort();
+  return names.map((service) => {
+    const versions = serviceVersions(specs, service);
+    const latest = versions[versions.length - 1];
+    return {
+      service,
+      revision: versions.length,
+      endpoints: serviceSnapshot(versions).length,
+      updatedBy: latest.publishedBy,
+      updatedAt: latest.publishedAt,
+    };
+  });
+}
+
+export function viewSpec(service: string, versions: ApiSpecVersion[], query: SpecQuery): { view: SpecView } | { error: string } {
+  const revision = query.revision ?? versions.length;
+  if (revision > versions.length) return { error: `${service} has revisions 0 to ${versions.length}` };
+  const snapshot = serviceSnapshot(versions, revision);
+  if (!query.method || !query.path) return { view: { service, revision, endpoints: snapshot } };
+
+  const endpoint = { method: query.method, path: query.path };
+  return {
+    view: {
+      service,
+      revision,
+      endpoint: snapshot.find((v) => endpointKey(v) === endpointKey(endpoint)) ?? null,
+      versions: endpointVersions(versions, endpoint).map((v) => v.revision),
+    },
+  };
+}
+
+function schemaType(schema: JsonSchema): string | undefined {
+  const t = schema['type'];
+  return Array.isArray(t) ? [...t].sort().join('|') : typeof t === 'string' ? t : undefined;
+}
+
+function asSchema(v: unknown): JsonSchema | undefined {
+  return v && typeof v === 'object' && !Array.isArray(v) ? v as JsonSchema : undefined;
+}
+
+function required(schema: JsonSchema): Set<string> {
+  const r = schema['required'];
+  return new Set(Array.isArray(r) ? r.filter((k): k is string => typeof k === 'string') : []);
+}
+
+/** Whether enum `narrow` rejects a value enum `wide` allows; no enum allows anything. */
+function excludes(narrow: unknown[] | undefined, wide: unknown[] | undefined): boolean {
+  if (!narrow) return false;
+  if (!wide) return true;
+  const allowed = new Set(narrow.map((v) => JSON.stringify(v)));
+  return wide.some((v) => !allowed.has(JSON.stringify(v)));
+}
+
+/**
+ * Structural changes between two JSON Schemas of a request or response body.
+ * A change is breaking if a client written against `before` could now fail:
+ * a request that newly demands or narrows something, or a response that drops,
+ * loosens or widens something the client may rely on.
+ */
+export function diffSchemas(
+  location: SchemaChange['location'],
+  before: JsonSchema | undefined,
+  after: JsonSchema | undefined,
+  field = '',
+): SchemaChange[] {
+  const isRequest = location === 'request';
+  if (!before && !after) return [];
+  if (!before) return [{ location, field, change: 'added', breaking: isRequest && field === '' }];
+  if (!after) return [{ location, field, change: 'removed', breaking: !isRequest }];
+
+  const typeBefore = schemaType(before);
+  const typeAfter = schemaType(after);
+  if (typeBefore !== typeAfter) {
+    return [{ location, field, change: 'type_changed', before: typeBefore, after: typeAfter, breaking: true }];
+  }
+
+  const changes: SchemaChange[] = [];
+
+  const enumBefore = Array.isArray(before['enum']) ? before['enum'] as unknown[] : undefined;
+  const enumAfter = Array.isArray(after['enum']) ? after['enum'] as unknown[] : undefined;
+  if (JSON.stringify(enumBefore) !== JSON.stringify(enumAfter)) {
+    const breaking = isRequest ? excludes(enumAfter, enumBefore) : excludes(enumBefore, enumAfter);
+    changes.push({ location, field, change: 'enum_changed', before: enumBefore, after: enumAfter, breaking });
+  }
+
+  const propsBefore = asSchema(before['properties']) ?? {};
+  const propsAfter = asSchema(after['properties']) ?? {};
+  const reqBefore = required(before);
+  const reqAfter = required(after);
+  const keys = [...new Set([...Object.keys(propsBefore), ...Object.keys(propsAfter)])].sort();
+  for (const key of keys) {
+    const child = field ? `${field}.${key}` : key;
+    const b = asSchema(propsBefore[key]);
+    const a = asSchema(propsAfter[key]);
+    if (!b && a) {
+      changes.push({ location, field: child, change: 'added', breaking: isRequest && reqAfter.has(key) });
+      continue;
+    }
+    if (b && !a) {
+      changes.push({ location, field: child, change: 'removed', breaking: !isRequest });
+      continue;
+    }
+    if (!reqBefore.has(key) && reqAfter.has(key)) {
+      changes.push({ location, field: child, change: 'now_required', breaking: isRequest });
+    } else if (reqBefore.has(key) && !reqAfter.has(key)) {
+      changes.push({ location, field: child, change: 'now_optional', breaking: !isRequest });
+    }
+    changes.push(...diffSchemas(location, b, a, child));
+  }
+
+  const itemsBefore = asSchema(before['items']);
+  const itemsAfter = asSchema(after['items']);
+  if (itemsBefore || itemsAfter) changes.push(...diffSchemas(location, itemsBefore, itemsAfter, `${field}[]`));
+
+  return changes;
+}
+
+function diffEndpoint(before: ApiSpecVersion, after: ApiSpecVersion): EndpointDiff {
+  const changes = [
+    ...diffSchemas('request', before.request, after.request),
+    ...diffSchemas('response', before.response, after.response),
+  ];
+  return { method: after.method, path: after.path, changes, breaking: changes.some((c) => c.breaking) };
+}
+
+/** Compares two revisions of a service, or of one of its endpoints. */
+export function diffSpecs(
+  service: string,
+  versions: ApiSpecVersion[],
+  query: SpecDiffQuery,
+): { diff: SpecDiff } | { error: string } {
+  const latest = versions.length;
+  const to = query.to ?? latest;
+  if (to > latest) return { error: `${service} has revisions 0 to ${latest}` };
+
+  const endpoint = query.method && query.path ? { method: query.method, path: query.path } : undefined;
+  let from = query.from;
+  if (from === undefined) {
+    const history = endpoint ? endpointVersions(versions, endpoint).filter((v) => v.revision <= to) : undefined;
+    from = history ? (history.length > 1 ? history[history.length - 2].revision : 0) : Math.max(to - 1, 0);
+  }
+  if (from > latest) return { error: `${service} has revisions 0 to ${latest}` };
+
+  const only = (snapshot: ApiSpecVersion[]) =>
+    new Map(snapshot.filter((v) => !endpoint || endpointKey(v) === endpointKey(endpoint)).map((v) => [endpointKey(v), v]));
+  const before = only(serviceSnapshot(versions, from));
+  const after = only(serviceSnapshot(versions, to));
+
+  const ref = ({ method, path }: EndpointRef): EndpointRef => ({ method, path });
+  const added = [...after.values()].filter((v) => !before.has(endpointKey(v))).map(ref);
+  const removed = [...before.values()].filter((v) => !after.has(endpointKey(v))).map(ref);
+  const changed: EndpointDiff[] = [];
+  for (const [key, a] of after) {
+    const b = before.get(key);
+    if (!b || b.id === a.id) continue;
+    const diff = diffEndpoint(b, a);
+    if (diff.changes.length) changed.push(diff);
+  }
+
+  return {
+    diff: {
+      service, from, to, added, removed, changed,
+      breaking: removed.length > 0 || changed.some((d) => d.breaking),
+    },
+  };
+}
+
+/** Plain-text rendering of a diff for agents. */
+export function renderSpecDiff(diff: SpecDiff): string {
+  const lines = [`${diff.service} r${diff.from} → r${diff.to}${diff.breaking ? ' · BREAKING' : ''}`];
+  for (const e of diff.added) lines.push(`+ ${e.method} ${e.path}`);
+  for (const e of diff.removed) lines.push(`- ${e.method} ${e.path} (breaking)`);
+  for (const e of diff.changed) {
+    lines.push(`~ ${e.method} ${e.path}${e.breaking ? ' (breaking)' : ''}`);
+    for (const c of e.changes) {
+      const where = c.field ? `${c.location}.${c.field}` : `${c.location} body`;
+      const detail = c.change === 'type_changed' || c.change === 'enum_changed'
+        ? ` ${JSON.stringify(c.before ?? null)} → ${JSON.stringify(c.after ?? null)}`
+        : '';
+      lines.push(`    ${where}: ${c.change.replace('_', ' ')}${detail}${c.breaking ? ' (breaking)' : ''}`);
+    }
+  }
+  if (lines.length === 1) lines.push('No changes.');
+  return lines.join('\n');
+}
+
+/** Rebuilds the registry from api_spec messages, ordered by time then id so every client agrees. */
+export function specRegistry(messages: AgentMessage[]): ApiSpecRecord[] {
+  return messages
+    .filter((m) => m.type === 'api_spec')
+    .sort((a, b) => a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map(specFromMessage)
+    .filter((s): s is ApiSpecRecord => s !== null);
+}
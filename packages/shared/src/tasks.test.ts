@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { applyTaskAction, foldTasks, taskFromTodo } from './tasks.js';
+import type { TaskActionEvent } from './tasks.js';
+import type { AgentMessage } from './types.js';
+
+const todo: AgentMessage = {
+  id: 'msg-1',
+  from: 'alice',
+  to: 'broadcast',
+  type: 'todo',
+  content: 'Add rate limiting to /login',
+  payload: { title: 'Rate-limit login', assignee: 'bob', due: '2026-11-01' },
+  timestamp: 100,
+};
+
+describe('taskFromTodo', () => {
+  it('opens a task that shares the message id', () => {
+    expect(taskFromTodo(todo)).toEqual({
+      id: 'msg-1',
+      title: 'Rate-limit login',
+      status: 'open',
+      assignee: 'bob',
+      due: '2026-11-01',
+      createdBy: 'alice',
+      createdAt: 100,
+      updatedAt: 100,
+      version: 1,
+      history: [{ action: 'created', by: 'alice', at: 100 }],
+    });
+  });
+
+  it('falls back to the content when there is no payload', () => {
+    const { payload: _, ...plain } = todo;
+    expect(taskFromTodo(plain).title).toBe('Add rate limiting to /login');
+  });
+});
+
+describe('applyTaskAction', () => {
+  const open = taskFromTodo(todo);
+
+  it('lets anyone claim an open task, whoever was suggested', () => {
+    const result = applyTaskAction(open, 'claim', 'carol', 200);
+    expect(result).toMatchObject({ task: { status: 'claimed', assignee: 'carol', version: 2, updatedAt: 200 } });
+  });
+
+  it('refuses a claim on a task someone else holds', () => {
+    const { task } = applyTaskAction(open, 'claim', 'carol', 200) as { task: typeof open };
+    expect(applyTaskAction(task, 'claim', 'bob', 300)).toEqual({ error: 'Task is claimed by carol' });
+    expect(applyTaskAction(task, 'complete', 'bob', 300)).toEqual({ error: 'Task is claimed by carol' });
+  });
+
+  it('treats claiming your own task again as a no-op', () => {
+    const { task } = applyTaskAction(open, 'claim', 'carol', 200) as { task: typeof open };
+    expect(applyTaskAction(task, 'claim', 'carol', 300)).toEqual({ task });
+  });
+
+  it('completes a claimed or open task and records the note', () => {
+    const { task } = applyTaskAction(open, 'claim', 'carol', 200) as { task: typeof open };
+    const done = applyTaskAction(task, 'complete', 'carol', 300, 'Merged in #42') as { task: typeof open };
+    expect(done.task.status).toBe('done');
+    expect(done.task.history.map((e) => e.action)).toEqual(['created', 'claimed', 'completed']);
+    expect(done.task.history[2].note).toBe('Merged in #42');
+
+    expect(applyTaskAction(open, 'complete', 'dave', 300)).toMatchObject({ task: { status: 'done', assignee: 'dave' } });
+  });
+
+  it('refuses any change to a done task', () => {
+    const { task } = applyTaskAction(open, 'complete', 'dave', 300) as { task: typeof open };
+    expect(applyTaskAction(task, 'claim', 'dave', 400)).toEqual({ error: 'Task is already done' });
+  });
+});
+
+describe('foldTasks', () => {
+  const todoAt = (id: string, title: string, timestamp = 1000): AgentMessage =>
+    ({ id, from: 'alice', to: 'broadcast', type: 'todo', content: title, payload: { title }, timestamp });
+  const action = (id: string, taskId: string, act: TaskActionEvent['action'], by: string, at: number): TaskActionEvent =>
+    ({ id, taskId, action: act, by, at });
+
+  it('opens a task per todo, oldest first', () => {
+    const tasks = foldTasks([todoAt('t2', 'Second', 2000), todoAt('t1', 'First', 1000)], []);
+    expect(tasks.map((t) => [t.id, t.title, t.status])).toEqual([['t1', 'First', 'open'], ['t2', 'Second', 'open']]);
+  });
+
+  it('gives the task to the earliest claim', () => {
+    const tasks = foldTasks([todoAt('t1', 'Fix login')], [
+      action('e2', 't1', 'claim', 'carol', 3000),
+      action('e1', 't1', 'claim', 'bob', 2000),
+    ]);
+    expect(tasks[0]).toMatchObject({ status: 'claimed', assignee: 'bob' });
+    expect(tasks[0].history.map((e) => e.by)).toEqual(['alice', 'bob']);
+  });
+
+  it('breaks same-second ties by event id so every client agrees', () => {
+    const actions = [action('ff', 't1', 'claim', 'carol', 2000), action('0a', 't1', 'claim', 'bob', 2000)];
+    expect(foldTasks([todoAt('t1', 'Fix login')], actions)[0].assignee).toBe('bob');
+    expect(foldTasks([todoAt('t1', 'Fix login')], [...actions].reverse())[0].assignee).toBe('bob');
+  });
+
+  it('drops completions by anyone but the claimer', () => {
+    const tasks = foldTasks([todoAt('t1', 'Fix login')], [
+      action('e1', 't1', 'claim', 'bob', 2000),
+      action('e2', 't1', 'complete', 'carol', 3000),
+    ]);
+    expect(tasks[0].status).toBe('claimed');
+  });
+
+  it('ignores actions for unknown tasks', () => {
+    expect(foldTasks([], [action('e1', 'nope', 'claim', 'bob', 2000)])).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import type { z } from 'zod';
+import type { todoPayload } from './payloads.js';
+import type { AgentMessage, TaskEvent, TaskRecord } from './types.js';
+
+// Every `todo` message opens a task on the team board. Tasks move
+// open → claimed → done; only the claimer can complete a claimed task, and
+// an open task can be completed directly. The hub applies the rules as claims
+// arrive; over Nostr every client replays them over the relay's events.
+
+export type TaskAction = 'claim' | 'complete';
+
+// A claim or completion as published on Nostr
+export interface TaskActionEvent {
+  id: string;      // event id, breaks ties between actions in the same second
+  taskId: string;
+  action: TaskAction;
+  by: string;
+  at: number;
+  note?: string;
+}
+
+/** The task a `todo` message opens; it shares the message's id. */
+export function taskFromTodo(message: AgentMessage): TaskRecord {
+  const p = (message.payload ?? {}) as Partial<z.infer<typeof todoPayload>>;
+  return {
+    id: message.id,
+    title: p.title ?? message.content,
+    status: 'open',
+    ...(p.assignee ? { assignee: p.assignee } : {}),
+    ...(p.due ? { due: p.due } : {}),
+    createdBy: message.from,
+    createdAt: message.timestamp,
+    updatedAt: message.timestamp,
+    version: 1,
+    history: [{ action: 'created', by: message.from, at: message.timestamp }],
+  };
+}
+
+/** The task after `by` performs `action`, or why they may not. Claiming your own task again changes nothing. */
+export function applyTaskAction(
+  task: TaskRecord,
+  action: TaskAction,
+  by: string,
+  at: number,
+  note?: string,
+): { task: TaskRecord } | { error: string } {
+  if (task.status === 'done') return { error: 'Task is already done' };
+  if (task.status === 'claimed' && task.assignee !== by) return { error: `Task is claimed by ${task.assignee}` };
+  if (action === 'claim' && task.status === 'claimed') return { task };
+
+  const event: TaskEvent = { action: action === 'claim' ? 'claimed' : 'completed', by, at, ...(note ? { note } : {}) };
+  return {
+    task: {
+      ...task,
+      status: action === 'claim' ? 'claimed' : 'done',
+      assignee: by,
+      updatedAt: at,
+      version: task.version + 1,
+      history: [...task.history, event],
+    },
+  };
+}
+
+/**
+ * Rebuilds the board from todo messages and task actions. Actions replay in
+ * (time, event id) order and ones the rules reject are dropped, so every
+ * client that sees the same events agrees on who claimed a task first.
+ * Returns tasks oldest first.
+ */
+export function foldTasks(todos: AgentMessage[], actions: TaskActionEvent[]): TaskRecord[] {
+  const board = new Map<string, TaskRecord>();
+  for (const todo of [...todos].sort((a, b) => a.timestamp - b.timestamp)) board.set(todo.id, taskFromTodo(todo));
+
+  const ordered = [...actions].sort((a, b) => a.at - b.at || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  for (const a of ordered) {
+    const task = board.get(a.taskId);
+    if (!task) continue;
+    const next = applyTaskAction(task, a.action, a.by, a.at, a.note);
+    if ('task' in next) board.set(a.taskId, next.task);
+  }
+  return [...board.values()];
+}
@@ -0,0 +1,189 @@
+export type BuiltinMessageType = 'api_spec' | 'file_change' | 'decision' | 'todo' | 'question';
+
+// A built-in type or one the team has registered on the hub
+export type MessageType = string;
+
+// A reference to an artifact uploaded to the hub, keyed by SHA-256
+export interface Attachment {
+  sha256: string;
+  size: number;
+  contentType: string;
+  filename?: string;
+}
+
+export interface AgentMessage {
+  id: string;
+  from: string;
+  to: string | string[]; // agent name, 'broadcast', '#channel' or glob — or a list of them
+  type: MessageType;
+  content: string;
+  payload?: Record<string, unknown>; // structured detail, validated against the type's schema in payloads.ts
+  attachments?: Attachment[];
+  timestamp: number;
+  expiresAt?: number; // set by the sender; dropped unread from mailboxes once passed
+}
+
+// Payload schemas for custom types are a small JSON Schema subset so they can
+// be stored with the team and shown to clients as-is.
+export interface PayloadSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];                          // strings only
+  items?: PayloadSchema;                    // arrays only
+  properties?: Record<string, PayloadSchema>; // objects only
+  required?: string[];                      // objects only
+}
+
+export interface MessageTypeInfo {
+  name: MessageType;
+  description: string;
+  builtin: boolean;
+  payloadSchema?: PayloadSchema; // custom types only
+}
+
+export interface RecipientResult {
+  agent: string;
+  // delivered: pushed live or buffered for a connected agent
+  // queued:    held in an offline member's mailbox
+  // unknown:   named explicitly but not a member of the team
+  status: 'delivered' | 'queued' | 'unknown';
+}
+
+// Frames the hub sends over /agent/ws. Replies carry the `ref` of the frame they answer.
+export type WsServerFrame =
+  | { op: 'message'; message: AgentMessage }
+  | { op: 'sent'; ref: string; messageId: string; recipients: RecipientResult[] }
+  | { op: 'agents'; ref: string; agents: { name: string; connectedAt: number; online: boolean; pendingMessages: number }[] }
+  | { op: 'error'; ref?: string; error: string };
+
+export type TaskStatus = 'open' | 'claimed' | 'done';
+
+export interface TaskEvent {
+  action: 'created' | 'claimed' | 'completed';
+  by: string;  // agent name
+  at: number;
+  note?: string;
+}
+
+// A tracked todo. Opened by every `todo` message, whose id it shares
+export interface TaskRecord {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  assignee?: string;  // suggested by the todo while open; whoever claimed it afterwards
+  due?: string;
+  createdBy: string;
+  createdAt: number;
+  updatedAt: number;
+  version: number;    // bumped on every change
+  history: TaskEvent[];
+}
+
+// A rejected claim or completion carries the task as it stands (null if unknown)
+export type TaskUpdateResult =
+  | { ok: true; task: TaskRecord }
+  | { ok: false; error: string; task: TaskRecord | null };
+
+// An entry in the append-only decision log, recorded from every `decision` message.
+// ADR numbers and superseded-by links are derived from the log's order
+export interface DecisionRecord {
+  id: string;           // id of the decision message
+  number?: number;      // ADR number claimed over Nostr; hub records are numbered by position
+  title: string;
+  rationale?: string;
+  alternatives?: string[];
+  context: string;      // the message content
+  decidedBy: string;
+  decidedAt: number;
+  supersedes?: string;  // id of the earlier decision this replaces, when it could be resolved
+}
+
+export interface Decision extends DecisionRecord {
+  number: number;         // the ADR number
+  supersededBy?: string;  // id of the later decision that replaces this one
+}
+
+export interface DecisionQuery {
+  query?: string;               // case-insensitive match on title, rationale, context and alternatives
+  includeSuperseded?: boolean;  // superseded decisions are hidden by default
+}
+
+export interface AdrFile {
+  filename: string;  // e.g. 0003-use-rest-for-the-public-api.md
+  content: string;
+}
+
+// One published version of an endpoint, recorded from every `api_spec` message
+// that carries a payload. Revisions are derived from the order of a service's specs
+export interface ApiSpecRecord {
+  id: string;           // id of the api_spec message
+  service: string;
+  method: string;
+  path: string;
+  description?: string;
+  request?: Record<string, unknown>;   // JSON Schema of the request body
+  response?: Record<string, unknown>;  // JSON Schema of the response body
+  removed?: boolean;    // the endpoint was withdrawn
+  publishedBy: string;
+  publishedAt: number;
+}
+
+export interface ApiSpecVersion extends ApiSpecRecord {
+  revision: number;  // 1-based position among the service's specs
+}
+
+export interface ServiceSummary {
+  service: string;
+  revision: number;   // latest
+  endpoints: number;  // live at the latest revision
+  updatedBy: string;
+  updatedAt: number;
+}
+
+export interface EndpointRef {
+  method: string;
+  path: string;
+}
+
+export interface SchemaChange {
+  location: 'request' | 'response';
+  field: string;  // dotted path into the body, `[]` for array items; '' is the body itself
+  change: 'added' | 'removed' | 'type_changed' | 'now_required' | 'now_optional' | 'enum_changed';
+  before?: unknown;
+  after?: unknown;
+  breaking: boolean;
+}
+
+export interface EndpointDiff extends EndpointRef {
+  changes: SchemaChange[];
+  breaking: boolean;
+}
+
+export interface SpecDiff {
+  service: string;
+  from: number;  // revisions compared
+  to: number;
+  added: EndpointRef[];
+  removed: EndpointRef[];   // always breaking
+  changed: EndpointDiff[];  // only endpoints whose schemas differ
+  breaking: boolean;
+}
+
+export interface SpecQuery {
+  revision?: number;  // defaults to the latest
+  method?: string;    // with `path`, just this endpoint
+  path?: string;
+}
+
+export interface SpecDiffQuery {
+  from?: number;    // defaults to the revision before `to`, or the endpoint's previous version
+  to?: number;      // defaults to the latest revision
+  method?: string;  // with `path`, compare just this endpoint
+  path?: string;
+}
+
+// A service at one revision, or one of its endpoints with the revisions that
+// published it; `endpoint` is null if it is not live at that revision
+export type SpecView =
+  | { service: string; revision: number; endpoints: ApiSpecVersion[] }
+  | { service: string; revision: number; endpoint: ApiSpecVersion | null; versions: number[] };